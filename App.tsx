@@ -5,7 +5,8 @@ import { AppMode } from './types';
 import StudyArchitect from './components/StudyArchitect';
 import ImageTools from './components/ImageTools';
 import VeoGen from './components/VeoGen';
-import { Brain, Image as ImgIcon, Video, Command, Check, Sparkles, ArrowRight, Play, Upload, Wand2, Zap, FileText, Layers, Plus, ChevronDown, Monitor, Share2, Grid, Moon, Sun, HelpCircle, Code, ShieldCheck, Microscope, Linkedin, Github } from 'lucide-react';
+import SettingsPanel from './components/SettingsPanel';
+import { Brain, Image as ImgIcon, Video, Command, Check, Sparkles, ArrowRight, Play, Upload, Wand2, Zap, FileText, Layers, Plus, ChevronDown, Monitor, Share2, Grid, Moon, Sun, HelpCircle, Code, ShieldCheck, Microscope, Linkedin, Github, Settings } from 'lucide-react';
 
 // --- Theme Toggle Component ---
 const ThemeToggle: React.FC = () => {
@@ -822,7 +823,7 @@ const LandingPage: React.FC<{ onStart: () => void }> = ({ onStart }) => {
 
 // --- APP COMPONENTS ---
 
-const AppNavbar: React.FC<{ mode: AppMode, setMode: (m: AppMode) => void }> = ({ mode, setMode }) => {
+const AppNavbar: React.FC<{ mode: AppMode, setMode: (m: AppMode) => void, onOpenSettings: () => void }> = ({ mode, setMode, onOpenSettings }) => {
     return (
         <div className="w-full flex justify-center pt-4 md:pt-8 pb-4 relative z-50 px-2 md:px-4">
             <div className="bg-surface border border-border rounded-full p-1.5 flex items-center shadow-terminal relative transition-colors duration-300 max-w-full overflow-x-auto scrollbar-hide">
@@ -851,6 +852,13 @@ const AppNavbar: React.FC<{ mode: AppMode, setMode: (m: AppMode) => void }> = ({
 
                 {/* Right Actions */}
                 <div className="border-l border-border ml-1 md:ml-2 pl-2 md:pl-4 pr-2 flex items-center gap-2 flex-shrink-0">
+                    <button 
+                        onClick={onOpenSettings}
+                        className="w-9 h-9 rounded-full flex items-center justify-center transition-colors bg-gray-200 dark:bg-[#1A1A1A] text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-[#222]"
+                        title="Settings"
+                    >
+                        <Settings size={16} />
+                    </button>
                     <ThemeToggle />
                 </div>
             </div>
@@ -861,6 +869,7 @@ const AppNavbar: React.FC<{ mode: AppMode, setMode: (m: AppMode) => void }> = ({
 const App: React.FC = () => {
   const [showHero, setShowHero] = useState(true);
   const [mode, setMode] = useState<AppMode>(AppMode.STUDY);
+  const [showSettings, setShowSettings] = useState(false);
   const appRef = useRef<HTMLDivElement>(null);
 
   const handleStartApp = () => {
@@ -883,7 +892,7 @@ const App: React.FC = () => {
 
         {/* Main Application Container */}
         <div ref={appRef} className={`app-container transition-opacity duration-1000 flex flex-col ${showHero ? 'opacity-0 h-0 overflow-hidden' : 'opacity-100'}`}>
-            <AppNavbar mode={mode} setMode={setMode} />
+            <AppNavbar mode={mode} setMode={setMode} onOpenSettings={() => setShowSettings(true)} />
             <main className="flex-1 p-2 md:p-6 lg:px-8 relative z-10 w-full max-w-[1600px] mx-auto h-full flex flex-col">
                 <div className="animate-fade-in flex-1 flex flex-col">
                     {mode === AppMode.STUDY && <StudyArchitect />}
@@ -892,6 +901,8 @@ const App: React.FC = () => {
                 </div>
             </main>
         </div>
+
+        {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
       </div>
     </HashRouter>
   );
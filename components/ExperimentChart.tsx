@@ -0,0 +1,76 @@
+
+import React from 'react';
+import { ExperimentRun } from '../types';
+import { ExperimentVariable, sampleValue } from '../services/experimentRecorder';
+import { formatSimValue } from '../services/simulatorBridge';
+
+interface Props {
+  runs: ExperimentRun[];
+  variable: ExperimentVariable;
+  // One per run, in order
+  colors: string[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 16, bottom: 28, left: 52 };
+const TICKS = 5;
+
+// Round tick steps (1, 2, 2.5, 5 x 10^n) spanning [min, max]
+const niceTicks = (min: number, max: number): number[] => {
+  const span = max - min || Math.abs(max) || 1;
+  const raw = span / (TICKS - 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= raw)!;
+  const ticks: number[] = [];
+  for (let v = Math.floor(min / step) * step; v <= max + step * 0.5; v += step) ticks.push(Number(v.toPrecision(12)));
+  return ticks;
+};
+
+// One variable over time, a line per run, so runs can be compared on the same axes.
+const ExperimentChart: React.FC<Props> = ({ runs, variable, colors }) => {
+  const series = runs.map(run => run.samples
+      .map(s => ({ t: s.t, v: sampleValue(s, variable) }))
+      .filter((p): p is { t: number; v: number } => p.v !== undefined));
+  const points = series.flat();
+
+  if (points.length === 0) {
+      return <div className="h-full min-h-[160px] flex items-center justify-center text-xs text-gray-500 italic">No {variable.label} readings in the selected runs</div>;
+  }
+
+  const maxT = Math.max(...points.map(p => p.t), 1);
+  const yTicks = niceTicks(Math.min(...points.map(p => p.v)), Math.max(...points.map(p => p.v)));
+  const xTicks = niceTicks(0, maxT).filter(t => t <= maxT);
+  const yMin = yTicks[0];
+  const yMax = yTicks[yTicks.length - 1] === yMin ? yMin + 1 : yTicks[yTicks.length - 1];
+  const x = (t: number) => PAD.left + (t / maxT) * (WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => HEIGHT - PAD.bottom - ((v - yMin) / (yMax - yMin)) * (HEIGHT - PAD.top - PAD.bottom);
+
+  return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${variable.label} over time`}>
+          {yTicks.map(v => (
+              <g key={`y${v}`}>
+                  <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="currentColor" className="text-white/10" />
+                  <text x={PAD.left - 6} y={y(v)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px] font-mono">{formatSimValue(v)}</text>
+              </g>
+          ))}
+          {xTicks.map(t => (
+              <text key={`x${t}`} x={x(t)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" className="fill-gray-500 text-[10px] font-mono">{formatSimValue(t)}</text>
+          ))}
+          <text x={WIDTH - PAD.right} y={HEIGHT - 2} textAnchor="end" className="fill-gray-500 text-[10px]">time (s)</text>
+          <text x={4} y={PAD.top - 2} className="fill-gray-400 text-[10px]">{variable.label}{variable.unit ? ` (${variable.unit})` : ''}</text>
+          {series.map((line, i) => line.length > 0 && (
+              <polyline
+                  key={runs[i].id}
+                  points={line.map(p => `${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(' ')}
+                  fill="none"
+                  stroke={colors[i]}
+                  strokeWidth={1.75}
+                  strokeLinejoin="round"
+              />
+          ))}
+      </svg>
+  );
+};
+
+export default ExperimentChart;
@@ -0,0 +1,162 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Circle, Square, Trash2, FileSpreadsheet, FileJson, FlaskConical, X } from 'lucide-react';
+import { ExperimentRun, SimulatorOutput, SimulatorParam } from '../types';
+import { SimulatorBridge } from '../services/simulatorBridge';
+import { ExperimentRecording, MAX_RUN_SAMPLES, startRecording, experimentVariables, describeRunSettings, experimentsToCsv, experimentsToJson } from '../services/experimentRecorder';
+import ExperimentChart from './ExperimentChart';
+
+interface Props {
+  bridge: SimulatorBridge;
+  runs: ExperimentRun[];
+  topic: string;
+  onAddRun: (run: ExperimentRun) => void;
+  onDeleteRun: (id: string) => void;
+  onClose: () => void;
+}
+
+const RUN_COLORS = ['#5B5FFF', '#F59E0B', '#10B981', '#EC4899', '#06B6D4', '#EF4444', '#A855F7', '#84CC16'];
+
+const download = (text: string, mimeType: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// The Lab drawer under the simulator: record runs over the bridge, compare
+// them on one chart and export them for a lab report.
+const ExperimentRecorder: React.FC<Props> = ({ bridge, runs, topic, onAddRun, onDeleteRun, onClose }) => {
+  const [params, setParams] = useState<SimulatorParam[]>([]);
+  const [outputs, setOutputs] = useState<SimulatorOutput[]>([]);
+  const [recording, setRecording] = useState<{ count: number; t: number } | null>(null);
+  const [hiddenRuns, setHiddenRuns] = useState<Set<string>>(new Set());
+  const [variableKey, setVariableKey] = useState<string | null>(null);
+  const recordingRef = useRef<ExperimentRecording | null>(null);
+  // Closing the drawer mid-run still keeps what was recorded
+  const onAddRunRef = useRef(onAddRun);
+  onAddRunRef.current = onAddRun;
+
+  useEffect(() => {
+      const unsubscribe = bridge.subscribe(event => {
+          if (event.type === 'ready') {
+              setParams(event.params);
+              setOutputs(event.outputs);
+          } else if (event.type === 'params') {
+              setParams(event.params);
+          }
+      });
+      bridge.refresh();
+      return () => {
+          unsubscribe();
+          const run = recordingRef.current?.stop();
+          recordingRef.current = null;
+          if (run) onAddRunRef.current(run);
+      };
+  }, [bridge]);
+
+  const stop = () => {
+      const run = recordingRef.current?.stop();
+      recordingRef.current = null;
+      setRecording(null);
+      if (run) onAddRunRef.current(run);
+  };
+
+  const start = () => {
+      let number = runs.length + 1;
+      while (runs.some(r => r.name === `Run ${number}`)) number++;
+      setRecording({ count: 0, t: 0 });
+      recordingRef.current = startRecording(bridge, `Run ${number}`, params, outputs, (count, t, full) => {
+          setRecording({ count, t });
+          if (full) setTimeout(stop, 0);
+      });
+  };
+
+  const variables = useMemo(() => experimentVariables(runs), [runs]);
+  const variable = variables.find(v => `${v.kind}:${v.id}` === variableKey) || variables[0];
+  const visibleRuns = runs.filter(r => !hiddenRuns.has(r.id));
+  const colorOf = (run: ExperimentRun) => RUN_COLORS[runs.indexOf(run) % RUN_COLORS.length];
+  const fileBase = `StudySimAI_${(topic || 'Experiment').slice(0, 20).replace(/[^a-z0-9]/gi, '_')}_runs`;
+
+  const toggleRun = (id: string) => {
+      const next = new Set(hiddenRuns);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      setHiddenRuns(next);
+  };
+
+  return (
+      <div className="h-80 flex-shrink-0 border-t border-white/10 bg-zinc-950 flex flex-col animate-in fade-in slide-in-from-bottom-2">
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10">
+              <span className="text-xs font-bold text-white flex items-center gap-2 mr-auto"><FlaskConical size={12}/> Lab</span>
+              {recording ? (
+                  <button onClick={stop} className="text-xs font-bold text-white px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded-lg flex items-center gap-2 active:scale-95">
+                      <Square size={10} className="fill-current"/> Stop
+                      <span className="font-mono font-normal">{recording.t.toFixed(1)}s • {recording.count}/{MAX_RUN_SAMPLES}</span>
+                  </button>
+              ) : (
+                  <button onClick={start} className="text-xs font-bold text-gray-200 hover:text-white px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-2 active:scale-95" title="Record the parameters and outputs over time">
+                      <Circle size={10} className="fill-red-500 text-red-500"/> Record
+                  </button>
+              )}
+              <button onClick={() => download(experimentsToCsv(runs), 'text/csv;charset=utf-8', `${fileBase}.csv`)} disabled={runs.length === 0} className="text-xs font-bold text-gray-300 hover:text-white px-2 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1 disabled:opacity-40" title="Export all runs as CSV">
+                  <FileSpreadsheet size={12}/> CSV
+              </button>
+              <button onClick={() => download(experimentsToJson(runs, topic), 'application/json', `${fileBase}.json`)} disabled={runs.length === 0} className="text-xs font-bold text-gray-300 hover:text-white px-2 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1 disabled:opacity-40" title="Export all runs as JSON">
+                  <FileJson size={12}/> JSON
+              </button>
+              <button onClick={onClose} title="Close" className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10"><X size={12}/></button>
+          </div>
+
+          {runs.length === 0 ? (
+              <div className="flex-1 flex items-center justify-center p-6 text-center text-xs text-gray-500">
+                  {recording ? 'Recording… change the parameters and watch the simulation, then press Stop.'
+                      : params.length === 0 && outputs.length === 0
+                          ? 'This simulator exposes nothing to record yet. Regenerate it to add parameters and outputs.'
+                          : 'Press Record, run the experiment, then Stop. Each run is saved with the session.'}
+              </div>
+          ) : (
+              <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+                  <ul className="md:w-56 flex-shrink-0 overflow-y-auto custom-scrollbar border-b md:border-b-0 md:border-r border-white/10 p-2 space-y-1 max-h-28 md:max-h-none">
+                      {runs.map(run => (
+                          <li key={run.id} className="group flex items-start gap-2 px-2 py-1.5 rounded-lg hover:bg-white/5">
+                              <input type="checkbox" checked={!hiddenRuns.has(run.id)} onChange={() => toggleRun(run.id)} className="mt-0.5" style={{ accentColor: colorOf(run) }} />
+                              <div className="flex-1 min-w-0" title={describeRunSettings(run)}>
+                                  <span className="text-xs font-bold flex items-center gap-1.5" style={{ color: colorOf(run) }}>
+                                      {run.name}
+                                      <span className="font-mono font-normal text-[10px] text-gray-500">{run.samples[run.samples.length - 1].t.toFixed(1)}s</span>
+                                  </span>
+                                  <span className="block text-[10px] text-gray-400 truncate">{describeRunSettings(run) || 'No parameters'}</span>
+                              </div>
+                              <button onClick={() => onDeleteRun(run.id)} title="Delete run" className="p-1 rounded text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 size={12}/></button>
+                          </li>
+                      ))}
+                  </ul>
+                  <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar p-3">
+                      {variable && (
+                          <>
+                              <select
+                                  value={`${variable.kind}:${variable.id}`}
+                                  onChange={e => setVariableKey(e.target.value)}
+                                  className="mb-2 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-200 outline-none"
+                              >
+                                  {variables.map(v => (
+                                      <option key={`${v.kind}:${v.id}`} value={`${v.kind}:${v.id}`} className="bg-zinc-900">
+                                          {v.kind === 'param' ? 'Parameter: ' : ''}{v.label}{v.unit ? ` (${v.unit})` : ''}
+                                      </option>
+                                  ))}
+                              </select>
+                              <ExperimentChart runs={visibleRuns} variable={variable} colors={visibleRuns.map(colorOf)} />
+                          </>
+                      )}
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
+
+export default ExperimentRecorder;
@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { ShieldCheck, AlertTriangle, Check, X, ChevronRight } from 'lucide-react';
+import { FactCheckFlag, FactCheckReport } from '../types';
+import { locateQuote } from '../services/factCheck';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface Props {
+  report: FactCheckReport;
+  // Current notes, to tell whether a flag's quote can still be replaced
+  notes: string;
+  lang?: string;
+  onAccept: (flag: FactCheckFlag) => void;
+  onDismiss: (flag: FactCheckFlag) => void;
+}
+
+const scrollToFlag = (flag: FactCheckFlag) =>
+  document.getElementById(`flag-${flag.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+// Summary of the fact check above the notes, with the open flags to review.
+const FactCheckPanel: React.FC<Props> = ({ report, notes, lang, onAccept, onDismiss }) => {
+  const [expanded, setExpanded] = useState(true);
+  const open = report.flags.filter(f => f.status === 'open');
+  const resolved = report.flags.length - open.length;
+
+  return (
+      <div className={`mb-6 rounded-2xl border print:hidden ${open.length > 0 ? 'border-amber-300 dark:border-amber-500/40 bg-amber-50/60 dark:bg-amber-500/5' : 'border-border bg-surface-highlight'}`}>
+          <button onClick={() => setExpanded(e => !e)} disabled={open.length === 0} className="w-full flex items-center gap-3 px-4 py-3 text-start">
+              {open.length > 0 ? <AlertTriangle size={16} className="text-amber-500 flex-shrink-0" /> : <ShieldCheck size={16} className="text-green-500 flex-shrink-0" />}
+              <span className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-bold text-gray-900 dark:text-white">Fact check: </span>
+                  {report.claimsChecked} statements checked · {report.supported} supported · {report.unverifiable} unverifiable · {report.flags.length} disputed
+                  {resolved > 0 && <span className="text-gray-500 dark:text-gray-400"> ({resolved} resolved)</span>}
+              </span>
+              {open.length > 0 && <ChevronRight size={16} className={`text-gray-400 transition-transform ${expanded ? 'rotate-90' : ''}`} />}
+          </button>
+          {expanded && open.length > 0 && (
+              <ul className="px-4 pb-4 space-y-3">
+                  {open.map(flag => {
+                      const replaceable = !!flag.correction && !!locateQuote(notes, flag.quote);
+                      return (
+                          <li key={flag.id} className="p-3 rounded-xl bg-surface border border-border text-sm space-y-2">
+                              <button onClick={() => scrollToFlag(flag)} className="block w-full text-start line-through decoration-amber-500/70 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white" title="Show in the notes">
+                                  <MarkdownRenderer content={flag.quote} variant="chat" lang={lang} />
+                              </button>
+                              {flag.correction && (
+                                  <div className="text-gray-900 dark:text-white font-medium">
+                                      <MarkdownRenderer content={flag.correction} variant="chat" lang={lang} />
+                                  </div>
+                              )}
+                              <p className="text-xs text-gray-500 dark:text-gray-400">{flag.evidence}{flag.source && <span className="font-medium"> — {flag.source}</span>}</p>
+                              <div className="flex items-center gap-2 pt-1">
+                                  <button
+                                      onClick={() => onAccept(flag)}
+                                      disabled={!replaceable}
+                                      title={replaceable ? "Replace the statement in the notes" : "The statement is no longer in the notes"}
+                                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white text-xs font-bold transition-colors active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+                                  >
+                                      <Check size={12} /> Accept correction
+                                  </button>
+                                  <button onClick={() => onDismiss(flag)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#252525] transition-colors active:scale-95">
+                                      <X size={12} /> Keep as written
+                                  </button>
+                              </div>
+                          </li>
+                      );
+                  })}
+              </ul>
+          )}
+      </div>
+  );
+};
+
+export default FactCheckPanel;
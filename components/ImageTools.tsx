@@ -12,11 +12,13 @@ const ImageTools: React.FC = () => {
   const [sourceFile, setSourceFile] = useState<File | null>(null);
   const [size, setSize] = useState<'1K'|'2K'|'4K'>('1K');
   const [aspect, setAspect] = useState<any>('1:1');
+  const [error, setError] = useState<string | null>(null);
 
   const handleAction = async () => {
     if (!prompt) return;
     setLoading(LoadingState.LOADING);
     setResultImage(null);
+    setError(null);
 
     try {
         if (mode === 'GENERATE') {
@@ -33,8 +35,9 @@ const ImageTools: React.FC = () => {
             setResultImage(url);
         }
         setLoading(LoadingState.SUCCESS);
-    } catch (e) {
+    } catch (e: any) {
         console.error(e);
+        setError(e?.message || "Generation failed.");
         setLoading(LoadingState.ERROR);
     }
   };
@@ -118,6 +121,11 @@ const ImageTools: React.FC = () => {
                 >
                     {loading === LoadingState.LOADING ? <Wand2 className="animate-spin" /> : mode === 'GENERATE' ? 'GENERATE' : 'APPLY EDITS'}
                 </button>
+                {error && (
+                    <p className="mt-4 text-xs text-red-500 font-medium flex items-start gap-2">
+                        <Minus className="bg-red-500 text-white rounded-full p-0.5 flex-shrink-0" size={14} /> {error}
+                    </p>
+                )}
             </div>
         </div>
 
@@ -0,0 +1,101 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Pause, Play, Square, Trash2, Loader2 } from 'lucide-react';
+import { LectureRecorder, RecorderState, createLectureRecorder } from '../services/lectureRecorder';
+import { formatTimestamp } from '../services/transcription';
+
+interface Props {
+  // The finished recording, reassembled from its stored chunks
+  onRecorded: (file: File, recordingId: string) => void;
+  onClose: () => void;
+}
+
+// Starts recording as soon as it mounts. Unmounting mid-recording releases
+// the microphone but keeps the stored chunks for recovery.
+const LectureRecorderPanel: React.FC<Props> = ({ onRecorded, onClose }) => {
+  const recorderRef = useRef<LectureRecorder | null>(null);
+  const [state, setState] = useState<RecorderState>('idle');
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const recorder = createLectureRecorder({
+        onStateChange: setState,
+        onLevel: setLevel,
+        onError: (e) => setError(`Part of the recording could not be saved: ${e.message}`)
+    });
+    recorderRef.current = recorder;
+    recorder.start().catch(e => {
+        console.error("Microphone access denied", e);
+        setError("Could not access the microphone.");
+    });
+    const interval = setInterval(() => setElapsed(recorder.elapsedMs()), 500);
+    return () => {
+        clearInterval(interval);
+        // Leave the chunks in place; the recording shows up under recovery.
+        if (recorderRef.current === recorder) recorder.detach();
+    };
+  }, []);
+
+  const handleStop = async () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      try {
+          const file = await recorder.stop();
+          recorderRef.current = null;
+          onRecorded(file, recorder.id);
+          onClose();
+      } catch (e) {
+          console.error(e);
+          setError((e as Error)?.message || "Could not finish the recording.");
+      }
+  };
+
+  const handleDiscard = async () => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      await recorder?.cancel().catch(e => console.warn("Failed to discard recording", e));
+      onClose();
+  };
+
+  const isRecording = state === 'recording';
+
+  return (
+      <div className="mx-3 mb-2 p-3 rounded-2xl border border-red-200 dark:border-red-900/40 bg-red-50/60 dark:bg-red-900/10 flex flex-wrap items-center gap-3 animate-in fade-in slide-in-from-bottom-2">
+          <div className={`w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-gray-200 dark:bg-gray-800 text-gray-500'}`}>
+              <Mic size={16} />
+          </div>
+          <div className="flex flex-col min-w-[120px]">
+              <span className="text-xs font-bold uppercase tracking-wider text-red-600 dark:text-red-400">
+                  {state === 'paused' ? 'Paused' : state === 'stopping' ? 'Saving…' : isRecording ? 'Recording' : error ? 'Stopped' : 'Starting…'}
+              </span>
+              <span className="font-mono text-lg tabular-nums text-gray-900 dark:text-white">{formatTimestamp(elapsed / 1000)}</span>
+          </div>
+          {/* Level meter */}
+          <div className="flex-1 min-w-[80px] h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden" title="Input level">
+              <div className="h-full bg-gradient-to-r from-green-500 via-yellow-400 to-red-500 transition-[width] duration-75" style={{ width: `${Math.round(level * 100)}%` }}></div>
+          </div>
+          <div className="flex items-center gap-1">
+              {state === 'paused' ? (
+                  <button onClick={() => recorderRef.current?.resume()} className="p-2 rounded-full hover:bg-white dark:hover:bg-[#252525] text-gray-700 dark:text-gray-200 transition-colors active:scale-95" title="Resume">
+                      <Play size={18} />
+                  </button>
+              ) : (
+                  <button onClick={() => recorderRef.current?.pause()} disabled={!isRecording} className="p-2 rounded-full hover:bg-white dark:hover:bg-[#252525] text-gray-700 dark:text-gray-200 transition-colors active:scale-95 disabled:opacity-40" title="Pause">
+                      <Pause size={18} />
+                  </button>
+              )}
+              <button onClick={handleStop} disabled={state !== 'recording' && state !== 'paused'} className="p-2 rounded-full hover:bg-white dark:hover:bg-[#252525] text-red-600 transition-colors active:scale-95 disabled:opacity-40" title="Stop and attach">
+                  {state === 'stopping' ? <Loader2 size={18} className="animate-spin" /> : <Square size={18} />}
+              </button>
+              <button onClick={handleDiscard} disabled={state === 'stopping'} className="p-2 rounded-full hover:bg-white dark:hover:bg-[#252525] text-gray-500 hover:text-red-500 transition-colors active:scale-95 disabled:opacity-40" title="Discard recording">
+                  <Trash2 size={18} />
+              </button>
+          </div>
+          {error && <p className="w-full text-xs text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+  );
+};
+
+export default LectureRecorderPanel;
@@ -1,21 +1,106 @@
 
 import React, { useEffect, useRef } from 'react';
-import { Image as ImageIcon } from 'lucide-react';
+import { Image as ImageIcon, AlertTriangle } from 'lucide-react';
+import { languageDirection } from '../services/studySettings';
+import { CitationMark, findCitations } from '../services/citations';
+import { quoteTouchesText } from '../services/factCheck';
+import { StudyReference, FactCheckFlag } from '../types';
 
 interface Props {
   content: string;
   variant?: 'default' | 'chat';
+  // Language code of the content; right-to-left languages flip the layout
+  lang?: string;
+  // When given, "[2]" / "[2, p.12]" markers become citations with hover cards
+  references?: StudyReference[];
+  // Open flags highlight the blocks holding their quotes (see factCheck.ts)
+  flags?: FactCheckFlag[];
 }
 
+// Superscript marker linking to the References section; hovering shows the
+// source. The card is left out of DOCX exports (data-hover-card).
+const CitationMarker: React.FC<{ mark: CitationMark; reference: StudyReference }> = ({ mark, reference }) => (
+  <sup className="relative group/cite text-[0.7em] leading-none">
+      <a href={`#ref-${reference.id}`} className="text-primary font-semibold hover:underline">[{mark.anchor ? `${mark.id}, ${mark.anchor}` : mark.id}]</a>
+      <span data-hover-card className="invisible opacity-0 group-hover/cite:visible group-hover/cite:opacity-100 transition-opacity absolute z-30 bottom-full start-0 pb-2 w-64 text-start print:hidden">
+          <span className="block p-3 rounded-xl border border-border bg-surface shadow-xl text-xs font-normal leading-snug">
+              <span className="block font-bold text-gray-900 dark:text-white">{reference.title}</span>
+              {reference.uri ? (
+                  <a href={reference.uri} target="_blank" rel="noopener noreferrer" dir="ltr" className="block mt-1 text-primary hover:underline break-all">{reference.uri}</a>
+              ) : (
+                  <span className="block mt-1 text-gray-500 dark:text-gray-400">Uploaded document{mark.anchor ? ` · ${mark.anchor}` : ''}</span>
+              )}
+          </span>
+      </span>
+  </sup>
+);
+
+// A block holding a disputed claim; the badge's hover card shows the
+// evidence and the suggested correction. Left out of exports like citations.
+const FlaggedBlock: React.FC<{ flag: FactCheckFlag; anchor: boolean; children: React.ReactNode }> = ({ flag, anchor, children }) => (
+  <div id={anchor ? `flag-${flag.id}` : undefined} className="relative -mx-3 px-3 py-1 rounded-lg bg-amber-50 dark:bg-amber-500/10 border-s-4 border-amber-400 scroll-mt-24 print:bg-transparent print:border-0">
+      {children}
+      <span data-hover-card className="absolute -top-2.5 end-2 group/flag print:hidden">
+          <span className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-amber-400 text-amber-950 text-[10px] font-bold uppercase tracking-wider cursor-help">
+              <AlertTriangle size={10} /> Disputed
+          </span>
+          <span className="invisible opacity-0 group-hover/flag:visible group-hover/flag:opacity-100 transition-opacity absolute z-30 top-full end-0 pt-2 w-72 text-start">
+              <span className="block p-3 rounded-xl border border-border bg-surface shadow-xl text-xs leading-snug space-y-2">
+                  <span className="block text-gray-700 dark:text-gray-300">{flag.evidence}</span>
+                  {flag.source && <span className="block text-gray-500 dark:text-gray-400">Source: {flag.source}</span>}
+                  {flag.correction && (
+                      <span className="block">
+                          <span className="block font-bold text-gray-900 dark:text-white mb-1">Suggested correction</span>
+                          <MarkdownRenderer content={flag.correction} variant="chat" />
+                      </span>
+                  )}
+              </span>
+          </span>
+      </span>
+  </div>
+);
+
+type Block =
+  | { type: 'h1' | 'h2' | 'h3' | 'h4' | 'blockquote' | 'ul' | 'p' | 'image_placeholder' | 'math'; content: string }
+  | { type: 'ol'; num: string; content: string }
+  | { type: 'table'; rows: string[] }
+  | { type: 'image'; alt: string; src: string };
+
+// Raw markdown of a parsed block, for matching flag quotes
+const blockText = (block: Block): string => {
+  switch (block.type) {
+      case 'table': return block.rows.join('\n');
+      case 'image': return '';
+      default: return block.content;
+  }
+};
+
 declare global {
   interface Window {
     katex: any;
   }
 }
 
-const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default' }) => {
+const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default', lang, references, flags }) => {
   const isChat = variant === 'chat';
 
+  // --- Helper: Citation markers in plain text ---
+  const parseCitations = (text: string) => {
+    if (!references || references.length === 0) return text;
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of findCitations(text)) {
+      const reference = references.find(r => r.id === match.id);
+      // Unknown numbers stay as typed
+      if (!reference) continue;
+      parts.push(text.slice(last, match.index));
+      parts.push(<CitationMarker key={match.index} mark={{ id: reference.id, anchor: match.anchor }} reference={reference} />);
+      last = match.index + match.length;
+    }
+    parts.push(text.slice(last));
+    return parts;
+  };
+
   // --- Helper: Parse Inline (Bold + Inline Math + Links) ---
   const parseInline = (text: string) => {
     // 1. Split by inline math ($...$)
@@ -64,11 +149,11 @@ const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default' }) =>
                             if (boldPart.startsWith('**') && boldPart.endsWith('**')) {
                                 return (
                                     <strong key={k} className={`font-black ${isChat ? '' : 'text-gray-900 dark:text-white'}`}>
-                                        {boldPart.slice(2, -2)}
+                                        {parseCitations(boldPart.slice(2, -2))}
                                     </strong>
                                 );
                             }
-                            return <span key={k}>{boldPart}</span>;
+                            return <span key={k}>{parseCitations(boldPart)}</span>;
                         })}
                     </React.Fragment>
                   );
@@ -80,7 +165,7 @@ const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default' }) =>
 
   // --- BLOCK PARSER ---
   const lines = content.replace(/\\n/g, '\n').split('\n');
-  const blocks: any[] = [];
+  const blocks: Block[] = [];
   
   let i = 0;
   while (i < lines.length) {
@@ -117,7 +202,7 @@ const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default' }) =>
 
       // 2. Tables
       if (trimmed.startsWith('|')) {
-          const rows = [];
+          const rows: string[] = [];
           let j = i;
           while (j < lines.length && lines[j].trim().startsWith('|')) {
               rows.push(lines[j].trim());
@@ -184,142 +269,155 @@ const MarkdownRenderer: React.FC<Props> = ({ content, variant = 'default' }) =>
   }
 
   // --- RENDERER ---
+  const renderBlock = (block: Block, idx: number) => {
+      switch (block.type) {
+          case 'h1':
+              return (
+                  <h1 key={idx} className={`font-serif font-bold text-gray-900 dark:text-white leading-tight ${isChat ? 'text-lg mb-1 mt-2' : 'text-3xl md:text-4xl mb-4 mt-8 pb-3 border-b border-gray-200 dark:border-white/10'}`}>
+                      {parseInline(block.content)}
+                  </h1>
+              );
+          case 'h2':
+              return (
+                  <div key={idx} className={`${isChat ? 'mt-3 mb-1' : 'mt-8 mb-4'}`}>
+                      <h2 className={`font-sans font-bold flex items-center gap-2 ${isChat ? 'text-base text-gray-100' : 'text-xl md:text-2xl text-gray-800 dark:text-gray-100 pb-2'}`}>
+                          {!isChat && <div className="w-1.5 h-6 bg-primary rounded-full"></div>}
+                          {parseInline(block.content)}
+                      </h2>
+                  </div>
+              );
+          case 'h3':
+               return (
+                  <h3 key={idx} className={`font-bold text-gray-800 dark:text-gray-200 ${isChat ? 'text-sm mt-2 opacity-90' : 'text-lg md:text-xl mt-4 mb-2'}`}>
+                      {parseInline(block.content)}
+                  </h3>
+              );
+          case 'h4':
+              return (
+                 <h4 key={idx} className={`font-bold text-gray-700 dark:text-gray-300 ${isChat ? 'text-xs mt-2 uppercase tracking-wider' : 'text-base md:text-lg mt-3 mb-1 uppercase tracking-wide opacity-80'}`}>
+                     {parseInline(block.content)}
+                 </h4>
+             );
+          case 'blockquote':
+              return (
+                  <div key={idx} className={`my-3 rounded-xl border flex items-start gap-3 ${isChat ? 'bg-white/10 border-white/20 p-3' : 'bg-gray-50 dark:bg-[#1A1A1A] border-gray-200 dark:border-white/10 p-4 shadow-sm'}`}>
+                      <div className={`mt-1 h-full w-1 rounded-full ${isChat ? 'bg-current opacity-50' : 'bg-primary/50'}`}></div>
+                      <p className={`font-medium italic leading-relaxed break-words w-full ${isChat ? 'text-inherit' : 'text-gray-800 dark:text-gray-200 font-serif'}`}>
+                          {parseInline(block.content)}
+                      </p>
+                  </div>
+              );
+          case 'ul':
+              return (
+                  <div key={idx} className={`flex items-start gap-3 ${isChat ? 'ms-0' : 'ms-2 md:ms-4'}`}>
+                      <div className={`mt-2 w-1.5 h-1.5 rounded-full flex-shrink-0 ${isChat ? 'bg-current opacity-60' : 'bg-primary'}`}></div>
+                      <p className="flex-1">{parseInline(block.content)}</p>
+                  </div>
+              );
+          case 'ol':
+               return (
+                   <div key={idx} className={`flex items-start gap-2 ${isChat ? 'ms-0' : 'ms-2 md:ms-4'}`}>
+                       <span className={`font-bold tabular-nums ${isChat ? 'opacity-80' : 'text-primary'}`}>{block.num}</span>
+                       <p className="flex-1">{parseInline(block.content)}</p>
+                   </div>
+               );
+          case 'image':
+               return (
+                   <div key={idx} className="my-6 w-full flex justify-center">
+                       <img 
+                           src={block.src} 
+                           alt={block.alt} 
+                           className="rounded-xl shadow-lg max-h-[500px] object-contain bg-black/5 dark:bg-white/5 border border-border" 
+                           loading="lazy"
+                       />
+                   </div>
+               );
+          case 'image_placeholder':
+              return (
+                  <div key={idx} className="my-6 p-6 bg-surface-highlight border-2 border-dashed border-border rounded-xl flex flex-col items-center text-center gap-3 group hover:border-primary/50 transition-colors">
+                      <div className="w-12 h-12 bg-surface rounded-full flex items-center justify-center text-gray-400 group-hover:text-primary transition-colors shadow-sm">
+                          <ImageIcon size={24} />
+                      </div>
+                      <p className="text-sm font-medium text-gray-500 dark:text-gray-400 italic max-w-lg">
+                          {block.content}
+                      </p>
+                  </div>
+              );
+          case 'math':
+              try {
+                   const latex = block.content;
+                   if (window.katex) {
+                       const html = window.katex.renderToString(latex, { throwOnError: false, displayMode: true });
+                       return (
+                           <div key={idx} dir="ltr" className="my-4 p-4 md:p-6 bg-white dark:bg-[#1A1A1A] border border-gray-200 dark:border-white/10 rounded-2xl shadow-sm overflow-x-auto flex justify-center">
+                               <div dangerouslySetInnerHTML={{ __html: html }} />
+                           </div>
+                       );
+                   }
+                   return <div key={idx} className="p-4 bg-gray-100 font-mono text-center">{latex}</div>;
+              } catch(e) {
+                   return <div key={idx} className="text-red-500">Error rendering math</div>;
+              }
+          case 'table':
+               const parsedRows = block.rows.map(r => r.split('|').filter(c => c.trim() !== '').map(c => c.trim()));
+               const hasHeader = parsedRows.length > 1 && parsedRows[1][0].includes('---');
+               const headerRow = hasHeader ? parsedRows[0] : null;
+               const bodyRows = hasHeader ? parsedRows.slice(2) : parsedRows;
+
+               return (
+                   <div key={idx} className="w-full overflow-x-auto my-4 rounded-xl border border-border shadow-sm bg-surface">
+                       <table className="min-w-full divide-y divide-border">
+                           {headerRow && (
+                               <thead className="bg-surface-highlight">
+                                   <tr>
+                                       {headerRow.map((cell: string, ci: number) => (
+                                           <th key={ci} className="px-4 py-3 text-start text-xs md:text-sm font-bold text-gray-900 dark:text-white uppercase tracking-wider">
+                                               {parseInline(cell)}
+                                           </th>
+                                       ))}
+                                   </tr>
+                               </thead>
+                           )}
+                           <tbody className="bg-surface divide-y divide-border">
+                               {bodyRows.map((row: string[], ri: number) => (
+                                   <tr key={ri} className="even:bg-surface-highlight hover:bg-gray-50 dark:hover:bg-white/5 transition-colors">
+                                       {row.map((cell: string, ci: number) => (
+                                           <td key={ci} className="px-4 py-3 text-sm md:text-base text-gray-700 dark:text-gray-300 whitespace-normal">
+                                               {parseInline(cell)}
+                                           </td>
+                                       ))}
+                                   </tr>
+                               ))}
+                           </tbody>
+                       </table>
+                   </div>
+               );
+          default:
+              return (
+                  <p key={idx} className={`${isChat ? 'text-inherit' : ''}`}>
+                      {parseInline(block.content)}
+                  </p>
+              );
+      }
+  };
+
+  // Blocks holding an open fact-check flag are highlighted
+  const openFlags = (flags || []).filter(f => f.status === 'open');
+  const anchored = new Set<string>();
+
   return (
-    <div className={`
+    <div lang={lang} dir={lang ? languageDirection(lang) : undefined} className={`
       ${isChat ? 'text-sm space-y-2 text-inherit' : 'text-base md:text-lg space-y-4 text-gray-700 dark:text-gray-300'} 
       leading-relaxed font-normal w-full
     `}>
         {blocks.map((block, idx) => {
-            switch (block.type) {
-                case 'h1':
-                    return (
-                        <h1 key={idx} className={`font-serif font-bold text-gray-900 dark:text-white leading-tight ${isChat ? 'text-lg mb-1 mt-2' : 'text-3xl md:text-4xl mb-4 mt-8 pb-3 border-b border-gray-200 dark:border-white/10'}`}>
-                            {block.content}
-                        </h1>
-                    );
-                case 'h2':
-                    return (
-                        <div key={idx} className={`${isChat ? 'mt-3 mb-1' : 'mt-8 mb-4'}`}>
-                            <h2 className={`font-sans font-bold flex items-center gap-2 ${isChat ? 'text-base text-gray-100' : 'text-xl md:text-2xl text-gray-800 dark:text-gray-100 pb-2'}`}>
-                                {!isChat && <div className="w-1.5 h-6 bg-primary rounded-full"></div>}
-                                {block.content}
-                            </h2>
-                        </div>
-                    );
-                case 'h3':
-                     return (
-                        <h3 key={idx} className={`font-bold text-gray-800 dark:text-gray-200 ${isChat ? 'text-sm mt-2 opacity-90' : 'text-lg md:text-xl mt-4 mb-2'}`}>
-                            {block.content}
-                        </h3>
-                    );
-                case 'h4':
-                    return (
-                       <h4 key={idx} className={`font-bold text-gray-700 dark:text-gray-300 ${isChat ? 'text-xs mt-2 uppercase tracking-wider' : 'text-base md:text-lg mt-3 mb-1 uppercase tracking-wide opacity-80'}`}>
-                           {block.content}
-                       </h4>
-                   );
-                case 'blockquote':
-                    return (
-                        <div key={idx} className={`my-3 rounded-xl border flex items-start gap-3 ${isChat ? 'bg-white/10 border-white/20 p-3' : 'bg-gray-50 dark:bg-[#1A1A1A] border-gray-200 dark:border-white/10 p-4 shadow-sm'}`}>
-                            <div className={`mt-1 h-full w-1 rounded-full ${isChat ? 'bg-current opacity-50' : 'bg-primary/50'}`}></div>
-                            <p className={`font-medium italic leading-relaxed break-words w-full ${isChat ? 'text-inherit' : 'text-gray-800 dark:text-gray-200 font-serif'}`}>
-                                {parseInline(block.content)}
-                            </p>
-                        </div>
-                    );
-                case 'ul':
-                    return (
-                        <div key={idx} className={`flex items-start gap-3 ${isChat ? 'ml-0' : 'ml-2 md:ml-4'}`}>
-                            <div className={`mt-2 w-1.5 h-1.5 rounded-full flex-shrink-0 ${isChat ? 'bg-current opacity-60' : 'bg-primary'}`}></div>
-                            <p className="flex-1">{parseInline(block.content)}</p>
-                        </div>
-                    );
-                case 'ol':
-                     return (
-                         <div key={idx} className={`flex items-start gap-2 ${isChat ? 'ml-0' : 'ml-2 md:ml-4'}`}>
-                             <span className={`font-bold tabular-nums ${isChat ? 'opacity-80' : 'text-primary'}`}>{block.num}</span>
-                             <p className="flex-1">{parseInline(block.content)}</p>
-                         </div>
-                     );
-                case 'image':
-                     return (
-                         <div key={idx} className="my-6 w-full flex justify-center">
-                             <img 
-                                 src={block.src} 
-                                 alt={block.alt} 
-                                 className="rounded-xl shadow-lg max-h-[500px] object-contain bg-black/5 dark:bg-white/5 border border-border" 
-                                 loading="lazy"
-                             />
-                         </div>
-                     );
-                case 'image_placeholder':
-                    return (
-                        <div key={idx} className="my-6 p-6 bg-surface-highlight border-2 border-dashed border-border rounded-xl flex flex-col items-center text-center gap-3 group hover:border-primary/50 transition-colors">
-                            <div className="w-12 h-12 bg-surface rounded-full flex items-center justify-center text-gray-400 group-hover:text-primary transition-colors shadow-sm">
-                                <ImageIcon size={24} />
-                            </div>
-                            <p className="text-sm font-medium text-gray-500 dark:text-gray-400 italic max-w-lg">
-                                {block.content}
-                            </p>
-                        </div>
-                    );
-                case 'math':
-                    try {
-                         const latex = block.content;
-                         if (window.katex) {
-                             const html = window.katex.renderToString(latex, { throwOnError: false, displayMode: true });
-                             return (
-                                 <div key={idx} className="my-4 p-4 md:p-6 bg-white dark:bg-[#1A1A1A] border border-gray-200 dark:border-white/10 rounded-2xl shadow-sm overflow-x-auto flex justify-center">
-                                     <div dangerouslySetInnerHTML={{ __html: html }} />
-                                 </div>
-                             );
-                         }
-                         return <div key={idx} className="p-4 bg-gray-100 font-mono text-center">{latex}</div>;
-                    } catch(e) {
-                         return <div key={idx} className="text-red-500">Error rendering math</div>;
-                    }
-                case 'table':
-                     const rows = block.rows as string[];
-                     const parsedRows = rows.map(r => r.split('|').filter(c => c.trim() !== '').map(c => c.trim()));
-                     const hasHeader = parsedRows.length > 1 && parsedRows[1][0].includes('---');
-                     const headerRow = hasHeader ? parsedRows[0] : null;
-                     const bodyRows = hasHeader ? parsedRows.slice(2) : parsedRows;
-
-                     return (
-                         <div key={idx} className="w-full overflow-x-auto my-4 rounded-xl border border-border shadow-sm bg-surface">
-                             <table className="min-w-full divide-y divide-border">
-                                 {headerRow && (
-                                     <thead className="bg-surface-highlight">
-                                         <tr>
-                                             {headerRow.map((cell: string, ci: number) => (
-                                                 <th key={ci} className="px-4 py-3 text-left text-xs md:text-sm font-bold text-gray-900 dark:text-white uppercase tracking-wider">
-                                                     {parseInline(cell)}
-                                                 </th>
-                                             ))}
-                                         </tr>
-                                     </thead>
-                                 )}
-                                 <tbody className="bg-surface divide-y divide-border">
-                                     {bodyRows.map((row: string[], ri: number) => (
-                                         <tr key={ri} className="even:bg-surface-highlight hover:bg-gray-50 dark:hover:bg-white/5 transition-colors">
-                                             {row.map((cell: string, ci: number) => (
-                                                 <td key={ci} className="px-4 py-3 text-sm md:text-base text-gray-700 dark:text-gray-300 whitespace-normal">
-                                                     {parseInline(cell)}
-                                                 </td>
-                                             ))}
-                                         </tr>
-                                     ))}
-                                 </tbody>
-                             </table>
-                         </div>
-                     );
-                default:
-                    return (
-                        <p key={idx} className={`${isChat ? 'text-inherit' : ''}`}>
-                            {parseInline(block.content)}
-                        </p>
-                    );
-            }
+            const element = renderBlock(block, idx);
+            const flag = openFlags.find(f => quoteTouchesText(f.quote, blockText(block)));
+            if (!flag) return element;
+            // Only the first block of a quote is the scroll target
+            const anchor = !anchored.has(flag.id);
+            anchored.add(flag.id);
+            return <FlaggedBlock key={idx} flag={flag} anchor={anchor}>{element}</FlaggedBlock>;
         })}
     </div>
   );
@@ -0,0 +1,141 @@
+
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Pencil, Check, Trash2, RotateCcw, ArrowRight, X, ClipboardList } from 'lucide-react';
+import { StudyPlan } from '../types';
+import { PlanSection, splitPlanSections, joinPlanSections } from '../services/planReview';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface Props {
+  plan: StudyPlan;
+  lang?: string;
+  // The approved plan; the Architect's own text when nothing was changed
+  onApprove: (approvedPlan: string) => void;
+  onCancel: () => void;
+}
+
+// The REVIEW step: the Architect's plan as editable sections, approved
+// before any notes are written.
+const PlanReview: React.FC<Props> = ({ plan, lang, onApprove, onCancel }) => {
+  const [sections, setSections] = useState<PlanSection[]>(() => splitPlanSections(plan.markdownPlan));
+  const [constraints, setConstraints] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  const update = (next: PlanSection[]) => {
+      setSections(next);
+      setDirty(true);
+  };
+
+  const edit = (id: string, changes: Partial<PlanSection>) =>
+      update(sections.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  const move = (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= sections.length) return;
+      const next = [...sections];
+      [next[index], next[target]] = [next[target], next[index]];
+      update(next);
+  };
+
+  const reset = () => {
+      setSections(splitPlanSections(plan.markdownPlan));
+      setConstraints('');
+      setEditingId(null);
+      setDirty(false);
+  };
+
+  const approve = () => {
+      const unchanged = !dirty && !constraints.trim();
+      onApprove(unchanged ? plan.markdownPlan : joinPlanSections(sections, constraints));
+  };
+
+  return (
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+          <div className="p-4 md:p-10 max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-300">
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                  <div>
+                      <h2 className="text-2xl md:text-3xl font-serif font-bold text-gray-900 dark:text-white flex items-center gap-3">
+                          <ClipboardList className="text-primary" size={26} /> Review the Plan
+                      </h2>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          Edit, reorder or remove sections and add your own constraints. The notes and simulator are built from the plan you approve.
+                      </p>
+                  </div>
+                  {(dirty || constraints) && (
+                      <button onClick={reset} className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-border text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#252525] transition-colors active:scale-95">
+                          <RotateCcw size={12} /> Reset
+                      </button>
+                  )}
+              </div>
+
+              <div className="space-y-3">
+                  {sections.map((section, index) => {
+                      const editing = editingId === section.id;
+                      return (
+                          <div key={section.id} className={`rounded-2xl border bg-surface-highlight ${editing ? 'border-primary/50 ring-2 ring-primary/10' : 'border-border'} ${section.level === 3 ? 'ms-4 md:ms-8' : ''}`}>
+                              <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+                                  {editing && section.level > 0 ? (
+                                      <input
+                                          value={section.heading}
+                                          onChange={e => edit(section.id, { heading: e.target.value })}
+                                          className="flex-1 min-w-0 bg-surface border border-border rounded-lg px-2 py-1 text-sm font-bold text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+                                      />
+                                  ) : (
+                                      <span className={`flex-1 min-w-0 truncate font-bold text-gray-900 dark:text-white ${section.level === 3 ? 'text-sm' : 'text-base'}`}>
+                                          {section.heading || 'Introduction'}
+                                      </span>
+                                  )}
+                                  <button onClick={() => move(index, -1)} disabled={index === 0} title="Move up" className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-[#252525] disabled:opacity-30"><ArrowUp size={14} /></button>
+                                  <button onClick={() => move(index, 1)} disabled={index === sections.length - 1} title="Move down" className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-[#252525] disabled:opacity-30"><ArrowDown size={14} /></button>
+                                  <button onClick={() => setEditingId(editing ? null : section.id)} title={editing ? "Done" : "Edit"} className={`p-1.5 rounded-lg ${editing ? 'text-primary bg-primary/10' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-[#252525]'}`}>
+                                      {editing ? <Check size={14} /> : <Pencil size={14} />}
+                                  </button>
+                                  <button onClick={() => update(sections.filter(s => s.id !== section.id))} title="Remove" className="p-1.5 rounded-lg text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"><Trash2 size={14} /></button>
+                              </div>
+                              <div className="px-4 py-3">
+                                  {editing ? (
+                                      <textarea
+                                          value={section.body}
+                                          onChange={e => edit(section.id, { body: e.target.value })}
+                                          rows={Math.min(20, Math.max(4, section.body.split('\n').length + 1))}
+                                          className="w-full bg-surface border border-border rounded-lg p-3 font-mono text-xs md:text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-y"
+                                      />
+                                  ) : section.body ? (
+                                      <MarkdownRenderer content={section.body} variant="chat" lang={lang} />
+                                  ) : (
+                                      <p className="text-sm italic text-gray-400">Empty section</p>
+                                  )}
+                              </div>
+                          </div>
+                      );
+                  })}
+                  {sections.length === 0 && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 italic text-center py-6">Every section was removed. Reset to start over.</p>
+                  )}
+              </div>
+
+              <div className="mt-6">
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Your constraints</label>
+                  <textarea
+                      value={constraints}
+                      onChange={e => setConstraints(e.target.value)}
+                      rows={3}
+                      placeholder="e.g. Skip air resistance. Use SI units only. Add a worked example for each formula."
+                      className="w-full bg-surface-highlight border border-border rounded-xl p-3 text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary/30 resize-y"
+                  />
+              </div>
+
+              <div className="mt-6 flex flex-col-reverse sm:flex-row justify-end gap-3">
+                  <button onClick={onCancel} className="px-5 py-3 rounded-xl border border-border text-sm font-bold text-gray-600 dark:text-gray-300 hover:text-red-500 hover:border-red-300 dark:hover:border-red-800 transition-colors flex items-center justify-center gap-2 active:scale-95">
+                      <X size={14} /> Cancel
+                  </button>
+                  <button onClick={approve} disabled={sections.length === 0} className="px-6 py-3 rounded-xl font-bold text-white bg-gradient-to-r from-purple-600 via-pink-600 to-rose-600 hover:shadow-pink-500/30 shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed">
+                      Approve &amp; Write Notes <ArrowRight size={16} />
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
+
+export default PlanReview;
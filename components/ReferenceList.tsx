@@ -0,0 +1,35 @@
+
+import React from 'react';
+import { StudyReference } from '../types';
+
+interface Props {
+  references: StudyReference[];
+}
+
+// Rendered inside the exported notes, so it appears in the PDF and DOCX too.
+// Citation markers link to the `ref-<id>` anchors.
+const ReferenceList: React.FC<Props> = ({ references }) => {
+  if (references.length === 0) return null;
+  return (
+      <section className="mt-12 pt-6 border-t border-gray-200 dark:border-white/10">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-800 dark:text-gray-100 mb-4">References</h2>
+          <ol className="space-y-2 text-sm md:text-base text-gray-700 dark:text-gray-300">
+              {references.map(reference => (
+                  <li key={reference.id} id={`ref-${reference.id}`} className="flex items-baseline gap-3 scroll-mt-24">
+                      <span className="font-bold tabular-nums text-primary flex-shrink-0">[{reference.id}]</span>
+                      <span className="min-w-0">
+                          <span className="font-medium text-gray-900 dark:text-white">{reference.title}</span>
+                          {reference.uri ? (
+                              <a href={reference.uri} target="_blank" rel="noopener noreferrer" dir="ltr" className="block text-primary hover:underline break-all text-xs md:text-sm">{reference.uri}</a>
+                          ) : (
+                              <span className="text-gray-500 dark:text-gray-400"> (uploaded document)</span>
+                          )}
+                      </span>
+                  </li>
+              ))}
+          </ol>
+      </section>
+  );
+};
+
+export default ReferenceList;
@@ -0,0 +1,363 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, Database, Trash2, RefreshCw, Loader2, Settings, Wallet, Check, FileCode, RotateCcw, Eye, AlertCircle } from 'lucide-react';
+import { CacheEntry, listCacheEntries, deleteCacheEntry, clearResponseCache, purgeExpiredCacheEntries } from '../services/responseCache';
+import { STAGE_LABELS, PipelineStage } from '../services/pipelineEvents';
+import { BudgetConfig, getBudgetConfig, saveBudgetConfig, getUsageLedger, clearUsageLedger, getSpend, checkBudget, sumCost, formatUsd } from '../services/usageLedger';
+import {
+  PromptTemplateId, PromptFork, DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS,
+  getPromptForks, savePromptFork, resetPromptTemplate, getPromptVersion, renderTemplate
+} from '../services/promptRegistry';
+import { UsageRecord } from '../types';
+
+type SettingsTab = 'CACHE' | 'USAGE' | 'PROMPTS';
+
+interface Props {
+  onClose: () => void;
+}
+
+const TABS: { id: SettingsTab; label: string; icon: React.ElementType }[] = [
+  { id: 'CACHE', label: 'Cache', icon: Database },
+  { id: 'USAGE', label: 'Usage', icon: Wallet },
+  { id: 'PROMPTS', label: 'Prompts', icon: FileCode }
+];
+
+const formatBytes = (bytes: number) => bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatRelative = (ms: number) => {
+  const abs = Math.abs(ms);
+  const value = abs < 3600000 ? `${Math.max(1, Math.round(abs / 60000))}m` : abs < 86400000 ? `${Math.round(abs / 3600000)}h` : `${Math.round(abs / 86400000)}d`;
+  return ms < 0 ? `${value} ago` : `in ${value}`;
+};
+
+// --- CACHE TAB ---
+const CacheTab: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || "Cache unavailable");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    setEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  const handlePurgeExpired = async () => {
+    await purgeExpiredCacheEntries();
+    refresh();
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm("Delete every cached response?")) return;
+    await clearResponseCache();
+    setEntries([]);
+  };
+
+  const now = Date.now();
+  const totalBytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {entries.length} entries • {formatBytes(totalBytes)}
+        </p>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="p-2 rounded-lg bg-surface-highlight border border-border text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors" title="Refresh"><RefreshCw size={14}/></button>
+          <button onClick={handlePurgeExpired} className="px-3 py-2 rounded-lg bg-surface-highlight border border-border text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">Purge Expired</button>
+          <button onClick={handleClearAll} disabled={entries.length === 0} className="px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 text-xs font-bold text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50">Clear All</button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center text-gray-400"><Loader2 className="animate-spin" size={20}/></div>
+      ) : error ? (
+        <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">{error}</div>
+      ) : entries.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500 text-sm gap-2 py-10">
+          <Database size={24} className="opacity-50"/>
+          <span>No cached responses yet.</span>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+          {entries.map(entry => {
+            const expired = entry.expiresAt <= now;
+            return (
+              <div key={entry.key} className={`p-3 rounded-xl border border-border bg-surface-highlight group ${expired ? 'opacity-60' : ''}`}>
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-primary">{STAGE_LABELS[entry.stage]}</span>
+                      <span className="text-[10px] font-mono text-gray-400 truncate">{entry.modelRecord?.model || entry.model} • {entry.promptVersion}</span>
+                    </div>
+                    <p className="text-sm text-gray-900 dark:text-white truncate">{entry.label || "(media only)"}</p>
+                    <p className="text-[10px] text-gray-500 mt-1">
+                      Stored {formatRelative(entry.createdAt - now)} • {expired ? 'expired' : `expires ${formatRelative(entry.expiresAt - now)}`} • {formatBytes(entry.sizeBytes)}
+                    </p>
+                  </div>
+                  <button onClick={() => handleDelete(entry.key)} className="p-1.5 rounded-lg text-red-500 opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all" title="Delete Entry">
+                    <Trash2 size={14}/>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- USAGE TAB ---
+const groupCost = (records: UsageRecord[], keyOf: (r: UsageRecord) => string) => {
+  const groups: Record<string, { cost: number; calls: number; tokens: number }> = {};
+  records.forEach(r => {
+    const group = groups[keyOf(r)] ||= { cost: 0, calls: 0, tokens: 0 };
+    group.cost += r.costUsd;
+    group.calls += 1;
+    group.tokens += r.promptTokens + r.thinkingTokens + r.outputTokens;
+  });
+  return Object.entries(groups).sort((a, b) => b[1].cost - a[1].cost);
+};
+
+const Breakdown: React.FC<{ title: string; rows: ReturnType<typeof groupCost> }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">{title}</h4>
+    {rows.length === 0 ? <p className="text-xs text-gray-500">No calls this month.</p> : (
+      <div className="space-y-1">
+        {rows.map(([label, g]) => (
+          <div key={label} className="flex items-center gap-3 text-xs px-3 py-2 rounded-lg bg-surface-highlight border border-border">
+            <span className="flex-1 truncate text-gray-900 dark:text-white">{label}</span>
+            <span className="font-mono text-gray-500">{g.calls} calls</span>
+            <span className="font-mono text-gray-500">{g.tokens.toLocaleString()} tok</span>
+            <span className="font-mono font-bold text-gray-900 dark:text-white w-16 text-right">{formatUsd(g.cost)}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const UsageTab: React.FC = () => {
+  const [ledger, setLedger] = useState<UsageRecord[]>(getUsageLedger);
+  const [budget, setBudget] = useState<BudgetConfig>(getBudgetConfig);
+  const [saved, setSaved] = useState(false);
+
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  const thisMonth = ledger.filter(r => r.timestamp >= monthStart);
+  const status = checkBudget(budget);
+
+  const handleSaveBudget = () => {
+    saveBudgetConfig(budget);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const handleClearLedger = () => {
+    if (!confirm("Clear the usage history? Budgets will start counting from zero.")) return;
+    clearUsageLedger();
+    setLedger([]);
+  };
+
+  const parseLimit = (value: string) => value === '' ? undefined : Math.max(0, Number(value));
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar space-y-6 pr-1">
+      <div className="grid grid-cols-2 gap-3">
+        {([['Today', getSpend('day', ledger), budget.dailyUsd], ['This Month', getSpend('month', ledger), budget.monthlyUsd]] as const).map(([label, spent, limit]) => (
+          <div key={label} className="p-4 rounded-xl bg-surface-highlight border border-border">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{label}</span>
+            <p className="text-2xl font-black text-gray-900 dark:text-white mt-1">{formatUsd(spent)}</p>
+            {limit ? (
+              <div className="mt-2 h-1.5 bg-gray-200 dark:bg-white/10 rounded-full overflow-hidden">
+                <div className={`h-full ${spent >= limit ? 'bg-red-500' : 'bg-primary'}`} style={{ width: `${Math.min(100, (spent / limit) * 100)}%` }}></div>
+              </div>
+            ) : <p className="text-[10px] text-gray-500 mt-2">No limit</p>}
+          </div>
+        ))}
+      </div>
+
+      {status.exceeded && (
+        <div className="p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 text-xs text-red-600 dark:text-red-400">
+          {status.reason}. {status.mode === 'block' ? '2K/4K images and Veo are blocked.' : '2K/4K images are downgraded to 1K and Veo is blocked.'} Text stages skip Pro models.
+        </div>
+      )}
+
+      <div className="p-4 rounded-xl border border-border space-y-3">
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Spending Limits (USD)</h4>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-600 dark:text-gray-300">Daily
+            <input type="number" min="0" step="0.5" value={budget.dailyUsd ?? ''} onChange={e => setBudget({ ...budget, dailyUsd: parseLimit(e.target.value) })} placeholder="No limit" className="mt-1 w-full bg-surface-highlight border border-border rounded-lg px-3 py-2 outline-none focus:border-primary text-gray-900 dark:text-white" />
+          </label>
+          <label className="text-xs text-gray-600 dark:text-gray-300">Monthly
+            <input type="number" min="0" step="1" value={budget.monthlyUsd ?? ''} onChange={e => setBudget({ ...budget, monthlyUsd: parseLimit(e.target.value) })} placeholder="No limit" className="mt-1 w-full bg-surface-highlight border border-border rounded-lg px-3 py-2 outline-none focus:border-primary text-gray-900 dark:text-white" />
+          </label>
+        </div>
+        <label className="block text-xs text-gray-600 dark:text-gray-300">When exceeded
+          <select value={budget.onExceeded} onChange={e => setBudget({ ...budget, onExceeded: e.target.value as BudgetConfig['onExceeded'] })} className="mt-1 w-full bg-surface-highlight border border-border rounded-lg px-3 py-2 outline-none focus:border-primary text-gray-900 dark:text-white">
+            <option value="downgrade">Downgrade expensive calls</option>
+            <option value="block">Block expensive calls</option>
+          </select>
+        </label>
+        <button onClick={handleSaveBudget} className="px-4 py-2 rounded-lg bg-primary text-white text-xs font-bold flex items-center gap-2 hover:opacity-90 transition-opacity">
+          {saved ? <><Check size={14}/> Saved</> : 'Save Limits'}
+        </button>
+      </div>
+
+      <Breakdown title="This Month by Stage" rows={groupCost(thisMonth, r => STAGE_LABELS[r.stage as PipelineStage] || r.stage)} />
+      <Breakdown title="This Month by Model" rows={groupCost(thisMonth, r => r.model)} />
+
+      <div className="flex items-center justify-between pt-2 border-t border-border">
+        <span className="text-[10px] text-gray-500">{ledger.length} calls recorded • {formatUsd(sumCost(ledger))} total • estimates from list prices</span>
+        <button onClick={handleClearLedger} disabled={ledger.length === 0} className="px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 text-xs font-bold text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50">Clear History</button>
+      </div>
+    </div>
+  );
+};
+
+// --- PROMPTS TAB ---
+const PromptsTab: React.FC = () => {
+  const [selected, setSelected] = useState<PromptTemplateId>('architect');
+  const [forks, setForks] = useState<Partial<Record<PromptTemplateId, PromptFork>>>(getPromptForks);
+  const [draft, setDraft] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const template = DEFAULT_PROMPT_TEMPLATES[selected];
+  const fork = forks[selected];
+  const activeBody = fork?.body ?? template.body;
+
+  useEffect(() => { setDraft(activeBody); }, [selected, activeBody]);
+
+  const sampleVars = Object.fromEntries(template.variables.map(v => [v.name, v.sample]));
+  const unknownVars = Array.from(new Set(Array.from(draft.matchAll(/\{\{#?(?:if )?(\w+)\}\}/g)).map(m => m[1])))
+    .filter(name => name !== 'else' && !template.variables.some(v => v.name === name));
+
+  const handleSave = () => {
+    savePromptFork(selected, draft);
+    setForks(getPromptForks());
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Discard your edits to "${template.name}" and restore the default?`)) return;
+    resetPromptTemplate(selected);
+    setForks(getPromptForks());
+  };
+
+  return (
+    <div className="flex h-full gap-4">
+      <div className="w-44 flex-shrink-0 space-y-1 overflow-y-auto custom-scrollbar">
+        {PROMPT_TEMPLATE_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => { setSelected(id); setShowPreview(false); }}
+            className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${selected === id ? 'bg-primary/10 border-primary/30' : 'border-transparent hover:bg-surface-highlight'}`}
+          >
+            <span className="block text-xs font-bold text-gray-900 dark:text-white truncate">{DEFAULT_PROMPT_TEMPLATES[id].name}</span>
+            <span className={`block text-[10px] font-mono ${forks[id] ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400'}`}>v{getPromptVersion(id)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-bold text-gray-900 dark:text-white flex-1 truncate">{template.name}</h4>
+          <button onClick={() => setShowPreview(!showPreview)} className={`px-3 py-1.5 rounded-lg border text-xs font-bold flex items-center gap-1.5 transition-colors ${showPreview ? 'bg-primary/10 border-primary/30 text-primary' : 'bg-surface-highlight border-border text-gray-700 dark:text-gray-300'}`}>
+            <Eye size={12}/> Preview
+          </button>
+          {fork && (
+            <button onClick={handleReset} className="px-3 py-1.5 rounded-lg bg-surface-highlight border border-border text-xs font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1.5 hover:bg-gray-100 dark:hover:bg-white/10 transition-colors">
+              <RotateCcw size={12}/> Reset
+            </button>
+          )}
+          <button onClick={handleSave} disabled={draft === activeBody} className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold disabled:opacity-40 transition-opacity">
+            {fork ? 'Save Revision' : 'Fork & Save'}
+          </button>
+        </div>
+
+        {fork && fork.baseVersion < template.version && (
+          <div className="flex items-center gap-2 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-[11px] text-amber-700 dark:text-amber-400">
+            <AlertCircle size={12}/> This fork is based on v{fork.baseVersion}; the default is now v{template.version}.
+          </div>
+        )}
+        {unknownVars.length > 0 && (
+          <div className="flex items-center gap-2 p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-[11px] text-red-600 dark:text-red-400">
+            <AlertCircle size={12}/> Unknown variable{unknownVars.length > 1 ? 's' : ''}: {unknownVars.join(', ')}
+          </div>
+        )}
+
+        {showPreview ? (
+          <pre className="flex-1 min-h-0 overflow-auto custom-scrollbar p-3 rounded-xl bg-surface-highlight border border-border text-[11px] font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{renderTemplate(draft, sampleVars)}</pre>
+        ) : (
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            spellCheck={false}
+            className="flex-1 min-h-0 p-3 rounded-xl bg-surface-highlight border border-border text-[11px] font-mono text-gray-900 dark:text-white outline-none focus:border-primary resize-none custom-scrollbar"
+          />
+        )}
+
+        {template.variables.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {template.variables.map(v => (
+              <span key={v.name} title={v.description} className="text-[10px] font-mono px-2 py-1 rounded-md bg-surface-highlight border border-border text-gray-600 dark:text-gray-400">{`{{${v.name}}}`}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SettingsPanel: React.FC<Props> = ({ onClose }) => {
+  const [tab, setTab] = useState<SettingsTab>('CACHE');
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-2xl w-full max-w-3xl h-[80vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+          <h3 className="font-bold text-lg text-gray-900 dark:text-white flex items-center gap-2"><Settings size={18}/> Settings</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-white/10 rounded-full active:scale-95 transition-transform"><X size={18}/></button>
+        </div>
+
+        <div className="px-6 pt-3 flex gap-1 border-b border-border">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-4 py-2 text-xs font-bold flex items-center gap-2 border-b-2 -mb-px transition-colors ${tab === t.id ? 'border-primary text-gray-900 dark:text-white' : 'border-transparent text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}
+            >
+              <t.icon size={14}/> {t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0 p-6">
+          {tab === 'CACHE' && <CacheTab />}
+          {tab === 'USAGE' && <UsageTab />}
+          {tab === 'PROMPTS' && <PromptsTab />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,65 @@
+
+import React, { useState } from 'react';
+import { ListChecks, CheckCircle, XCircle, AlertTriangle, Wand2, ChevronDown } from 'lucide-react';
+import { SimulatorLintReport } from '../services/simulatorLint';
+
+interface Props {
+  report: SimulatorLintReport;
+  // Regenerates the simulator with the failed checks as the brief
+  onFix: () => void;
+  disabled?: boolean;
+}
+
+const scoreStyle = (score: number) =>
+    score >= 90 ? 'text-green-400 border-green-800 bg-green-900/20'
+    : score >= 70 ? 'text-amber-400 border-amber-800 bg-amber-900/20'
+    : 'text-red-400 border-red-800 bg-red-900/20';
+
+// The lint score in the simulator header; opens the checklist.
+const SimulatorChecklist: React.FC<Props> = ({ report, onFix, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const failed = report.checks.filter(c => !c.passed);
+
+  return (
+      <div className="relative">
+          <button
+              onClick={() => setOpen(!open)}
+              title="Static checks against the simulator requirements"
+              className={`inline-flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded-full border transition-colors ${scoreStyle(report.score)}`}
+          >
+              <ListChecks size={10}/> Lint {report.score}
+              <ChevronDown size={10} className={`transition-transform ${open ? 'rotate-180' : ''}`}/>
+          </button>
+          {open && (
+              <div className="absolute top-full left-0 mt-2 w-72 z-30 bg-zinc-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl p-3 animate-in fade-in slide-in-from-top-2">
+                  <ul className="space-y-2">
+                      {report.checks.map(c => (
+                          <li key={c.id} className="flex items-start gap-2 text-xs">
+                              {c.passed
+                                  ? <CheckCircle size={14} className="text-green-400 flex-shrink-0 mt-px"/>
+                                  : c.severity === 'error'
+                                      ? <XCircle size={14} className="text-red-400 flex-shrink-0 mt-px"/>
+                                      : <AlertTriangle size={14} className="text-amber-400 flex-shrink-0 mt-px"/>}
+                              <div className="min-w-0">
+                                  <span className={c.passed ? 'text-gray-300' : 'text-white font-bold'}>{c.label}</span>
+                                  {c.detail && <p className="text-[11px] text-gray-400 leading-snug mt-0.5 break-words">{c.detail}</p>}
+                              </div>
+                          </li>
+                      ))}
+                  </ul>
+                  {failed.length > 0 && (
+                      <button
+                          onClick={() => { setOpen(false); onFix(); }}
+                          disabled={disabled}
+                          className="mt-3 w-full text-xs font-bold bg-primary hover:bg-primary-hover text-white px-3 py-2 rounded-lg flex items-center justify-center gap-2 transition-all shadow-md active:scale-95 disabled:opacity-50"
+                      >
+                          <Wand2 size={12}/> Fix {failed.length} {failed.length === 1 ? 'issue' : 'issues'}
+                      </button>
+                  )}
+              </div>
+          )}
+      </div>
+  );
+};
+
+export default SimulatorChecklist;
@@ -0,0 +1,106 @@
+
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Activity, RefreshCw, X } from 'lucide-react';
+import { SimulatorParam, SimulatorOutput } from '../types';
+import { SimulatorBridge, formatSimValue } from '../services/simulatorBridge';
+
+interface Props {
+  bridge: SimulatorBridge;
+  onClose: () => void;
+}
+
+// Host-side controls for whatever the simulator exposes over the bridge:
+// its parameters as sliders and its outputs as live readouts.
+const SimulatorControls: React.FC<Props> = ({ bridge, onClose }) => {
+  const [params, setParams] = useState<SimulatorParam[]>([]);
+  const [outputs, setOutputs] = useState<SimulatorOutput[]>([]);
+  const [values, setValues] = useState<Record<string, number>>({});
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+      const unsubscribe = bridge.subscribe(event => {
+          if (event.type === 'ready') {
+              setConnected(true);
+              setParams(event.params);
+              setOutputs(event.outputs);
+              setValues({});
+          } else if (event.type === 'params') {
+              setParams(event.params);
+          } else {
+              setValues(prev => ({ ...prev, ...event.values }));
+          }
+      });
+      // The simulator may have announced itself before the panel opened
+      bridge.refresh();
+      return unsubscribe;
+  }, [bridge]);
+
+  const setParam = (id: string, value: number) => {
+      setParams(prev => prev.map(p => p.id === id ? { ...p, value } : p));
+      bridge.setParam(id, value);
+  };
+
+  // Emitted values the simulator never registered are still shown
+  const readouts = [
+      ...outputs,
+      ...Object.keys(values).filter(id => !outputs.some(o => o.id === id)).map(id => ({ id, label: id } as SimulatorOutput))
+  ];
+
+  return (
+      <div className="absolute top-3 right-3 bottom-3 w-64 max-w-[calc(100%-1.5rem)] z-10 flex flex-col bg-zinc-900/90 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl animate-in fade-in slide-in-from-right-2 overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+              <span className="text-xs font-bold text-white flex items-center gap-2"><SlidersHorizontal size={12}/> Controls</span>
+              <div className="flex items-center gap-1">
+                  <button onClick={() => bridge.refresh()} title="Re-read the simulator" className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10"><RefreshCw size={12}/></button>
+                  <button onClick={onClose} title="Close" className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10"><X size={12}/></button>
+              </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+              {!connected && <p className="text-xs text-gray-400 italic">Waiting for the simulator…</p>}
+              {connected && params.length === 0 && readouts.length === 0 && (
+                  <p className="text-xs text-gray-400 italic">This simulator exposes no parameters or outputs. Regenerate it to add them.</p>
+              )}
+
+              {params.length > 0 && (
+                  <div className="space-y-3">
+                      <span className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider">Parameters</span>
+                      {params.map(p => (
+                          <label key={p.id} className="block">
+                              <span className="flex justify-between text-xs text-gray-300 mb-1">
+                                  <span className="truncate">{p.label}</span>
+                                  <span className="font-mono text-white ms-2">{formatSimValue(p.value)}{p.unit ? ` ${p.unit}` : ''}</span>
+                              </span>
+                              <input
+                                  type="range"
+                                  min={p.min ?? 0}
+                                  max={p.max ?? Math.max(1, p.value * 2)}
+                                  step={p.step ?? 'any'}
+                                  value={p.value}
+                                  onChange={e => setParam(p.id, Number(e.target.value))}
+                                  className="w-full accent-primary"
+                              />
+                          </label>
+                      ))}
+                  </div>
+              )}
+
+              {readouts.length > 0 && (
+                  <div className="space-y-1.5">
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1"><Activity size={10}/> Live Outputs</span>
+                      {readouts.map(o => (
+                          <div key={o.id} className="flex justify-between text-xs">
+                              <span className="text-gray-300 truncate">{o.label}</span>
+                              <span className="font-mono text-white ms-2">
+                                  {values[o.id] !== undefined ? formatSimValue(values[o.id]) : '—'}{o.unit ? ` ${o.unit}` : ''}
+                              </span>
+                          </div>
+                      ))}
+                  </div>
+              )}
+          </div>
+      </div>
+  );
+};
+
+export default SimulatorControls;
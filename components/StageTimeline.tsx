@@ -0,0 +1,71 @@
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader2, AlertCircle, Circle } from 'lucide-react';
+import { PipelineProgress, PipelineStage, STAGE_LABELS } from '../services/pipelineEvents';
+import { formatUsd } from '../services/usageLedger';
+
+interface Props {
+  progress: PipelineProgress;
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const getCompletion = (progress: PipelineProgress) => {
+  const stages = Object.values(progress);
+  if (stages.length === 0) return 0;
+  return (stages.filter(s => s?.status === 'done').length / stages.length) * 100;
+};
+
+const StageTimeline: React.FC<Props> = ({ progress }) => {
+  // Re-render while a stage runs so its elapsed time keeps counting.
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stages = Object.keys(progress) as PipelineStage[];
+
+  return (
+    <div className="w-full space-y-2 text-left">
+      {stages.map(stage => {
+        const s = progress[stage]!;
+        const elapsed = s.status === 'running' && s.startedAt ? now - s.startedAt : s.durationMs;
+
+        return (
+          <div key={stage} className={`flex items-center gap-3 px-4 py-2.5 rounded-xl border transition-colors ${s.status === 'running' ? 'bg-primary/5 border-primary/30' : 'bg-surface-highlight border-border'}`}>
+            {s.status === 'done' && <CheckCircle size={16} className="text-green-500 flex-shrink-0" />}
+            {s.status === 'running' && <Loader2 size={16} className="text-primary animate-spin flex-shrink-0" />}
+            {s.status === 'failed' && <AlertCircle size={16} className="text-red-500 flex-shrink-0" />}
+            {s.status === 'pending' && <Circle size={16} className="text-gray-300 dark:text-gray-600 flex-shrink-0" />}
+
+            <div className="flex-1 min-w-0">
+              <span className={`block text-sm font-bold ${s.status === 'pending' ? 'text-gray-400 dark:text-gray-600' : 'text-gray-900 dark:text-white'}`}>
+                {STAGE_LABELS[stage]}
+              </span>
+              {s.notice && <span className="block text-[10px] text-amber-600 dark:text-amber-400 truncate">{s.notice}</span>}
+              {!s.notice && s.model && <span className="block text-[10px] font-mono text-gray-400 truncate">{s.model}</span>}
+            </div>
+
+            {s.cached && (
+              <span className="text-[10px] font-bold uppercase tracking-wider text-green-600 dark:text-green-400">Cached</span>
+            )}
+            {!!s.tokens && (
+              <span className="text-[10px] font-mono text-gray-500 dark:text-gray-400">{s.tokens.toLocaleString()} tok</span>
+            )}
+            {!!s.costUsd && (
+              <span className="text-[10px] font-mono text-gray-500 dark:text-gray-400">{formatUsd(s.costUsd)}</span>
+            )}
+            {elapsed !== undefined && (
+              <span className={`text-xs font-mono tabular-nums ${s.status === 'failed' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                {formatDuration(elapsed)}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StageTimeline;
@@ -1,13 +1,142 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { analyzeStudyTopic, finalizeStudyPackage, generateQuiz, queryDeepDive, generateStudySimulator, getInterestingFacts } from '../services/geminiService';
-import { LoadingState, StudyPlan, QuizQuestion, DeepDiveMessage, SavedSession } from '../types';
+import { analyzeStudyTopic, finalizeStudyPackage, factCheckNotes, generateQuiz, queryDeepDive, generateStudySimulator, repairStudySimulator, getInterestingFacts, prepareAttachments, previewAttachments } from '../services/geminiService';
+import { LoadingState, ExtractedDocument, StudyPlan, QuizQuestion, DeepDiveMessage, SavedSession, StageModelRecord, UsageRecord, StudySettings, AttachmentSummary, AttachmentStatus, Transcript, FactCheckFlag, FactCheckReport, SimulatorQaReport, ExperimentRun, PipelineStage as Stage } from '../types';
+import { PipelineEvent, PipelineProgress, PipelineStage, StageOptions, STAGE_LABELS, createPipelineProgress, reducePipelineEvent } from '../services/pipelineEvents';
+import { isAbortError } from '../services/cancellation';
+import { formatUsd, sumCost } from '../services/usageLedger';
+import { getPromptVersions, STAGE_PROMPTS } from '../services/promptRegistry';
+import { DEFAULT_STUDY_SETTINGS, STUDY_LEVELS, STUDY_LENGTHS, STUDY_EMPHASES, STUDY_LANGUAGES, languageDirection, withStudySettingDefaults } from '../services/studySettings';
+import { saveSessionDocuments, loadSessionDocuments, deleteSessionDocuments } from '../services/documentExtraction';
+import { saveExperimentRun, loadExperimentRuns, deleteExperimentRuns } from '../services/experimentRecorder';
+import { SessionAudioClip, saveSessionAudio, loadSessionAudio, deleteSessionAudio, formatTimestamp } from '../services/transcription';
+import { RetrievalIndex, buildRetrievalIndex, syncSessionIndex, deleteRetrievalIndex } from '../services/retrievalIndex';
+import { detectLinks, ingestLinks, stripLinks } from '../services/urlIngestion';
+import { applyCorrection, setFlagStatus } from '../services/factCheck';
+import { qaSimulator } from '../services/simulatorQa';
+import { lintSimulator, formatLintLog } from '../services/simulatorLint';
+import { SimulatorBridge, connectSimulatorBridge, withSimulatorBridge } from '../services/simulatorBridge';
+import { RecordingMeta, listRecoverableRecordings, assembleRecording, discardRecording, markRecordingSaved, purgeSavedRecordings } from '../services/lectureRecorder';
 import MarkdownRenderer from './MarkdownRenderer';
-import { Brain, FileText, Image as ImgIcon, Video as VideoIcon, Loader2, X, CheckCircle, Play, Mic, Plus, ArrowRight, Paperclip, Music, FileType, GraduationCap, MessageSquare, Download, Share2, Send, RotateCcw, Sparkles, Clock, Trash2, Calendar, Gamepad2, ChevronRight, Maximize2, Minimize2, Lightbulb, Code2, Database, Eye, Check, AlertCircle, User, Sigma, Atom, Globe, Dna, RefreshCw } from 'lucide-react';
+import TranscriptView from './TranscriptView';
+import ReferenceList from './ReferenceList';
+import FactCheckPanel from './FactCheckPanel';
+import PlanReview from './PlanReview';
+import SimulatorChecklist from './SimulatorChecklist';
+import SimulatorControls from './SimulatorControls';
+import ExperimentRecorder from './ExperimentRecorder';
+import LectureRecorderPanel from './LectureRecorderPanel';
+import StageTimeline, { getCompletion } from './StageTimeline';
+import { Brain, FileText, Image as ImgIcon, Video as VideoIcon, Loader2, X, CheckCircle, Play, Mic, Plus, ArrowRight, Paperclip, Music, FileType, GraduationCap, MessageSquare, Download, Share2, Send, RotateCcw, Sparkles, Clock, Trash2, Calendar, Gamepad2, ChevronRight, Maximize2, Minimize2, Lightbulb, Code2, Database, Eye, Check, AlertCircle, User, Sigma, Atom, Globe, Dna, RefreshCw, ShieldCheck, SlidersHorizontal, FlaskConical } from 'lucide-react';
+
+type WorkflowStep = 'INPUT' | 'ANALYZING' | 'REVIEW' | 'BUILDING' | 'DONE';
+type ResultTab = 'NOTES' | 'TRANSCRIPT' | 'SIMULATOR' | 'QUIZ' | 'DEEP_DIVE';
+
+// A run between the Architect and the notes: everything the remaining
+// stages and the saved session need, held while the plan is under review.
+interface PendingRun {
+  controller: AbortController;
+  stageOptions: StageOptions;
+  modelRecords: StageModelRecord[];
+  usageRecords: UsageRecord[];
+  promptVersions: Record<string, string>;
+  input: string;
+  settings: StudySettings;
+  factCheck: boolean;
+  searchContext: string;
+  plan: StudyPlan;
+  documents: ExtractedDocument[];
+  transcripts: Transcript[];
+  audioClips: SessionAudioClip[];
+  // Stored lecture recordings to release once the session holds the audio
+  recordingIds: string[];
+}
+
+// Shows which model actually produced a stage, including any fallbacks taken.
+const ModelBadge: React.FC<{ record?: StageModelRecord; dark?: boolean }> = ({ record, dark }) => {
+  if (!record) return null;
+  const fellBack = record.fallbacks.length > 0;
+  const title = fellBack
+      ? record.fallbacks.map(f => `${f.from} → ${f.to} (${f.reason})`).join('\n')
+      : `Produced by ${record.model}`;
+  return (
+      <span title={title} className={`inline-flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded-full border ${fellBack ? 'text-amber-600 dark:text-amber-400 border-amber-300 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20' : dark ? 'text-gray-400 border-white/10 bg-white/5' : 'text-gray-500 dark:text-gray-400 border-border bg-surface-highlight'}`}>
+          {fellBack && <AlertCircle size={10}/>} {record.model}
+      </span>
+  );
+};
+
+const ErrorBanner: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => (
+  <div className="flex items-start gap-3 p-4 mb-4 rounded-2xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/40 text-sm text-red-700 dark:text-red-300 text-left animate-in fade-in slide-in-from-top-2 duration-300">
+      <AlertCircle size={18} className="flex-shrink-0 mt-0.5"/>
+      <span className="flex-1">{message}</span>
+      <button onClick={onDismiss} className="p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"><X size={14}/></button>
+  </div>
+);
+
+// Compact labelled dropdown for the study settings row on the input card.
+const SettingSelect = <T extends string>({ label, value, options, onChange }: {
+  label: string;
+  value: T;
+  options: { id: T; label: string }[];
+  onChange: (value: T) => void;
+}) => (
+  <label className="flex items-center gap-1.5 pl-3 pr-1 py-1 bg-gray-50 dark:bg-[#202020] border border-gray-200 dark:border-gray-800 rounded-full text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+      <span className="font-bold uppercase tracking-wider text-[10px]">{label}</span>
+      <select value={value} onChange={e => onChange(e.target.value as T)} className="bg-transparent font-medium text-gray-700 dark:text-gray-200 outline-none cursor-pointer pr-1">
+          {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+      </select>
+  </label>
+);
+
+// How an attachment was (or will be) used; the note explains skips.
+const ATTACHMENT_STATUS_STYLES: Record<AttachmentStatus, { label: string; className: string }> = {
+  inline: { label: 'Sent', className: 'text-green-600 dark:text-green-400' },
+  text: { label: 'Text', className: 'text-blue-600 dark:text-blue-400' },
+  skipped: { label: 'Skipped', className: 'text-amber-600 dark:text-amber-400' },
+  failed: { label: 'Failed', className: 'text-red-600 dark:text-red-400' }
+};
+
+const AttachmentStatusLabel: React.FC<{ attachment: AttachmentSummary }> = ({ attachment }) => {
+  const style = ATTACHMENT_STATUS_STYLES[attachment.status];
+  return (
+      <span title={attachment.note} className={`text-[10px] font-bold uppercase tracking-wider flex-shrink-0 ${style.className} ${attachment.note ? 'cursor-help' : ''}`}>
+          {style.label}
+      </span>
+  );
+};
+
+// Outcome of the simulator QA run, with what each attempt found on hover.
+const SimulatorQaBadge: React.FC<{ report?: SimulatorQaReport }> = ({ report }) => {
+  if (!report) return null;
+  const last = report.attempts[report.attempts.length - 1];
+  const title = report.attempts.map(a =>
+      `Attempt ${a.attempt}: ${a.passed ? 'passed' : a.issues.map(i => i.message).join('; ')} (${a.framesDrawn}/${a.framesSampled} frames drawn)`
+  ).join('\n') + (report.repairError ? `\nRepair stopped: ${report.repairError}` : '');
+  const label = report.passed
+      ? (report.repaired ? `QA passed after ${report.attempts.length - 1} ${report.attempts.length === 2 ? 'repair' : 'repairs'}` : 'QA passed')
+      : `QA: ${last.issues.length} ${last.issues.length === 1 ? 'issue' : 'issues'}`;
+  return (
+      <span title={title} className={`inline-flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded-full border cursor-help ${report.passed ? 'text-green-400 border-green-800 bg-green-900/20' : 'text-amber-400 border-amber-800 bg-amber-900/20'}`}>
+          {report.passed ? <ShieldCheck size={10}/> : <AlertCircle size={10}/>} {label}
+      </span>
+  );
+};
 
-type WorkflowStep = 'INPUT' | 'ANALYZING' | 'BUILDING' | 'DONE';
-type ResultTab = 'NOTES' | 'SIMULATOR' | 'QUIZ' | 'DEEP_DIVE';
+// Session spend, with a per-stage breakdown on hover.
+const SessionCostBadge: React.FC<{ usage: UsageRecord[] }> = ({ usage }) => {
+  if (usage.length === 0) return null;
+  const byStage: Partial<Record<Stage, number>> = {};
+  usage.forEach(r => { byStage[r.stage] = (byStage[r.stage] || 0) + r.costUsd; });
+  const tokens = usage.reduce((sum, r) => sum + r.promptTokens + r.thinkingTokens + r.outputTokens, 0);
+  const title = (Object.keys(byStage) as Stage[]).map(stage => `${STAGE_LABELS[stage]}: ${formatUsd(byStage[stage]!)}`).join('\n');
+  return (
+      <span title={title} className="inline-flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded-full border text-gray-500 dark:text-gray-400 border-border bg-surface-highlight">
+          {formatUsd(sumCost(usage))} • {tokens.toLocaleString()} tok
+      </span>
+  );
+};
 
 const StudyArchitect: React.FC = () => {
   const [inputText, setInputText] = useState('');
@@ -16,12 +145,33 @@ const StudyArchitect: React.FC = () => {
   const [plan, setPlan] = useState<StudyPlan | null>(null);
   const [result, setResult] = useState<any>(null);
   const [files, setFiles] = useState<File[]>([]);
-  const [isRecording, setIsRecording] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const attachmentPreview = useMemo(() => previewAttachments(files), [files]);
+  // Links in the topic are fetched and read as the primary source
+  const links = useMemo(() => detectLinks(inputText), [inputText]);
+  const [showRecorder, setShowRecorder] = useState(false);
+  // Lecture recordings on the input card (file name -> stored recording id)
+  const [recordingIds, setRecordingIds] = useState<Record<string, string>>({});
+  // Recordings left behind by a closed or crashed tab
+  const [recoverableRecordings, setRecoverableRecordings] = useState<RecordingMeta[]>([]);
+  const [bypassCache, setBypassCache] = useState(false);
+  // Runs the VERIFY stage after the notes
+  const [factCheckEnabled, setFactCheckEnabled] = useState(false);
+  // Stops at REVIEW so the plan can be edited before the notes are written
+  const [reviewPlanEnabled, setReviewPlanEnabled] = useState(false);
+  // Audience options; restored from the session so regenerations match
+  const [studySettings, setStudySettings] = useState<StudySettings>(DEFAULT_STUDY_SETTINGS);
+  // Text direction of generated content (notes, quiz, chat and exports)
+  const contentDir = languageDirection(studySettings.language);
+  const [studyError, setStudyError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Cancellation: one controller for the study pipeline, one for simulator builds
+  const studyAbortRef = useRef<AbortController | null>(null);
+  const simAbortRef = useRef<AbortController | null>(null);
+  const pendingRunRef = useRef<PendingRun | null>(null);
+
   // Loading Screen State
-  const [progress, setProgress] = useState(0);
+  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress>({});
   const [waitFacts, setWaitFacts] = useState<string[]>([]);
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
 
@@ -30,7 +180,18 @@ const StudyArchitect: React.FC = () => {
   
   // Simulator State
   const [isGeneratingSim, setIsGeneratingSim] = useState(false);
+  const [simTokens, setSimTokens] = useState(0);
+  // Set while the new simulator is being tested or repaired
+  const [simPhase, setSimPhase] = useState<string | null>(null);
+  const [simulatorError, setSimulatorError] = useState<string | null>(null);
   const [isFullScreenSim, setIsFullScreenSim] = useState(false);
+  const [showSimControls, setShowSimControls] = useState(false);
+  const [showLab, setShowLab] = useState(false);
+  // Simulator runs recorded in the Lab drawer
+  const [experiments, setExperiments] = useState<ExperimentRun[]>([]);
+  // The inline and full-screen frames never render together, so they share a ref
+  const simFrameRef = useRef<HTMLIFrameElement>(null);
+  const [simBridge, setSimBridge] = useState<SimulatorBridge | null>(null);
   const [showPlanPreview, setShowPlanPreview] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
   
@@ -44,6 +205,26 @@ const StudyArchitect: React.FC = () => {
   const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
   const [selectedAnswers, setSelectedAnswers] = useState<{[key: number]: number}>({});
   const [quizSubmitted, setQuizSubmitted] = useState(false);
+  const [quizError, setQuizError] = useState<string | null>(null);
+
+  // Models that produced this session's content (latest last)
+  const [modelHistory, setModelHistory] = useState<StageModelRecord[]>([]);
+  // Every priced model call made for this session
+  const [sessionUsage, setSessionUsage] = useState<UsageRecord[]>([]);
+  // Prompt template versions that produced this session
+  const [promptVersions, setPromptVersions] = useState<Record<string, string>>({});
+
+  // Transcribed recordings and their original audio (for seeking)
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [audioClips, setAudioClips] = useState<SessionAudioClip[]>([]);
+  // Extracted sources (null while a saved session's are loading)
+  const [sessionDocuments, setSessionDocuments] = useState<ExtractedDocument[] | null>([]);
+  // Stage 1 research summary, the evidence for fact checks
+  const [searchContext, setSearchContext] = useState<string | undefined>(undefined);
+  const [factChecking, setFactChecking] = useState(false);
+  const [factCheckError, setFactCheckError] = useState<string | null>(null);
+  // Deep Dive's retrieval index over notes, plan and sources
+  const [retrievalIndex, setRetrievalIndex] = useState<RetrievalIndex | null>(null);
 
   // Deep Dive State
   const [chatLoading, setChatLoading] = useState(false);
@@ -68,6 +249,22 @@ const StudyArchitect: React.FC = () => {
     }
   }, []);
 
+  // Offer recordings that never made it into a session
+  useEffect(() => {
+    purgeSavedRecordings()
+        .then(listRecoverableRecordings)
+        .then(setRecoverableRecordings)
+        .catch(e => console.warn("Failed to check for unsaved recordings", e));
+  }, []);
+
+  // Abort anything still running when the component goes away
+  useEffect(() => {
+    return () => {
+        studyAbortRef.current?.abort();
+        simAbortRef.current?.abort();
+    };
+  }, []);
+
   // --- Escape Key Listener for Full Screen ---
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -81,7 +278,12 @@ const StudyArchitect: React.FC = () => {
 
   const saveSessionsToStorage = (updatedSessions: SavedSession[]) => {
       setSessions(updatedSessions);
-      localStorage.setItem('studysim_sessions', JSON.stringify(updatedSessions));
+      try {
+          localStorage.setItem('studysim_sessions', JSON.stringify(updatedSessions));
+      } catch (e) {
+          // Over quota: the history stays usable for this visit
+          console.error("Failed to save history", e);
+      }
   };
 
   const updateCurrentSession = (updates: Partial<SavedSession>) => {
@@ -95,9 +297,9 @@ const StudyArchitect: React.FC = () => {
   // Auto-save quiz and chat changes
   useEffect(() => {
       if (currentSessionId && step === 'DONE') {
-          updateCurrentSession({ quizQuestions, chatHistory });
+          updateCurrentSession({ quizQuestions, chatHistory, usage: sessionUsage, promptVersions });
       }
-  }, [quizQuestions, chatHistory]);
+  }, [quizQuestions, chatHistory, sessionUsage, promptVersions]);
 
   const loadSession = (session: SavedSession) => {
       setInputText(session.topic);
@@ -105,6 +307,25 @@ const StudyArchitect: React.FC = () => {
       setResult(session.result);
       setQuizQuestions(session.quizQuestions || []);
       setChatHistory(session.chatHistory || []);
+      setModelHistory(session.modelHistory || []);
+      setSessionUsage(session.usage || []);
+      setPromptVersions(session.promptVersions || {});
+      setTranscripts(session.transcripts || []);
+      setSearchContext(session.searchContext);
+      setExperiments([]);
+      if (session.experimentRunIds?.length) {
+          loadExperimentRuns(session.experimentRunIds).then(setExperiments).catch(e => console.warn("Failed to load experiment runs", e));
+      }
+      setFactCheckError(null);
+      setAudioClips([]);
+      setSessionDocuments(null);
+      loadSessionDocuments(session.id)
+          .catch(e => { console.warn("Failed to load session documents", e); return []; })
+          .then(setSessionDocuments);
+      if (session.transcripts?.length) {
+          loadSessionAudio(session.id).then(setAudioClips).catch(e => console.warn("Failed to load session audio", e));
+      }
+      setStudySettings(withStudySettingDefaults(session.settings));
       setCurrentSessionId(session.id);
       setStep('DONE');
       setActiveTab('NOTES');
@@ -115,6 +336,10 @@ const StudyArchitect: React.FC = () => {
       e.stopPropagation();
       const updated = sessions.filter(s => s.id !== id);
       saveSessionsToStorage(updated);
+      deleteSessionDocuments(id).catch(() => {});
+      deleteSessionAudio(id).catch(() => {});
+      deleteExperimentRuns(sessions.find(s => s.id === id)?.experimentRunIds || []).catch(() => {});
+      deleteRetrievalIndex(id).catch(() => {});
       if (currentSessionId === id) {
           setStep('INPUT');
           setCurrentSessionId(null);
@@ -130,55 +355,59 @@ const StudyArchitect: React.FC = () => {
   };
 
   const removeFile = (index: number) => {
+      const recordingId = recordingIds[files[index]?.name];
+      if (recordingId) {
+          discardRecording(recordingId).catch(e => console.warn("Failed to discard recording", e));
+          setRecordingIds(({ [files[index].name]: _removed, ...rest }) => rest);
+      }
       setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const toggleRecording = async () => {
-    if (isRecording) {
-        mediaRecorderRef.current?.stop();
-        setIsRecording(false);
-    } else {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            const mediaRecorder = new MediaRecorder(stream);
-            mediaRecorderRef.current = mediaRecorder;
-            const chunks: BlobPart[] = [];
-            
-            mediaRecorder.ondataavailable = (e) => {
-                if (e.data.size > 0) chunks.push(e.data);
-            };
-            
-            mediaRecorder.onstop = () => {
-                const blob = new Blob(chunks, { type: 'audio/webm' });
-                const file = new File([blob], "voice_note.webm", { type: 'audio/webm' });
-                setFiles(prev => [...prev, file]);
-                stream.getTracks().forEach(track => track.stop());
-            };
-            
-            mediaRecorder.start();
-            setIsRecording(true);
-        } catch (err) {
-            console.error("Microphone access denied", err);
-            alert("Could not access microphone.");
-        }
-    }
+  const addRecording = (file: File, recordingId: string) => {
+      setFiles(prev => [...prev, file]);
+      setRecordingIds(prev => ({ ...prev, [file.name]: recordingId }));
+  };
+
+  const recoverRecording = async (meta: RecordingMeta) => {
+      try {
+          addRecording(await assembleRecording(meta), meta.id);
+      } catch (e) {
+          console.error(e);
+          setStudyError(`Could not recover ${meta.name}: ${(e as Error)?.message || 'unknown error'}`);
+          return;
+      }
+      setRecoverableRecordings(prev => prev.filter(r => r.id !== meta.id));
+  };
+
+  const dismissRecording = (meta: RecordingMeta) => {
+      setRecoverableRecordings(prev => prev.filter(r => r.id !== meta.id));
+      discardRecording(meta.id).catch(e => console.warn("Failed to discard recording", e));
+  };
+
+  // The recording stays stored until stopped or discarded, so closing the
+  // panel any other way leaves it under recovery.
+  const closeRecorder = () => {
+      setShowRecorder(false);
+      listRecoverableRecordings().then(setRecoverableRecordings).catch(() => {});
   };
 
   // --- Loading Logic Helpers ---
-  const startProgressSimulation = () => {
-      setProgress(0);
-      const interval = setInterval(() => {
-          setProgress(prev => {
-              if (prev >= 95) {
-                  clearInterval(interval);
-                  return 95;
-              }
-              // Fast at start, slow at end
-              const increment = Math.max(0.5, (95 - prev) / 20);
-              return prev + increment;
-          });
-      }, 500);
-      return interval;
+  const startPipelineTracking = (
+      stages: PipelineStage[],
+      signal: AbortSignal,
+      modelRecords: StageModelRecord[],
+      usageRecords: UsageRecord[]
+  ): StageOptions => {
+      setPipelineProgress(createPipelineProgress(stages));
+      return {
+          signal,
+          bypassCache,
+          onEvent: (event) => {
+              if (event.type === 'model-used') modelRecords.push(event.record);
+              if (event.type === 'usage') usageRecords.push(event.record);
+              setPipelineProgress(prev => reducePipelineEvent(prev, event));
+          }
+      };
   };
 
   const startFactRotation = () => {
@@ -193,77 +422,191 @@ const StudyArchitect: React.FC = () => {
   const handleStartStudy = async () => {
     if (!inputText && files.length === 0) return;
     setLoading(LoadingState.LOADING);
+    setStudyError(null);
     setStep('ANALYZING'); // Step 1: Research & Architect
     
-    // Start Progress
-    const progInterval = startProgressSimulation();
+    const controller = new AbortController();
+    studyAbortRef.current = controller;
+    const modelRecords: StageModelRecord[] = [];
+    const usageRecords: UsageRecord[] = [];
+    const hasAudio = attachmentPreview.some(a => a.kind === 'audio' && a.status === 'text');
+    const stages: PipelineStage[] = [
+        ...(hasAudio ? ['TRANSCRIBE' as const] : []),
+        'RESEARCH', 'ARCHITECT', 'NOTES',
+        ...(factCheckEnabled ? ['VERIFY' as const] : [])
+    ];
+    const runPromptVersions = getPromptVersions(stages.flatMap(stage => STAGE_PROMPTS[stage] || []));
+    const stageOptions = startPipelineTracking(stages, controller.signal, modelRecords, usageRecords);
     let factInterval: ReturnType<typeof setInterval> | null = null;
     
     try {
-        let mediaData = undefined;
-        let isVideo = false;
-        
-        const mediaFile = files.find(f => f.type.startsWith('image/') || f.type.startsWith('video/'));
-        
-        if (mediaFile) {
-            const base64 = await new Promise<string>((resolve) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                reader.readAsDataURL(mediaFile);
-            });
-            mediaData = { data: base64, mimeType: mediaFile.type };
-            isVideo = mediaFile.type.startsWith('video/');
+        const pages = await ingestLinks(links, controller.signal);
+        const failedPages = pages.filter(p => p.status === 'failed');
+        // A lone link that can't be read leaves nothing to study.
+        if (failedPages.length === pages.length && pages.length > 0 && !stripLinks(inputText) && files.length === 0) {
+            throw new Error(`Couldn't read ${failedPages.map(p => `${p.url}: ${p.note}`).join('; ')}`);
         }
-
+        const attachments = [...pages, ...await prepareAttachments(files, stageOptions)];
+        const documents = attachments.filter(a => a.document).map(a => a.document!);
+        const runTranscripts = attachments.filter(a => a.transcript).map(a => a.transcript!);
+        const runAudioClips: SessionAudioClip[] = files
+            .filter(f => runTranscripts.some(t => t.name === f.name))
+            .map(f => ({ name: f.name, mimeType: f.type, blob: f }));
+
+        // Research sees file names and extracted text; the Architect receives the files themselves.
         const combinedInput = inputText + (files.length > 0 ? `\n\n[Attached Files: ${files.map(f => f.name).join(', ')}]` : "");
 
         // 1. Facts & Search
-        const { facts, searchContext } = await getInterestingFacts(combinedInput);
+        const { facts, searchContext } = await getInterestingFacts(combinedInput, documents, stageOptions);
         if (facts.length > 0) {
             setWaitFacts(facts);
             factInterval = startFactRotation();
         }
 
         // 2. Architect Plan (Silent Phase)
-        const planData = await analyzeStudyTopic(combinedInput, mediaData, isVideo, searchContext);
+        const planData = await analyzeStudyTopic(inputText, attachments, searchContext, studySettings, stageOptions);
         setPlan(planData);
 
-        // 3. Generate Content (Building Phase)
-        setStep('BUILDING');
-        // We do not stop here. We immediately proceed to generate the notes using the plan.
-        const resultData = await finalizeStudyPackage(planData.markdownPlan, inputText);
-        
-        // 4. Finish
-        setResult(resultData);
-        setLoading(LoadingState.SUCCESS);
-        setStep('DONE');
-        setActiveTab('NOTES');
-        setProgress(100);
-        
-        // Save Session
-        const newSession: SavedSession = {
-            id: Date.now().toString(),
-            topic: inputText || "Untitled Study Session",
-            timestamp: Date.now(),
+        const run: PendingRun = {
+            controller,
+            stageOptions,
+            modelRecords,
+            usageRecords,
+            promptVersions: runPromptVersions,
+            input: inputText,
+            settings: studySettings,
+            factCheck: factCheckEnabled,
+            searchContext,
             plan: planData,
-            result: resultData,
-            quizQuestions: [],
-            chatHistory: []
+            documents,
+            transcripts: runTranscripts,
+            audioClips: runAudioClips,
+            recordingIds: runAudioClips.map(c => recordingIds[c.name]).filter(Boolean)
         };
-        saveSessionsToStorage([newSession, ...sessions]);
-        setCurrentSessionId(newSession.id);
 
-        setQuizQuestions([]);
-        setChatHistory([]);
+        // With review on, the run waits here until the plan is approved.
+        if (reviewPlanEnabled) {
+            pendingRunRef.current = run;
+            setStep('REVIEW');
+            return;
+        }
+
+        // 3. Generate Content (Building Phase)
+        await buildStudyNotes(run, planData.markdownPlan);
     } catch (e) {
+        handleRunError(e);
+    } finally {
+        if (factInterval) clearInterval(factInterval);
+        if (studyAbortRef.current === controller && !pendingRunRef.current) studyAbortRef.current = null;
+    }
+  };
+
+  // Notes, the optional fact check and the saved session. `approvedPlan` is
+  // the Architect's plan, possibly edited at review.
+  const buildStudyNotes = async (run: PendingRun, approvedPlan: string) => {
+    setStep('BUILDING');
+    const { stageOptions, documents, searchContext } = run;
+    const notes = await finalizeStudyPackage(approvedPlan, run.input, run.settings, documents, run.plan.sources, stageOptions);
+
+    // Optional fact check; if it fails the notes are kept unchecked.
+    const factCheck = run.factCheck
+        ? await factCheckNotes(notes.markdown, searchContext, documents, notes.references, run.settings, stageOptions).catch(e => {
+            if (isAbortError(e)) throw e;
+            console.warn("Fact check failed", e);
+            return undefined;
+        })
+        : undefined;
+    const resultData = factCheck ? { ...notes, factCheck } : notes;
+    // The Architect's own version is kept when the student changed it.
+    const planData: StudyPlan = approvedPlan === run.plan.markdownPlan
+        ? run.plan
+        : { ...run.plan, markdownPlan: approvedPlan, originalMarkdownPlan: run.plan.markdownPlan };
+    
+    // 4. Finish
+    setPlan(planData);
+    setResult(resultData);
+    setLoading(LoadingState.SUCCESS);
+    setStep('DONE');
+    setActiveTab('NOTES');
+    
+    // Save Session
+    const newSession: SavedSession = {
+        id: Date.now().toString(),
+        topic: run.input || "Untitled Study Session",
+        timestamp: Date.now(),
+        plan: planData,
+        result: resultData,
+        quizQuestions: [],
+        chatHistory: [],
+        modelHistory: run.modelRecords,
+        usage: run.usageRecords,
+        promptVersions: run.promptVersions,
+        settings: run.settings,
+        transcripts: run.transcripts,
+        searchContext
+    };
+    saveSessionsToStorage([newSession, ...sessions]);
+    setCurrentSessionId(newSession.id);
+    if (documents.length > 0) {
+        saveSessionDocuments(newSession.id, documents).catch(e => console.warn("Failed to save extracted documents", e));
+    }
+    if (run.audioClips.length > 0) {
+        // Stored lecture chunks are only released once the session holds the audio.
+        saveSessionAudio(newSession.id, run.audioClips)
+            .then(() => Promise.all(run.recordingIds.map(id => markRecordingSaved(id, newSession.id))))
+            .catch(e => console.warn("Failed to save session audio", e));
+    }
+
+    setQuizQuestions([]);
+    setChatHistory([]);
+    setModelHistory(run.modelRecords);
+    setSessionUsage(run.usageRecords);
+    setPromptVersions(run.promptVersions);
+    setTranscripts(run.transcripts);
+    setSearchContext(searchContext);
+    setExperiments([]);
+    setFactCheckError(null);
+    setAudioClips(run.audioClips);
+    setSessionDocuments(documents);
+  };
+
+  const handleRunError = (e: unknown) => {
+    // A cancelled run returns to INPUT quietly; nothing half-built is saved.
+    if (isAbortError(e)) {
+        setLoading(LoadingState.IDLE);
+    } else {
         console.error(e);
+        setStudyError((e as Error)?.message || "Something went wrong while building your study guide.");
         setLoading(LoadingState.ERROR);
-        setStep('INPUT');
+    }
+    setStep('INPUT');
+  };
+
+  const handleApprovePlan = async (approvedPlan: string) => {
+    const run = pendingRunRef.current;
+    if (!run) return;
+    pendingRunRef.current = null;
+    const factInterval = waitFacts.length > 0 ? startFactRotation() : null;
+    try {
+        await buildStudyNotes(run, approvedPlan);
+    } catch (e) {
+        handleRunError(e);
     } finally {
-        clearInterval(progInterval);
         if (factInterval) clearInterval(factInterval);
+        if (studyAbortRef.current === run.controller) studyAbortRef.current = null;
     }
   };
+
+  // Also abandons a run waiting at plan review.
+  const handleCancelStudy = () => {
+      studyAbortRef.current?.abort();
+      if (pendingRunRef.current) {
+          pendingRunRef.current = null;
+          studyAbortRef.current = null;
+          setLoading(LoadingState.IDLE);
+          setStep('INPUT');
+      }
+  };
   
   const handleOpenRegenUI = () => {
       setShowRegenUI(true);
@@ -271,42 +614,116 @@ const StudyArchitect: React.FC = () => {
       setRegenPrompt('');
   };
 
-  const handleGenerateSimulator = async () => {
-      if (!plan || !result) return;
+  // Writes a simulator with `write`, runs it through QA (repairing what
+  // fails) and saves it with the session.
+  const buildSimulator = async (write: (options: StageOptions) => Promise<string>, phase: string | null = null) => {
+      if (!result) return;
       setIsGeneratingSim(true);
+      setSimTokens(0);
+      setSimPhase(phase);
+      setSimulatorError(null);
       setShowRegenUI(false);
+      const controller = new AbortController();
+      simAbortRef.current = controller;
       
       try {
-          const planText = regenIncludeContext ? plan.markdownPlan : "";
-          const notesText = regenIncludeContext ? result.markdown : "";
-          
-          const code = await generateStudySimulator(planText, notesText, regenPrompt);
-          const updatedResult = { ...result, simulatorCode: code };
+          const simRecords: StageModelRecord[] = [];
+          const simUsage: UsageRecord[] = [];
+          const simOptions: StageOptions = {
+              signal: controller.signal,
+              onEvent: (event) => {
+                  if (event.type === 'tokens-received') setSimTokens(event.tokens);
+                  if (event.type === 'model-used') simRecords.push(event.record);
+                  if (event.type === 'usage') simUsage.push(event.record);
+              }
+          };
+          const generated = await write(simOptions);
+          // Run it in a hidden frame and send failures back for repair
+          const { code, report } = await qaSimulator(generated, (failed, errorLog) => {
+              setSimTokens(0);
+              setSimPhase('Repairing Simulator...');
+              return repairStudySimulator(failed, errorLog, simOptions);
+          }, {
+              signal: controller.signal,
+              onAttempt: attempt => setSimPhase(attempt === 1 ? 'Testing Simulator...' : `Retesting (Attempt ${attempt})...`)
+          });
+          const updatedResult = { ...result, simulatorCode: code, simulatorQa: report };
+          const updatedModels = [...modelHistory, ...simRecords];
+          const updatedUsage = [...sessionUsage, ...simUsage];
+          const updatedPrompts = { ...promptVersions, ...getPromptVersions(STAGE_PROMPTS.SIMULATOR) };
           setResult(updatedResult);
+          setModelHistory(updatedModels);
+          setSessionUsage(updatedUsage);
+          setPromptVersions(updatedPrompts);
           
           if (currentSessionId) {
              const updatedSessions = sessions.map(s => 
-                  s.id === currentSessionId ? { ...s, result: updatedResult } : s
+                  s.id === currentSessionId ? { ...s, result: updatedResult, modelHistory: updatedModels, usage: updatedUsage, promptVersions: updatedPrompts } : s
              );
              saveSessionsToStorage(updatedSessions);
           }
 
       } catch (e) {
-          console.error("Failed to generate simulator", e);
+          if (!isAbortError(e)) {
+              console.error("Failed to generate simulator", e);
+              setSimulatorError((e as Error)?.message || "Simulator generation failed.");
+          }
       }
+      if (simAbortRef.current === controller) simAbortRef.current = null;
       setIsGeneratingSim(false);
   };
 
+  const handleGenerateSimulator = () => {
+      if (!plan || !result) return;
+      const planText = regenIncludeContext ? plan.markdownPlan : "";
+      const notesText = regenIncludeContext ? result.markdown : "";
+      buildSimulator(options => generateStudySimulator(planText, notesText, regenPrompt, studySettings, options));
+  };
+
+  const handleAddExperiment = (run: ExperimentRun) => {
+      const updated = [...experiments, run];
+      setExperiments(updated);
+      updateCurrentSession({ experimentRunIds: updated.map(r => r.id) });
+      saveExperimentRun(run).catch(e => console.warn("Failed to save experiment run", e));
+  };
+
+  const handleDeleteExperiment = (id: string) => {
+      const updated = experiments.filter(r => r.id !== id);
+      setExperiments(updated);
+      updateCurrentSession({ experimentRunIds: updated.map(r => r.id) });
+      deleteExperimentRuns([id]).catch(() => {});
+  };
+
+  const handleCancelSimulator = () => {
+      simAbortRef.current?.abort();
+  };
+
   const extractSimulatorCode = (text: string) => {
       const match = text.match(/```html([\s\S]*?)```/);
       return match ? match[1] : null;
   };
   const simulatorCode = result?.simulatorCode || (result ? extractSimulatorCode(result.markdown) : null);
+  const simulatorLint = useMemo(() => simulatorCode ? lintSimulator(simulatorCode) : null, [simulatorCode]);
+  // What the frames render and Copy Code copies (see withSimulatorBridge)
+  const bridgedSimulator = useMemo(() => simulatorCode ? withSimulatorBridge(simulatorCode) : null, [simulatorCode]);
+
+  useEffect(() => {
+      const bridge = connectSimulatorBridge(() => simFrameRef.current);
+      setSimBridge(bridge);
+      return () => bridge.dispose();
+  }, []);
+
+  // A repair aimed at the failed lint checks, then the usual QA run
+  const handleFixLint = () => {
+      if (!simulatorCode || !simulatorLint) return;
+      const errorLog = formatLintLog(simulatorLint);
+      buildSimulator(options => repairStudySimulator(simulatorCode, errorLog, options), 'Fixing Lint Issues...');
+  };
 
   const handleCopyCode = async () => {
-    if (!simulatorCode) return;
+    if (!bridgedSimulator) return;
     try {
-        await navigator.clipboard.writeText(simulatorCode);
+        await navigator.clipboard.writeText(bridgedSimulator);
         setCopiedCode(true);
         setTimeout(() => setCopiedCode(false), 2000);
     } catch (err) {
@@ -338,9 +755,12 @@ const StudyArchitect: React.FC = () => {
       const element = document.getElementById('markdown-content');
       if (!element) return;
       
-      const rawContent = element.innerHTML;
+      // Hover cards only make sense on screen; the References section carries the same details.
+      const exported = element.cloneNode(true) as HTMLElement;
+      exported.querySelectorAll('[data-hover-card]').forEach(card => card.remove());
+      const rawContent = exported.innerHTML;
       const docContent = `
-        <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
+        <html lang='${studySettings.language}' dir='${contentDir}' xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
         <head>
             <meta charset='utf-8'>
             <title>StudySim AI Notes</title>
@@ -354,9 +774,10 @@ const StudyArchitect: React.FC = () => {
                 strong { color: #2E74B5; }
                 code { background-color: #F0F0F0; padding: 2px 4px; border-radius: 4px; font-family: 'Consolas', monospace; }
                 .study-header { text-align: center; margin-bottom: 40px; }
+                .katex-display { direction: ltr; }
             </style>
         </head>
-        <body>
+        <body dir='${contentDir}'>
             <div class="study-header">
                 <h1>${inputText || "StudySim AI Generated Notes"}</h1>
                 <p>Generated by StudySim AI on ${new Date().toLocaleDateString()}</p>
@@ -378,24 +799,83 @@ const StudyArchitect: React.FC = () => {
       document.body.removeChild(link);
   };
 
-  const handleGenerateQuiz = async () => {
+  // Quiz and Deep Dive calls add their spend to the open session
+  const trackUsage = (event: PipelineEvent) => {
+      if (event.type === 'usage') setSessionUsage(prev => [...prev, event.record]);
+  };
+
+  // "Practice Again" asks for a fresh set instead of the cached one.
+  const handleGenerateQuiz = async (fresh: boolean = false) => {
       if (!result) return;
       setQuizLoading(true);
+      setQuizError(null);
       try {
-          const questions = await generateQuiz(result.markdown);
+          const questions = await generateQuiz(result.markdown, studySettings, { bypassCache: fresh || bypassCache, onEvent: trackUsage });
           setQuizQuestions(questions);
+          setPromptVersions(prev => ({ ...prev, ...getPromptVersions(STAGE_PROMPTS.QUIZ) }));
           setSelectedAnswers({});
           setQuizSubmitted(false);
       } catch (e) {
           console.error("Quiz Error", e);
+          setQuizError((e as Error)?.message || "Quiz generation failed.");
       }
       setQuizLoading(false);
   };
 
+  // --- Fact Check ---
+  const handleFactCheck = async () => {
+      if (!result) return;
+      setFactChecking(true);
+      setFactCheckError(null);
+      try {
+          const factCheck = await factCheckNotes(result.markdown, searchContext, sessionDocuments || undefined, result.references, studySettings, { bypassCache, onEvent: trackUsage });
+          const updatedResult = { ...result, factCheck };
+          setResult(updatedResult);
+          updateCurrentSession({ result: updatedResult });
+          setPromptVersions(prev => ({ ...prev, ...getPromptVersions(STAGE_PROMPTS.VERIFY) }));
+      } catch (e) {
+          console.error("Fact Check Error", e);
+          setFactCheckError((e as Error)?.message || "The fact check failed.");
+      }
+      setFactChecking(false);
+  };
+
+  // Accepting rewrites the notes; the retrieval index follows on its own.
+  const handleAcceptCorrection = (flag: FactCheckFlag) => {
+      if (!result?.factCheck) return;
+      const markdown = applyCorrection(result.markdown, flag);
+      if (markdown === null) return;
+      const updatedResult = { ...result, markdown, factCheck: setFlagStatus(result.factCheck, flag.id, 'accepted') };
+      setResult(updatedResult);
+      updateCurrentSession({ result: updatedResult });
+  };
+
+  const handleDismissFlag = (flag: FactCheckFlag) => {
+      if (!result?.factCheck) return;
+      const updatedResult = { ...result, factCheck: setFlagStatus(result.factCheck, flag.id, 'dismissed') };
+      setResult(updatedResult);
+      updateCurrentSession({ result: updatedResult });
+  };
+
   const handleQuizSubmit = () => {
       setQuizSubmitted(true);
   };
 
+  // Keep the session's retrieval index in step with its notes, plan and sources.
+  useEffect(() => {
+      setRetrievalIndex(null);
+      if (!currentSessionId || !result?.markdown || sessionDocuments === null) return;
+      let stale = false;
+      syncSessionIndex(currentSessionId, { notes: result.markdown, plan: plan?.markdownPlan, documents: sessionDocuments })
+          .then(index => { if (!stale) setRetrievalIndex(index); })
+          .catch(e => console.warn("Failed to index the session", e));
+      return () => { stale = true; };
+  }, [currentSessionId, result?.markdown, plan?.markdownPlan, sessionDocuments]);
+
+  // Until the stored index is ready, an in-memory one over the notes serves the turn.
+  const currentRetrievalIndex = () =>
+      retrievalIndex || buildRetrievalIndex({ notes: result?.markdown || "", plan: plan?.markdownPlan, documents: sessionDocuments || [] });
+
   const handleChatSubmit = async (e?: React.FormEvent, manualInput?: string) => {
       e?.preventDefault();
       const inputToUse = manualInput || chatInput;
@@ -413,7 +893,7 @@ const StudyArchitect: React.FC = () => {
       setChatLoading(true);
 
       try {
-          const response = await queryDeepDive(chatHistory, result?.markdown || "", userMsg.content);
+          const response = await queryDeepDive(chatHistory, currentRetrievalIndex(), userMsg.content, studySettings, { onEvent: trackUsage });
           const aiMsg: DeepDiveMessage = {
               id: (Date.now() + 1).toString(),
               role: 'ai',
@@ -421,6 +901,7 @@ const StudyArchitect: React.FC = () => {
               timestamp: Date.now()
           };
           setChatHistory(prev => [...prev, aiMsg]);
+          setPromptVersions(prev => ({ ...prev, ...getPromptVersions(STAGE_PROMPTS.DEEP_DIVE) }));
       } catch (e) {
           console.error("Chat Error", e);
       }
@@ -431,6 +912,10 @@ const StudyArchitect: React.FC = () => {
       chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory]);
 
+  const modelFor = (stage: Stage) => [...modelHistory].reverse().find(r => r.stage === stage);
+
+  const runningStage = (Object.keys(pipelineProgress) as PipelineStage[]).find(stage => pipelineProgress[stage]?.status === 'running');
+
   const displayText = result ? result.markdown.replace(/```html([\s\S]*?)```/, '') : '';
 
   // Suggestions for empty chat
@@ -488,6 +973,7 @@ const StudyArchitect: React.FC = () => {
                                     <h4 className="font-bold text-sm text-gray-900 dark:text-white line-clamp-2 mb-2">{s.topic}</h4>
                                     <div className="flex items-center justify-between text-xs text-gray-500">
                                         <span className="flex items-center gap-1"><Calendar size={10}/> {new Date(s.timestamp).toLocaleDateString()}</span>
+                                        {s.usage && s.usage.length > 0 && <span className="font-mono">{formatUsd(sumCost(s.usage))}</span>}
                                     </div>
                                     <button 
                                         onClick={(e) => deleteSession(e, s.id)} 
@@ -513,6 +999,8 @@ const StudyArchitect: React.FC = () => {
                     </p>
                 </div>
                 
+                {studyError && <ErrorBanner message={studyError} onDismiss={() => setStudyError(null)} />}
+
                 {/* Input Card Container */}
                 <div className="bg-white dark:bg-[#161616] rounded-3xl md:rounded-[2rem] shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-black/50 border border-gray-100 dark:border-white/5 p-3 transition-all duration-300 hover:shadow-[0_8px_40px_rgb(0,0,0,0.08)] dark:hover:shadow-black/80 focus-within:ring-2 focus-within:ring-purple-500/20 group">
                     
@@ -521,6 +1009,7 @@ const StudyArchitect: React.FC = () => {
                             {files.map((f, i) => (
                                 <div key={i} className="animate-in fade-in zoom-in-95 duration-200 flex-shrink-0 bg-white dark:bg-[#252525] pl-3 pr-2 py-1.5 rounded-full flex items-center gap-2 text-xs md:text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 shadow-sm">
                                     <span className="truncate max-w-[100px] md:max-w-[120px]">{f.name}</span>
+                                    {attachmentPreview[i] && <AttachmentStatusLabel attachment={attachmentPreview[i]} />}
                                     <button onClick={() => removeFile(i)} className="w-5 h-5 rounded-full hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-500 flex items-center justify-center transition-colors"><X size={12}/></button>
                                 </div>
                             ))}
@@ -534,6 +1023,18 @@ const StudyArchitect: React.FC = () => {
                         onChange={e => setInputText(e.target.value)}
                     />
 
+                    {links.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 px-4 pb-3">
+                            <span className="text-[10px] font-bold text-gray-400 dark:text-gray-600 uppercase tracking-wider mr-1">Reading:</span>
+                            {links.map(link => (
+                                <span key={link} title={link} className="flex items-center gap-1.5 px-3 py-1 bg-blue-50 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900/30 rounded-full text-xs font-medium text-blue-700 dark:text-blue-300 max-w-[240px]">
+                                    <Globe size={12} className="flex-shrink-0" />
+                                    <span className="truncate">{link.replace(/^https?:\/\/(www\.)?/, '')}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Suggestion Chips */}
                     {!inputText && files.length === 0 && (
                         <div className="flex items-center gap-2 px-4 py-2 overflow-x-auto scrollbar-hide pb-4">
@@ -550,8 +1051,35 @@ const StudyArchitect: React.FC = () => {
                         </div>
                     )}
 
+                    {/* Study Settings */}
+                    <div className="flex items-center gap-2 px-4 pb-3 overflow-x-auto scrollbar-hide">
+                        <SettingSelect label="Level" value={studySettings.level} options={STUDY_LEVELS} onChange={level => setStudySettings(prev => ({ ...prev, level }))} />
+                        <SettingSelect label="Length" value={studySettings.length} options={STUDY_LENGTHS} onChange={length => setStudySettings(prev => ({ ...prev, length }))} />
+                        <SettingSelect label="Focus" value={studySettings.emphasis} options={STUDY_EMPHASES} onChange={emphasis => setStudySettings(prev => ({ ...prev, emphasis }))} />
+                        <SettingSelect label="Language" value={studySettings.language} options={STUDY_LANGUAGES} onChange={language => setStudySettings(prev => ({ ...prev, language }))} />
+                        {studySettings.language !== 'en' && (
+                            <label className="flex items-center gap-1.5 px-3 py-1 bg-gray-50 dark:bg-[#202020] border border-gray-200 dark:border-gray-800 rounded-full text-xs font-medium text-gray-500 dark:text-gray-400 cursor-pointer select-none flex-shrink-0" title="Follow technical terms with their English name">
+                                <input type="checkbox" checked={studySettings.englishGlosses} onChange={e => setStudySettings(prev => ({ ...prev, englishGlosses: e.target.checked }))} className="accent-purple-600" />
+                                English glosses
+                            </label>
+                        )}
+                    </div>
+
+                    {recoverableRecordings.filter(meta => !Object.values(recordingIds).includes(meta.id)).map(meta => (
+                        <div key={meta.id} className="mx-3 mb-2 px-4 py-2.5 rounded-2xl border border-amber-200 dark:border-amber-900/40 bg-amber-50/60 dark:bg-amber-900/10 flex flex-wrap items-center gap-3 text-xs md:text-sm">
+                            <AlertCircle size={16} className="text-amber-600 flex-shrink-0" />
+                            <span className="flex-1 min-w-[160px] text-gray-700 dark:text-gray-300">
+                                Unsaved recording <span className="font-medium">{meta.name}</span> ({formatTimestamp(meta.durationMs / 1000)})
+                            </span>
+                            <button onClick={() => recoverRecording(meta)} className="px-3 py-1 rounded-full bg-white dark:bg-[#252525] border border-gray-200 dark:border-gray-700 font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-[#2A2A2A] transition-colors">Attach</button>
+                            <button onClick={() => dismissRecording(meta)} className="px-3 py-1 rounded-full font-medium text-gray-500 hover:text-red-500 transition-colors">Discard</button>
+                        </div>
+                    ))}
+
+                    {showRecorder && <LectureRecorderPanel onRecorded={addRecording} onClose={closeRecorder} />}
+
                     <div className="flex flex-col sm:flex-row sm:items-center justify-between px-3 pb-2 pt-2 gap-3 border-t border-gray-100 dark:border-white/5 mt-1">
-                        <div className="flex items-center gap-2">
+                        <div className="flex flex-wrap items-center gap-2">
                             <button 
                                 onClick={() => fileInputRef.current?.click()} 
                                 className="p-3 md:p-4 rounded-full hover:bg-gray-100 dark:hover:bg-[#252525] text-gray-500 dark:text-gray-400 transition-all active:scale-95 active:bg-gray-200 dark:active:bg-[#333]" 
@@ -561,12 +1089,25 @@ const StudyArchitect: React.FC = () => {
                             </button>
                             <input type="file" multiple className="hidden" ref={fileInputRef} onChange={handleFileSelect} accept="image/*,video/*,audio/*,.pdf,.doc,.docx,.txt" />
                             <button 
-                                onClick={toggleRecording} 
-                                className={`p-3 md:p-4 rounded-full transition-all active:scale-95 ${isRecording ? 'bg-red-50 text-red-500 ring-2 ring-red-500/20 animate-pulse' : 'hover:bg-gray-100 dark:hover:bg-[#252525] text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400'}`}
-                                title="Record Audio"
+                                onClick={() => setShowRecorder(true)} 
+                                disabled={showRecorder}
+                                className={`p-3 md:p-4 rounded-full transition-all active:scale-95 ${showRecorder ? 'bg-red-50 text-red-500 ring-2 ring-red-500/20 animate-pulse' : 'hover:bg-gray-100 dark:hover:bg-[#252525] text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400'}`}
+                                title="Record Lecture"
                             >
                                 <Mic size={22} />
                             </button>
+                            <label className="flex items-center gap-2 pl-2 text-xs font-medium text-gray-500 dark:text-gray-400 cursor-pointer select-none" title="Ignore cached research, plans and notes for this run">
+                                <input type="checkbox" checked={bypassCache} onChange={e => setBypassCache(e.target.checked)} className="accent-purple-600" />
+                                Bypass cache
+                            </label>
+                            <label className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400 cursor-pointer select-none" title="Check the finished notes' claims and formulas against the research">
+                                <input type="checkbox" checked={factCheckEnabled} onChange={e => setFactCheckEnabled(e.target.checked)} className="accent-purple-600" />
+                                Fact check
+                            </label>
+                            <label className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400 cursor-pointer select-none" title="Review and edit the study plan before the notes are written">
+                                <input type="checkbox" checked={reviewPlanEnabled} onChange={e => setReviewPlanEnabled(e.target.checked)} className="accent-purple-600" />
+                                Review plan
+                            </label>
                         </div>
                         <button 
                             onClick={handleStartStudy} 
@@ -588,7 +1129,7 @@ const StudyArchitect: React.FC = () => {
         {/* Navigation & Status Header */}
         <div className="flex flex-wrap items-center justify-between px-2 md:px-4 gap-4 print:hidden">
              <div className="flex items-center gap-4">
-                 <button onClick={() => setStep('INPUT')} className="flex items-center gap-2 text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors active:scale-95">
+                 <button onClick={() => step === 'REVIEW' ? handleCancelStudy() : setStep('INPUT')} className="flex items-center gap-2 text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors active:scale-95">
                      <div className="w-8 h-8 rounded-full bg-white dark:bg-[#1A1A1A] border border-gray-200 dark:border-gray-800 flex items-center justify-center shadow-sm">
                         <ArrowRight className="rotate-180" size={14}/>
                      </div>
@@ -603,6 +1144,7 @@ const StudyArchitect: React.FC = () => {
                  <div className="flex bg-surface-highlight border border-border rounded-xl p-1 gap-1 overflow-x-auto max-w-full scrollbar-hide shadow-sm print:hidden">
                     {[
                         { id: 'NOTES', icon: FileText, label: 'Notes' },
+                        ...(transcripts.length > 0 ? [{ id: 'TRANSCRIPT', icon: Music, label: 'Transcript' }] : []),
                         { id: 'SIMULATOR', icon: Gamepad2, label: 'Simulator' },
                         { id: 'QUIZ', icon: GraduationCap, label: 'Quiz' },
                         { id: 'DEEP_DIVE', icon: MessageSquare, label: 'Deep Dive' }
@@ -635,18 +1177,32 @@ const StudyArchitect: React.FC = () => {
                     <h2 className="text-3xl font-serif font-bold text-gray-900 dark:text-white mb-2 animate-fade-in">
                         {step === 'ANALYZING' ? "Deconstructing Topic..." : "Authoring Content..."}
                     </h2>
-                    <p className="text-gray-500 dark:text-gray-400 mb-10 font-medium">AI is architecting your learning experience</p>
+                    <p className="text-gray-500 dark:text-gray-400 mb-10 font-medium">
+                        {runningStage ? `${STAGE_LABELS[runningStage]} in progress` : 'AI is architecting your learning experience'}
+                    </p>
 
                     {/* Progress Bar */}
-                    <div className="w-full h-2 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden mb-12 relative shadow-inner">
+                    <div className="w-full h-2 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden mb-6 relative shadow-inner">
                         <div 
                             className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-300 ease-out relative"
-                            style={{ width: `${progress}%` }}
+                            style={{ width: `${getCompletion(pipelineProgress)}%` }}
                         >
                             <div className="absolute inset-0 bg-white/30 animate-[shimmer_2s_infinite] w-full h-full" style={{ backgroundImage: 'linear-gradient(90deg,transparent,rgba(255,255,255,0.5),transparent)', backgroundSize: '200% 100%' }}></div>
                         </div>
                     </div>
 
+                    {/* Stage Timeline */}
+                    <div className="w-full mb-6">
+                        <StageTimeline progress={pipelineProgress} />
+                    </div>
+
+                    <button
+                        onClick={handleCancelStudy}
+                        className="mb-10 px-5 py-2 rounded-xl border border-border text-sm font-bold text-gray-600 dark:text-gray-300 hover:text-red-500 hover:border-red-300 dark:hover:border-red-800 transition-colors flex items-center gap-2 active:scale-95"
+                    >
+                        <X size={14}/> Cancel
+                    </button>
+
                     {/* Rotating Facts */}
                     {waitFacts.length > 0 && (
                         <div className="bg-surface-highlight border border-border p-6 rounded-2xl w-full shadow-lg relative overflow-hidden group min-h-[140px] flex items-center justify-center">
@@ -670,6 +1226,10 @@ const StudyArchitect: React.FC = () => {
         {/* Main Content Area */}
         <div className="flex-1 modern-card bg-surface overflow-hidden relative flex flex-col shadow-2xl border border-white/20 dark:border-white/5 transition-all print:shadow-none print:border-none print:overflow-visible print:bg-transparent">
             
+            {step === 'REVIEW' && plan && (
+                <PlanReview plan={plan} lang={studySettings.language} onApprove={handleApprovePlan} onCancel={handleCancelStudy} />
+            )}
+
             {step === 'DONE' && result && (
                 <div className="flex-1 flex flex-col h-full relative print:block print:h-auto">
                      {/* Tab Content */}
@@ -678,7 +1238,11 @@ const StudyArchitect: React.FC = () => {
                         {/* NOTES TAB */}
                         {activeTab === 'NOTES' && (
                             <div className="p-4 md:p-10 max-w-5xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-300 print:p-0 print:max-w-none">
-                                <div className="flex justify-end gap-2 mb-4 print:hidden">
+                                <div className="flex justify-end items-center gap-2 mb-4 print:hidden">
+                                     <div className="mr-auto flex items-center gap-2"><ModelBadge record={modelFor('NOTES')} /><SessionCostBadge usage={sessionUsage} /></div>
+                                     <button onClick={handleFactCheck} disabled={factChecking} title={result?.factCheck ? "Check the notes again" : "Check the notes' claims and formulas against the research"} className="flex items-center gap-2 px-3 py-1.5 bg-surface-highlight border border-border rounded-lg text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#252525] transition-colors active:scale-95 disabled:opacity-60">
+                                        {factChecking ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />} {factChecking ? 'Checking…' : 'Fact check'}
+                                     </button>
                                      <button onClick={handleExportPDF} className="flex items-center gap-2 px-3 py-1.5 bg-surface-highlight border border-border rounded-lg text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#252525] transition-colors active:scale-95">
                                         <Download size={12} /> PDF
                                      </button>
@@ -686,12 +1250,42 @@ const StudyArchitect: React.FC = () => {
                                         <FileText size={12} /> DOCX
                                      </button>
                                 </div>
-                                <div id="markdown-content" className="print:text-black">
-                                    <MarkdownRenderer content={displayText} />
+                                {plan?.attachments && plan.attachments.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+                                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Built from</span>
+                                        {plan.attachments.map((a, i) => (
+                                            <span key={i} className="flex items-center gap-2 px-2.5 py-1 bg-surface-highlight border border-border rounded-full text-xs text-gray-600 dark:text-gray-300">
+                                                {a.url ? (
+                                                    <a href={a.url} target="_blank" rel="noopener noreferrer" title={a.url} className="flex items-center gap-1 truncate max-w-[200px] hover:underline"><Globe size={11} className="flex-shrink-0" />{a.name}</a>
+                                                ) : (
+                                                    <span className="truncate max-w-[160px]">{a.name}</span>
+                                                )}
+                                                <AttachmentStatusLabel attachment={a} />
+                                                {a.status === 'failed' && a.note && <span className="text-red-500 truncate max-w-[220px]" title={a.note}>{a.note}</span>}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {factCheckError && (
+                                    <div className="mb-4 flex items-center gap-2 text-sm text-red-500 print:hidden"><AlertCircle size={14} /> {factCheckError}</div>
+                                )}
+                                {result?.factCheck && (
+                                    <FactCheckPanel report={result.factCheck} notes={result.markdown} lang={studySettings.language} onAccept={handleAcceptCorrection} onDismiss={handleDismissFlag} />
+                                )}
+                                <div id="markdown-content" lang={studySettings.language} dir={contentDir} className="print:text-black">
+                                    <MarkdownRenderer content={displayText} lang={studySettings.language} references={result?.references} flags={result?.factCheck?.flags} />
+                                    {result?.references && <ReferenceList references={result.references} />}
                                 </div>
                             </div>
                         )}
 
+                        {/* TRANSCRIPT TAB */}
+                        {activeTab === 'TRANSCRIPT' && (
+                            <div className="p-4 md:p-10 max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-300">
+                                <TranscriptView transcripts={transcripts} clips={audioClips} />
+                            </div>
+                        )}
+
                         {/* SIMULATOR TAB */}
                         {activeTab === 'SIMULATOR' && (
                             simulatorCode ? (
@@ -727,7 +1321,8 @@ const StudyArchitect: React.FC = () => {
                                             </div>
                                             <div className="flex-1 w-full h-full bg-[#111]">
                                                 <iframe
-                                                    srcDoc={simulatorCode}
+                                                    ref={simFrameRef}
+                                                    srcDoc={bridgedSimulator ?? undefined}
                                                     className="w-full h-full border-0 block"
                                                     title="Simulator Fullscreen"
                                                     sandbox="allow-scripts allow-forms allow-popups allow-modals allow-downloads allow-presentation"
@@ -747,8 +1342,27 @@ const StudyArchitect: React.FC = () => {
                                                         <span className="text-white text-sm font-bold tracking-wide block">Interactive Simulator</span>
                                                         <span className="text-[10px] text-gray-400 font-mono uppercase">HTML5 • Canvas • Physics</span>
                                                     </div>
+                                                    <ModelBadge record={modelFor('SIMULATOR')} dark />
+                                                    <SimulatorQaBadge report={result?.simulatorQa} />
+                                                    {simulatorLint && <SimulatorChecklist report={simulatorLint} onFix={handleFixLint} disabled={isGeneratingSim} />}
                                                 </div>
                                                 <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => setShowLab(!showLab)}
+                                                        className={`text-xs font-bold px-3 py-2 rounded-lg transition-colors flex items-center gap-2 active:scale-95 ${showLab ? 'text-white bg-primary/80 hover:bg-primary' : 'text-gray-300 hover:text-white bg-white/10 hover:bg-white/20'}`}
+                                                        title="Record and compare experiment runs"
+                                                    >
+                                                        <FlaskConical size={14}/>
+                                                        <span className="hidden sm:inline">Lab</span>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => setShowSimControls(!showSimControls)}
+                                                        className={`text-xs font-bold px-3 py-2 rounded-lg transition-colors flex items-center gap-2 active:scale-95 ${showSimControls ? 'text-white bg-primary/80 hover:bg-primary' : 'text-gray-300 hover:text-white bg-white/10 hover:bg-white/20'}`}
+                                                        title="Parameters and live outputs"
+                                                    >
+                                                        <SlidersHorizontal size={14}/>
+                                                        <span className="hidden sm:inline">Controls</span>
+                                                    </button>
                                                      <button 
                                                         onClick={handleOpenRegenUI}
                                                         disabled={isGeneratingSim}
@@ -816,23 +1430,41 @@ const StudyArchitect: React.FC = () => {
                                                 </div>
                                             )}
                                             
+                                            {simulatorError && <div className="px-4 pt-4 bg-surface"><ErrorBanner message={simulatorError} onDismiss={() => setSimulatorError(null)} /></div>}
+
                                             {/* Iframe Container */}
                                             <div className="flex-1 relative w-full h-full bg-[#111] overflow-hidden">
                                                 {isGeneratingSim && (
                                                     <div className="absolute inset-0 z-20 bg-black/80 backdrop-blur-sm flex items-center justify-center">
                                                          <div className="flex flex-col items-center gap-3">
                                                             <Loader2 size={32} className="text-primary animate-spin"/>
-                                                            <span className="text-white text-sm font-bold tracking-widest uppercase">Building Physics Engine...</span>
+                                                            <span className="text-white text-sm font-bold tracking-widest uppercase">{simPhase || 'Building Physics Engine...'}</span>
+                                                            {simTokens > 0 && <span className="text-xs font-mono text-gray-400">{simTokens.toLocaleString()} tokens received</span>}
+                                                            <button onClick={handleCancelSimulator} className="mt-2 text-xs font-bold text-gray-300 hover:text-white px-3 py-1.5 bg-white/10 hover:bg-red-600/80 rounded-lg transition-colors flex items-center gap-1 active:scale-95">
+                                                                <X size={12}/> Cancel
+                                                            </button>
                                                          </div>
                                                     </div>
                                                 )}
                                                 <iframe
-                                                    srcDoc={simulatorCode}
+                                                    ref={simFrameRef}
+                                                    srcDoc={bridgedSimulator ?? undefined}
                                                     className="w-full h-full border-0 block"
                                                     title="Simulator"
                                                     sandbox="allow-scripts allow-forms allow-popups allow-modals allow-downloads allow-presentation"
                                                 />
+                                                {showSimControls && simBridge && <SimulatorControls bridge={simBridge} onClose={() => setShowSimControls(false)} />}
                                             </div>
+                                            {showLab && simBridge && (
+                                                <ExperimentRecorder
+                                                    bridge={simBridge}
+                                                    runs={experiments}
+                                                    topic={inputText}
+                                                    onAddRun={handleAddExperiment}
+                                                    onDeleteRun={handleDeleteExperiment}
+                                                    onClose={() => setShowLab(false)}
+                                                />
+                                            )}
                                         </div>
                                     )}
                                 </>
@@ -848,6 +1480,7 @@ const StudyArchitect: React.FC = () => {
                                     <p className="relative z-10 text-gray-500 dark:text-gray-400 max-w-md mb-8 md:mb-10 text-base md:text-lg">
                                         AI Architect can code a custom HTML5 physics engine based on your notes in real-time.
                                     </p>
+                                    {simulatorError && <div className="relative z-10 max-w-md w-full"><ErrorBanner message={simulatorError} onDismiss={() => setSimulatorError(null)} /></div>}
                                     
                                     {isGeneratingSim ? (
                                         <div className="relative z-10 flex flex-col items-center gap-4 bg-surface-highlight border border-border px-8 py-6 rounded-2xl shadow-lg animate-in zoom-in-95 duration-300">
@@ -855,7 +1488,11 @@ const StudyArchitect: React.FC = () => {
                                                 <div className="w-12 h-12 border-4 border-gray-200 dark:border-gray-700 rounded-full"></div>
                                                 <div className="absolute top-0 left-0 w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
                                             </div>
-                                            <span className="text-sm font-bold text-gray-900 dark:text-white animate-pulse">Compiling Physics Engine...</span>
+                                            <span className="text-sm font-bold text-gray-900 dark:text-white animate-pulse">{simPhase || 'Compiling Physics Engine...'}</span>
+                                            {simTokens > 0 && <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{simTokens.toLocaleString()} tokens received</span>}
+                                            <button onClick={handleCancelSimulator} className="text-xs font-bold text-gray-500 hover:text-red-500 px-3 py-1.5 transition-colors flex items-center gap-1 active:scale-95">
+                                                <X size={12}/> Cancel
+                                            </button>
                                             <div className="flex items-center gap-2 text-xs text-green-500 bg-green-500/10 px-3 py-1 rounded-full animate-in fade-in slide-in-from-bottom-2 duration-700">
                                                 <Database size={12}/> Research bundle injected
                                             </div>
@@ -876,7 +1513,7 @@ const StudyArchitect: React.FC = () => {
                                             
                                             {showPlanPreview && plan && (
                                                 <div className="w-full h-40 overflow-y-auto bg-surface-highlight border border-border rounded-xl p-3 text-xs text-left shadow-inner">
-                                                    <MarkdownRenderer content={plan.markdownPlan.substring(0, 1000) + '...'} />
+                                                    <MarkdownRenderer content={plan.markdownPlan.substring(0, 1000) + '...'} lang={studySettings.language} />
                                                 </div>
                                             )}
 
@@ -921,11 +1558,12 @@ const StudyArchitect: React.FC = () => {
                                             <GraduationCap size={40} />
                                         </div>
                                         <h3 className="text-2xl font-bold mb-3 text-gray-900 dark:text-white">Ready to test your knowledge?</h3>
-                                        <p className="text-gray-500 dark:text-gray-400 mb-8 max-w-md">
+                                                        <p className="text-gray-500 dark:text-gray-400 mb-8 max-w-md">
                                             Generate a quick 5-question quiz based on your study notes to reinforce what you've learned.
                                         </p>
+                                        {quizError && <div className="max-w-md w-full"><ErrorBanner message={quizError} onDismiss={() => setQuizError(null)} /></div>}
                                         <button 
-                                            onClick={handleGenerateQuiz}
+                                            onClick={() => handleGenerateQuiz()}
                                             disabled={quizLoading}
                                             className="px-8 py-4 bg-primary hover:bg-primary-hover text-white rounded-xl font-bold transition-all shadow-lg hover:shadow-primary/30 flex items-center gap-2 active:scale-95 hover:-translate-y-1"
                                         >
@@ -934,6 +1572,7 @@ const StudyArchitect: React.FC = () => {
                                     </div>
                                 ) : (
                                     <div className="space-y-8 pb-10">
+                                        {quizError && <ErrorBanner message={quizError} onDismiss={() => setQuizError(null)} />}
                                         <div className="flex justify-between items-center mb-6 border-b border-gray-200 dark:border-gray-800 pb-4">
                                             <h3 className="text-xl font-bold text-gray-900 dark:text-white">Topic Assessment</h3>
                                             <span className="text-sm font-mono bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">
@@ -946,7 +1585,7 @@ const StudyArchitect: React.FC = () => {
                                                 <h4 className="font-bold text-lg mb-4 text-gray-900 dark:text-white flex gap-3 items-start">
                                                     <span className="text-primary opacity-50 mt-1">0{idx + 1}.</span> 
                                                     <div className="flex-1">
-                                                        <MarkdownRenderer content={q.question} variant="chat" />
+                                                        <MarkdownRenderer content={q.question} variant="chat" lang={studySettings.language} />
                                                     </div>
                                                 </h4>
                                                 <div className="space-y-3 pl-0 md:pl-8">
@@ -979,7 +1618,7 @@ const StudyArchitect: React.FC = () => {
                                                                         {['A','B','C','D'][oIdx]}
                                                                     </div>
                                                                     <div className="flex-1">
-                                                                         <MarkdownRenderer content={opt} variant="chat" />
+                                                                         <MarkdownRenderer content={opt} variant="chat" lang={studySettings.language} />
                                                                     </div>
                                                                 </div>
                                                                 {quizSubmitted && (
@@ -999,7 +1638,7 @@ const StudyArchitect: React.FC = () => {
                                                             <Lightbulb size={14} /> Explanation
                                                         </div>
                                                         <div className="text-sm text-gray-700 dark:text-gray-300">
-                                                            <MarkdownRenderer content={q.explanation} variant="chat" />
+                                                            <MarkdownRenderer content={q.explanation} variant="chat" lang={studySettings.language} />
                                                         </div>
                                                     </div>
                                                 )}
@@ -1029,7 +1668,7 @@ const StudyArchitect: React.FC = () => {
                                                         }).length} <span className="text-gray-400 text-2xl">/ {quizQuestions.length}</span>
                                                     </h4>
                                                     <button 
-                                                        onClick={handleGenerateQuiz}
+                                                        onClick={() => handleGenerateQuiz(true)}
                                                         className="px-6 py-2.5 bg-primary/10 text-primary font-bold rounded-lg hover:bg-primary/20 transition-colors flex items-center justify-center gap-2 mx-auto"
                                                     >
                                                         <RefreshCw size={16}/> Practice Again
@@ -1072,7 +1711,7 @@ const StudyArchitect: React.FC = () => {
                                                         ? 'bg-gray-900 dark:bg-zinc-700 text-white dark:text-white rounded-tr-none' 
                                                         : 'bg-white dark:bg-[#1A1A1A] border border-border rounded-tl-none text-gray-900 dark:text-white'
                                                 }`}>
-                                                    <MarkdownRenderer content={msg.content} variant="chat" />
+                                                    <MarkdownRenderer content={msg.content} variant="chat" lang={studySettings.language} />
                                                 </div>
                                             </div>
                                         ))
@@ -0,0 +1,106 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Music } from 'lucide-react';
+import { Transcript } from '../types';
+import { SessionAudioClip, formatTimestamp } from '../services/transcription';
+
+interface Props {
+  transcripts: Transcript[];
+  // Original recordings, matched to transcripts by file name
+  clips: SessionAudioClip[];
+}
+
+// Seeks the recording; disabled when the audio isn't available.
+const TimestampButton: React.FC<{ seconds: number; onSeek?: (seconds: number) => void }> = ({ seconds, onSeek }) => (
+  <button
+      onClick={() => onSeek?.(seconds)}
+      disabled={!onSeek}
+      dir="ltr"
+      className="flex-shrink-0 font-mono text-xs tabular-nums text-primary hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-default"
+      title={onSeek ? `Play from ${formatTimestamp(seconds)}` : undefined}
+  >
+      {formatTimestamp(seconds)}
+  </button>
+);
+
+const TranscriptView: React.FC<Props> = ({ transcripts, clips }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [currentSec, setCurrentSec] = useState(-1);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const transcript = transcripts[Math.min(activeIndex, transcripts.length - 1)];
+  const clip = clips.find(c => c.name === transcript?.name);
+
+  const audioUrl = useMemo(() => clip ? URL.createObjectURL(clip.blob) : null, [clip]);
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  // Start time of the line being played, for highlighting
+  const lineStarts = useMemo(() => transcript ? transcript.segments.flatMap(s => s.lines.map(l => l.startSec)) : [], [transcript]);
+  const playingStart = lineStarts.filter(start => start <= currentSec).pop();
+
+  const seek = (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = seconds;
+      audio.play().catch(e => console.warn("Playback failed", e));
+  };
+
+  if (!transcript) return null;
+
+  return (
+      <div className="space-y-6">
+          {transcripts.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                  {transcripts.map((t, i) => (
+                      <button
+                          key={t.name}
+                          onClick={() => { setActiveIndex(i); setCurrentSec(-1); }}
+                          className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${i === activeIndex ? 'bg-primary text-white border-primary' : 'bg-surface-highlight border-border text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#252525]'}`}
+                      >
+                          <Music size={12} /> {t.name}
+                      </button>
+                  ))}
+              </div>
+          )}
+
+          <div className="sticky top-0 z-10 bg-surface/95 backdrop-blur py-3 border-b border-border">
+              {audioUrl ? (
+                  <audio
+                      key={audioUrl}
+                      ref={audioRef}
+                      src={audioUrl}
+                      controls
+                      onTimeUpdate={e => setCurrentSec(e.currentTarget.currentTime)}
+                      className="w-full"
+                  />
+              ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">The original recording isn't available in this browser, so timestamps can't be played.</p>
+              )}
+          </div>
+
+          <div dir="auto" className="space-y-8">
+              {transcript.segments.map((segment, si) => (
+                  <section key={si}>
+                      <h3 className="flex items-baseline gap-3 text-lg font-bold text-gray-900 dark:text-white mb-3">
+                          <TimestampButton seconds={segment.startSec} onSeek={audioUrl ? seek : undefined} />
+                          <span>{segment.title}</span>
+                      </h3>
+                      <div className="space-y-1.5">
+                          {segment.lines.map((line, li) => (
+                              <div
+                                  key={li}
+                                  className={`flex items-baseline gap-3 px-2 py-1 rounded-lg transition-colors ${line.startSec === playingStart ? 'bg-primary/10' : ''}`}
+                              >
+                                  <TimestampButton seconds={line.startSec} onSeek={audioUrl ? seek : undefined} />
+                                  <p className="flex-1 text-sm md:text-base text-gray-700 dark:text-gray-300 leading-relaxed">{line.text}</p>
+                              </div>
+                          ))}
+                      </div>
+                  </section>
+              ))}
+          </div>
+      </div>
+  );
+};
+
+export default TranscriptView;
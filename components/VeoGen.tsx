@@ -1,8 +1,9 @@
 
-import React, { useState } from 'react';
-import { generateVeoVideo } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateVeoVideo, fetchGeneratedVideo } from '../services/geminiService';
+import { isAbortError } from '../services/cancellation';
 import { LoadingState } from '../types';
-import { Video, Sparkles, Film, Minus, Upload, Check } from 'lucide-react';
+import { Video, Sparkles, Film, Minus, Upload, Check, X } from 'lucide-react';
 
 const VeoGen: React.FC = () => {
   const [prompt, setPrompt] = useState('');
@@ -11,12 +12,17 @@ const VeoGen: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleGenerate = async () => {
     if (!prompt && !imageFile) return;
     setLoading(LoadingState.LOADING);
     setError(null);
     setVideoUrl(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       let base64Image = undefined;
@@ -34,21 +40,27 @@ const VeoGen: React.FC = () => {
         mimeType = imageFile.type;
       }
 
-      const uri = await generateVeoVideo(prompt, base64Image, mimeType, aspectRatio);
-      const res = await fetch(`${uri}&key=${process.env.API_KEY}`);
-      if (!res.ok) throw new Error("Failed to download generated video");
-      const blob = await res.blob();
+      const uri = await generateVeoVideo(prompt, base64Image, mimeType, aspectRatio, controller.signal);
+      const blob = await fetchGeneratedVideo(uri, controller.signal);
       const localUrl = URL.createObjectURL(blob);
       setVideoUrl(localUrl);
       setLoading(LoadingState.SUCCESS);
 
     } catch (e: any) {
+      if (isAbortError(e)) {
+        setLoading(LoadingState.IDLE);
+        return;
+      }
       console.error(e);
       setError("Generation Failed. " + (e.message || ""));
       setLoading(LoadingState.ERROR);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="flex flex-col lg:flex-row gap-6 h-auto min-h-[600px] justify-center items-center pb-8">
         
@@ -132,6 +144,15 @@ const VeoGen: React.FC = () => {
                         )}
                     </button>
 
+                    {loading === LoadingState.LOADING && (
+                        <button
+                            onClick={handleCancel}
+                            className="w-full py-3 rounded-2xl border border-border text-xs font-bold tracking-widest uppercase text-gray-500 dark:text-zinc-400 hover:text-red-500 hover:border-red-300 dark:hover:border-red-900 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <X size={14} /> Cancel Render
+                        </button>
+                    )}
+
                     {error && (
                         <div className="p-4 bg-red-100 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 rounded-xl text-red-600 dark:text-red-400 font-bold text-xs flex items-center gap-3">
                             <Minus className="bg-red-500 text-white rounded-full p-0.5" size={14} /> {error}
@@ -0,0 +1,8 @@
+
+// Thrown by route handlers; the status and message are sent to the client.
+export class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
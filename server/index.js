@@ -0,0 +1,393 @@
+
+import http from 'node:http';
+import https from 'node:https';
+import zlib from 'node:zlib';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI, FileState, GenerateVideosOperation } from '@google/genai';
+import { HttpError } from './httpError.js';
+import { checkPageUrl, publicLookup } from './publicAddress.js';
+
+// --- STUDYSIM API SERVER ---
+// Owns the Gemini key so it never reaches the browser. The client still
+// builds every prompt, cache key and fallback chain; this server only makes
+// the model calls it is asked for, on an allowlist of stages and models:
+//
+//   POST   /api/stages/:stage      text stages and Deep Dive chat, streamed as NDJSON
+//   POST   /api/images             image generation and editing
+//   POST   /api/videos             start a Veo job; POST /api/videos/status polls it
+//   GET    /api/videos/download    the finished video, fetched with the key
+//   POST   /api/files              upload a long recording (raw body) to the Files API
+//   DELETE /api/files?name=        delete it again
+//   POST   /api/local/chat/completions  MODEL_PROVIDER=local, passed through to LOCAL_MODEL_URL
+//   GET    /fetch?url=             linked articles for the study pipeline (see urlIngestion.ts)
+//
+// Every route needs the shared STUDYSIM_API_TOKEN in an X-StudySim-Token
+// header. The browser never holds it: the Vite dev and preview servers add it
+// when they proxy /api and /fetch (vite.config.ts). The server listens on
+// loopback only unless HOST says otherwise.
+//
+// Environment: GEMINI_API_KEY, STUDYSIM_API_TOKEN, HOST (127.0.0.1), PORT
+// (8787), ALLOWED_ORIGINS (comma-separated, for a dev server on another
+// origin), GEMINI_BASE_URL to talk to a mock upstream instead of Google (see
+// mockUpstream.js), and LOCAL_MODEL_URL / LOCAL_MODEL_API_KEY for the local
+// provider. Without a Gemini key only the local routes work.
+
+// The same .env.local the Vite dev server reads; real environment variables win
+try {
+    process.loadEnvFile(path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '.env.local'));
+} catch (e) {
+    // No .env.local: configured through the environment alone
+}
+
+const HOST = process.env.HOST || '127.0.0.1';
+const PORT = Number(process.env.PORT) || 8787;
+const API_TOKEN = process.env.STUDYSIM_API_TOKEN;
+const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const BASE_URL = process.env.GEMINI_BASE_URL;
+const LOCAL_MODEL_URL = (process.env.LOCAL_MODEL_URL || (process.env.MODEL_PROVIDER === 'local' ? 'http://localhost:11434/v1' : '')).replace(/\/+$/, '');
+const LOCAL_MODEL_API_KEY = process.env.LOCAL_MODEL_API_KEY;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim()).filter(Boolean);
+
+const TEXT_STAGES = new Set(['TRANSCRIBE', 'RESEARCH', 'ARCHITECT', 'NOTES', 'VERIFY', 'SIMULATOR', 'QUIZ', 'DEEP_DIVE']);
+const TEXT_MODEL = /^gemini-[\w.-]+$/;
+const IMAGE_MODEL = /^gemini-[\w.-]*image[\w.-]*$/;
+const VIDEO_MODEL = /^veo-[\w.-]+$/;
+// Ollama tags and Hugging Face paths, e.g. llama3.1:8b or org/model-GGUF
+const LOCAL_MODEL = /^[\w.:/@-]+$/;
+
+// Request bodies: prompts with inline images and source text, or a recording
+const MAX_JSON_BYTES = 40 * 1024 * 1024;
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+// Linked pages
+const MAX_PAGE_BYTES = 15 * 1024 * 1024;
+const PAGE_TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 5;
+
+if (!API_KEY && !BASE_URL && !LOCAL_MODEL_URL) {
+    console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+    process.exit(1);
+}
+if (!API_TOKEN) {
+    console.error('STUDYSIM_API_TOKEN is not set. Add a long random string to .env.local; the Vite dev server reads it from there too.');
+    process.exit(1);
+}
+
+const ai = API_KEY || BASE_URL
+    ? new GoogleGenAI({ apiKey: API_KEY || 'mock', ...(BASE_URL ? { httpOptions: { baseUrl: BASE_URL } } : {}) })
+    : null;
+
+// A server started for the local provider alone has no Gemini client
+const gemini = () => {
+    if (!ai) throw new HttpError(503, 'GEMINI_API_KEY is not set on the API server');
+    return ai;
+};
+
+// --- HTTP HELPERS ---
+const readBody = (req, limit) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > limit) {
+            reject(new HttpError(413, `Request body over ${Math.round(limit / 1024 / 1024)} MB`));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const readJson = async (req) => {
+    try {
+        return JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString('utf8') || '{}');
+    } catch (e) {
+        if (e instanceof HttpError) throw e;
+        throw new HttpError(400, 'Request body is not valid JSON');
+    }
+};
+
+const sendJson = (res, status, value) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(value));
+};
+
+// Upstream errors keep their status so the client's retry and fallback
+// logic (resilience.ts) treats them exactly as before.
+const errorStatus = (error) => {
+    const status = error?.status ?? error?.code;
+    return typeof status === 'number' && status >= 400 && status < 600 ? status : 500;
+};
+
+const sendError = (res, error) => {
+    if (res.headersSent) {
+        res.end(`${JSON.stringify({ error: error.message || String(error), status: errorStatus(error) })}\n`);
+        return;
+    }
+    sendJson(res, errorStatus(error), { error: error.message || String(error) });
+};
+
+// Aborted when the browser cancels the request
+const requestSignal = (req, res) => {
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+    return controller.signal;
+};
+
+const requireModel = (model, pattern) => {
+    if (typeof model !== 'string' || !pattern.test(model)) throw new HttpError(400, `Model not allowed: ${model}`);
+    return model;
+};
+
+const applyCors = (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && ALLOWED_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-File-Name, X-StudySim-Token');
+        res.setHeader('Vary', 'Origin');
+    }
+};
+
+// --- ACCESS CONTROL ---
+// Compared as hashes so neither the length nor the content leaks through timing.
+const digest = (value) => createHash('sha256').update(String(value)).digest();
+
+const requireToken = (req) => {
+    const token = req.headers['x-studysim-token'];
+    if (typeof token !== 'string' || !timingSafeEqual(digest(token), digest(API_TOKEN))) {
+        throw new HttpError(401, 'Missing or wrong X-StudySim-Token');
+    }
+    // The dev proxy adds the token to whatever reaches it, so requests a page
+    // on another site makes through the proxy are refused here.
+    const origin = req.headers.origin;
+    if (req.headers['sec-fetch-site'] === 'cross-site' && !(origin && ALLOWED_ORIGINS.includes(origin))) {
+        throw new HttpError(403, 'Cross-site requests are not allowed');
+    }
+};
+
+// --- TEXT STAGES & CHAT ---
+// One NDJSON line per streamed chunk: { text, usageMetadata?, groundingMetadata? }.
+const streamStage = async (req, res, stage) => {
+    if (!TEXT_STAGES.has(stage)) throw new HttpError(404, `Unknown stage: ${stage}`);
+    const { model, contents, config } = await readJson(req);
+    const signal = requestSignal(req, res);
+    const stream = await gemini().models.generateContentStream({
+        model: requireModel(model, TEXT_MODEL),
+        contents,
+        config: { ...config, abortSignal: signal }
+    });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    for await (const chunk of stream) {
+        res.write(`${JSON.stringify({
+            text: chunk.text || '',
+            usageMetadata: chunk.usageMetadata,
+            groundingMetadata: chunk.candidates?.[0]?.groundingMetadata
+        })}\n`);
+    }
+    res.end();
+};
+
+// --- IMAGES ---
+const generateImage = async (req, res) => {
+    const { model, contents, config } = await readJson(req);
+    const response = await gemini().models.generateContent({
+        model: requireModel(model, IMAGE_MODEL),
+        contents,
+        config: { ...config, abortSignal: requestSignal(req, res) }
+    });
+    sendJson(res, 200, { candidates: response.candidates, usageMetadata: response.usageMetadata });
+};
+
+// --- VIDEO ---
+const startVideo = async (req, res) => {
+    const { model, prompt, image, config } = await readJson(req);
+    const operation = await gemini().models.generateVideos({
+        model: requireModel(model, VIDEO_MODEL),
+        prompt,
+        ...(image ? { image } : {}),
+        config
+    });
+    sendJson(res, 200, { name: operation.name, done: !!operation.done, response: operation.response, error: operation.error });
+};
+
+const videoStatus = async (req, res) => {
+    const { name } = await readJson(req);
+    if (typeof name !== 'string' || !name) throw new HttpError(400, 'Missing operation name');
+    const pending = Object.assign(new GenerateVideosOperation(), { name });
+    const operation = await gemini().operations.getVideosOperation({ operation: pending });
+    sendJson(res, 200, { name: operation.name, done: !!operation.done, response: operation.response, error: operation.error });
+};
+
+// Only Gemini file URIs; the key is added here instead of in the browser.
+const downloadVideo = async (req, res, url) => {
+    const uri = url.searchParams.get('uri') || '';
+    const allowed = [BASE_URL, 'https://generativelanguage.googleapis.com/'].filter(Boolean);
+    if (!allowed.some(prefix => uri.startsWith(prefix))) throw new HttpError(400, 'Not a Gemini file URI');
+    const upstream = await fetch(`${uri}${uri.includes('?') ? '&' : '?'}key=${encodeURIComponent(API_KEY || '')}`, { signal: requestSignal(req, res) });
+    if (!upstream.ok || !upstream.body) throw new HttpError(upstream.status || 502, 'Failed to download the video');
+    res.writeHead(200, { 'Content-Type': upstream.headers.get('content-type') || 'video/mp4' });
+    for await (const chunk of upstream.body) res.write(chunk);
+    res.end();
+};
+
+// --- FILES ---
+// Waits until Gemini has processed the upload, so the client can use the
+// URI straight away.
+const uploadFile = async (req, res) => {
+    const mimeType = String(req.headers['content-type'] || 'application/octet-stream');
+    const displayName = req.headers['x-file-name'] ? decodeURIComponent(String(req.headers['x-file-name'])) : undefined;
+    const signal = requestSignal(req, res);
+    const body = await readBody(req, MAX_UPLOAD_BYTES);
+    let file = await gemini().files.upload({ file: new Blob([body], { type: mimeType }), config: { mimeType, displayName, abortSignal: signal } });
+    while (file.state === FileState.PROCESSING) {
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        if (signal.aborted) throw new HttpError(499, 'Upload cancelled');
+        file = await gemini().files.get({ name: file.name });
+    }
+    if (file.state === FileState.FAILED || !file.uri || !file.name) {
+        throw new HttpError(502, `Gemini could not process the upload${file.error?.message ? `: ${file.error.message}` : ''}`);
+    }
+    sendJson(res, 200, { name: file.name, uri: file.uri });
+};
+
+const deleteFile = async (req, res, url) => {
+    const name = url.searchParams.get('name');
+    if (!name || !/^files\/[\w-]+$/.test(name)) throw new HttpError(400, 'Invalid file name');
+    await gemini().files.delete({ name });
+    sendJson(res, 200, { deleted: name });
+};
+
+// --- LOCAL MODEL ---
+// The OpenAI-compatible server behind MODEL_PROVIDER=local. Its key stays
+// here like the Gemini one; the SSE stream is passed through untouched.
+const localCompletion = async (req, res) => {
+    if (!LOCAL_MODEL_URL) throw new HttpError(503, 'No local model server configured (set LOCAL_MODEL_URL)');
+    const body = await readJson(req);
+    requireModel(body.model, LOCAL_MODEL);
+    const upstream = await fetch(`${LOCAL_MODEL_URL}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(LOCAL_MODEL_API_KEY ? { 'Authorization': `Bearer ${LOCAL_MODEL_API_KEY}` } : {}) },
+        body: JSON.stringify(body),
+        signal: requestSignal(req, res)
+    }).catch(() => { throw new HttpError(502, `The local model server isn't reachable at ${LOCAL_MODEL_URL}`); });
+    res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'text/event-stream', 'Cache-Control': 'no-store' });
+    for await (const chunk of upstream.body || []) res.write(chunk);
+    res.end();
+};
+
+// --- LINKED PAGES ---
+// Answers with the page body, its Content-Type and its status, as
+// urlIngestion.ts expects. Only http(s) on public addresses, size-capped and
+// time-limited, so the route can't be used to reach this machine, the LAN or
+// cloud metadata endpoints (see publicAddress.js).
+
+const requestPage = (target, signal) => new Promise((resolve, reject) => {
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.get(target, {
+        lookup: publicLookup,
+        signal,
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; StudySim/2.0)',
+            'Accept': 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.5',
+            'Accept-Encoding': 'gzip, deflate, br'
+        }
+    }, resolve);
+    request.on('error', reject);
+});
+
+const DECODERS = { gzip: zlib.createGunzip, 'x-gzip': zlib.createGunzip, deflate: zlib.createInflate, br: zlib.createBrotliDecompress };
+
+// The size cap applies after decompression.
+const decodedBody = (upstream) => {
+    const decoder = DECODERS[String(upstream.headers['content-encoding'] || '').trim().toLowerCase()];
+    if (!decoder) return upstream;
+    const decoded = decoder();
+    upstream.on('error', error => decoded.destroy(error));
+    return upstream.pipe(decoded);
+};
+
+const fetchPage = async (req, res, url) => {
+    let target;
+    try {
+        target = new URL(url.searchParams.get('url') || '');
+    } catch (e) {
+        throw new HttpError(400, 'Invalid url');
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PAGE_TIMEOUT_MS);
+    res.on('close', () => controller.abort());
+    try {
+        // Redirects are followed by hand so every hop is checked again.
+        for (let hop = 0; ; hop++) {
+            checkPageUrl(target);
+            const upstream = await requestPage(target, controller.signal);
+            const location = upstream.headers.location;
+            if (upstream.statusCode >= 300 && upstream.statusCode < 400 && location) {
+                upstream.resume();
+                if (hop >= MAX_REDIRECTS) throw new HttpError(502, 'Too many redirects');
+                target = new URL(location, target);
+                continue;
+            }
+
+            const declared = Number(upstream.headers['content-length'] || 0);
+            if (declared > MAX_PAGE_BYTES) throw new HttpError(413, 'The page is too large');
+            const chunks = [];
+            let size = 0;
+            for await (const chunk of decodedBody(upstream)) {
+                size += chunk.length;
+                if (size > MAX_PAGE_BYTES) throw new HttpError(413, 'The page is too large');
+                chunks.push(chunk);
+            }
+            res.writeHead(upstream.statusCode || 502, { 'Content-Type': upstream.headers['content-type'] || 'application/octet-stream' });
+            res.end(Buffer.concat(chunks));
+            return;
+        }
+    } catch (e) {
+        if (e instanceof HttpError) throw e;
+        throw new HttpError(502, controller.signal.aborted ? 'The page took too long to respond' : `Could not reach ${target.host}`);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// --- ROUTER ---
+const route = async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const stage = url.pathname.match(/^\/api\/stages\/([A-Z_]+)$/);
+    if (!url.pathname.startsWith('/api/') && url.pathname !== '/fetch') throw new HttpError(404, 'Not found (the app is served by `npm run dev` or `npm run preview`)');
+    requireToken(req);
+
+    if (req.method === 'POST' && stage) return streamStage(req, res, stage[1]);
+    if (req.method === 'POST' && url.pathname === '/api/images') return generateImage(req, res);
+    if (req.method === 'POST' && url.pathname === '/api/videos') return startVideo(req, res);
+    if (req.method === 'POST' && url.pathname === '/api/videos/status') return videoStatus(req, res);
+    if (req.method === 'GET' && url.pathname === '/api/videos/download') return downloadVideo(req, res, url);
+    if (req.method === 'POST' && url.pathname === '/api/files') return uploadFile(req, res);
+    if (req.method === 'DELETE' && url.pathname === '/api/files') return deleteFile(req, res, url);
+    if (req.method === 'POST' && url.pathname === '/api/local/chat/completions') return localCompletion(req, res);
+    if (req.method === 'GET' && url.pathname === '/api/health') return sendJson(res, 200, { ok: true, upstream: BASE_URL || 'google' });
+    if (req.method === 'GET' && url.pathname === '/fetch') return fetchPage(req, res, url);
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+};
+
+const server = http.createServer((req, res) => {
+    applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    route(req, res).catch(error => {
+        if (!(error instanceof HttpError)) console.error(`${req.method} ${req.url}:`, error?.message || error);
+        sendError(res, error);
+    });
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`StudySim API on http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT}${BASE_URL ? ` (upstream: ${BASE_URL})` : ''}`);
+});
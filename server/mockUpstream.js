@@ -0,0 +1,122 @@
+
+import http from 'node:http';
+
+// --- MOCK GEMINI UPSTREAM ---
+// A stand-in for the Gemini REST API, for exercising the API server and the
+// whole pipeline without a key or spend:
+//
+//   npm run server:mock                                   (this, on :8788)
+//   GEMINI_BASE_URL=http://localhost:8788 npm run server  (the API server)
+//
+// Text answers are canned: requests with a response schema get the smallest
+// value that satisfies it, others get MOCK_TEXT. Images are a 1x1 PNG, videos
+// finish at once, and uploads are accepted and discarded.
+
+const PORT = Number(process.env.MOCK_PORT) || 8788;
+const BASE = `http://localhost:${PORT}`;
+const MOCK_TEXT = process.env.MOCK_TEXT || 'This is a mock response. Set MOCK_TEXT to change it.';
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+// Smallest value that passes validateAgainstSchema (structuredOutput.ts)
+const sampleFor = (schema = {}) => {
+    switch (String(schema.type || '').toUpperCase()) {
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) => [key, sampleFor(child)]));
+        case 'ARRAY':
+            return Array.from({ length: Math.max(1, schema.minItems || 0) }, () => sampleFor(schema.items));
+        case 'NUMBER':
+        case 'INTEGER':
+            return 0;
+        case 'BOOLEAN':
+            return false;
+        default:
+            return 'mock';
+    }
+};
+
+const answerFor = (body) => {
+    const config = body.generationConfig || {};
+    if (config.responseSchema) return JSON.stringify(sampleFor(config.responseSchema));
+    if (config.responseMimeType === 'application/json') return '{}';
+    return MOCK_TEXT;
+};
+
+const usage = (text) => ({ promptTokenCount: 100, candidatesTokenCount: Math.ceil(text.length / 4), totalTokenCount: 100 + Math.ceil(text.length / 4) });
+
+const candidate = (parts) => ({ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 });
+
+const mockFile = (name, mimeType) => ({ name, uri: `${BASE}/v1beta/${name}`, mimeType, state: 'ACTIVE', sizeBytes: '0' });
+
+const readJson = (req) => new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch (e) {
+            resolve({});
+        }
+    });
+});
+
+const sendJson = (res, status, value, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(value));
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', BASE);
+    const call = url.pathname.match(/^\/v1beta\/models\/([^/:]+):(\w+)$/);
+    const body = req.method === 'POST' ? await readJson(req) : {};
+    console.log(`${req.method} ${url.pathname}`);
+
+    if (call && call[2] === 'streamGenerateContent') {
+        // Two chunks, so streaming and token reporting are exercised
+        const text = answerFor(body);
+        const half = Math.ceil(text.length / 2);
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ candidates: [candidate([{ text: text.slice(0, half) }])] })}\r\n\r\n`);
+        res.end(`data: ${JSON.stringify({ candidates: [candidate([{ text: text.slice(half) }])], usageMetadata: usage(text) })}\r\n\r\n`);
+        return;
+    }
+    if (call && call[2] === 'generateContent') {
+        const parts = call[1].includes('image') ? [{ inlineData: { mimeType: 'image/png', data: PIXEL_PNG } }] : [{ text: answerFor(body) }];
+        sendJson(res, 200, { candidates: [candidate(parts)], usageMetadata: usage('') });
+        return;
+    }
+    if (call && call[2] === 'predictLongRunning') {
+        sendJson(res, 200, { name: `models/${call[1]}/operations/mock-video`, done: false });
+        return;
+    }
+    if (req.method === 'GET' && /\/operations\/mock-video$/.test(url.pathname)) {
+        sendJson(res, 200, {
+            name: url.pathname.replace(/^\/v1beta\//, ''),
+            done: true,
+            response: { generateVideoResponse: { generatedSamples: [{ video: { uri: `${BASE}/v1beta/files/mock-video:download?alt=media` } }] } }
+        });
+        return;
+    }
+    if (req.method === 'GET' && url.pathname === '/v1beta/files/mock-video:download') {
+        res.writeHead(200, { 'Content-Type': 'video/mp4' });
+        res.end(Buffer.alloc(16));
+        return;
+    }
+    // Resumable upload: the start request gets an upload URL, the finalize request the file
+    if (req.method === 'POST' && url.pathname === '/upload/v1beta/files') {
+        const mimeType = String(req.headers['x-goog-upload-header-content-type'] || body.file?.mimeType || 'application/octet-stream');
+        res.writeHead(200, { 'X-Goog-Upload-URL': `${BASE}/upload/mock-session?mimeType=${encodeURIComponent(mimeType)}`, 'Content-Type': 'application/json' });
+        res.end('{}');
+        return;
+    }
+    if (req.method === 'POST' && url.pathname === '/upload/mock-session') {
+        sendJson(res, 200, { file: mockFile('files/mock-upload', url.searchParams.get('mimeType') || 'application/octet-stream') }, { 'X-Goog-Upload-Status': 'final' });
+        return;
+    }
+    if (url.pathname === '/v1beta/files/mock-upload') {
+        sendJson(res, 200, req.method === 'DELETE' ? {} : mockFile('files/mock-upload', 'application/octet-stream'));
+        return;
+    }
+    sendJson(res, 404, { error: { code: 404, message: `The mock has no route for ${req.method} ${url.pathname}`, status: 'NOT_FOUND' } });
+});
+
+server.listen(PORT, () => console.log(`Mock Gemini upstream on ${BASE}`));
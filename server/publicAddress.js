@@ -0,0 +1,42 @@
+
+import net from 'node:net';
+import { lookup as dnsLookup } from 'node:dns';
+import { HttpError } from './httpError.js';
+
+// --- PUBLIC ADDRESSES ONLY ---
+// The /fetch route reads pages for the browser, so it must never become a way
+// into this machine, the LAN or a cloud metadata endpoint. Every hop's URL goes
+// through checkPageUrl and every connection resolves through publicLookup.
+
+// Loopback, private, link-local (169.254.169.254 included), CGNAT, multicast
+// and reserved ranges, plus IPv4-compatible and NAT64 IPv6. IPv4-mapped IPv6
+// (::ffff:10.0.0.1) is checked against the IPv4 ranges by BlockList itself; a
+// ::ffff:0:0/96 rule would match every IPv4 address.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3]]
+    .forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[['::', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]]
+    .forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+export const isBlockedAddress = (address) => BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Used as the socket's DNS lookup, so the address that is checked is the one
+// connected to (a second, rebound answer can't slip past).
+export const publicLookup = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (addresses.length === 0 || addresses.some(a => isBlockedAddress(a.address))) {
+            return callback(new HttpError(403, `${hostname} is not a public address`));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+// Literal IP hosts never reach the lookup, so they are checked here.
+export const checkPageUrl = (target) => {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') throw new HttpError(400, 'Only http and https links can be fetched');
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isBlockedAddress(host)) throw new HttpError(403, `${target.host} is not a public address`);
+};
@@ -0,0 +1,64 @@
+
+import { describe, expect, it } from 'vitest';
+import { checkPageUrl, isBlockedAddress, publicLookup } from './publicAddress.js';
+
+const lookup = (hostname, options = {}) => new Promise((resolve, reject) =>
+    publicLookup(hostname, options, (error, address, family) => error ? reject(error) : resolve({ address, family })));
+
+describe('isBlockedAddress', () => {
+    it('blocks loopback, private, link-local and CGNAT IPv4', () => {
+        ['127.0.0.1', '10.0.0.1', '172.16.5.4', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']
+            .forEach(address => expect(isBlockedAddress(address), address).toBe(true));
+    });
+
+    it('blocks IPv6 loopback, unique-local and link-local', () => {
+        ['::1', '::', 'fd00::1', 'fe80::1'].forEach(address => expect(isBlockedAddress(address), address).toBe(true));
+    });
+
+    it('blocks private IPv4 wrapped in IPv6', () => {
+        ['::ffff:10.0.0.1', '::ffff:127.0.0.1', '::127.0.0.1', '64:ff9b::a9fe:a9fe']
+            .forEach(address => expect(isBlockedAddress(address), address).toBe(true));
+    });
+
+    it('allows public addresses', () => {
+        ['93.184.216.34', '8.8.8.8', '::ffff:93.184.216.34', '2606:4700:4700::1111']
+            .forEach(address => expect(isBlockedAddress(address), address).toBe(false));
+    });
+});
+
+describe('checkPageUrl', () => {
+    const status = (url) => {
+        try {
+            checkPageUrl(new URL(url));
+            return 'ok';
+        } catch (e) {
+            return e.status;
+        }
+    };
+
+    it('refuses literal private hosts, however they are written', () => {
+        ['http://127.0.0.1/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]:8787/api', 'http://[::ffff:10.0.0.1]/',
+            'http://0x7f.1/', 'http://2130706433/', 'http://10.1/']
+            .forEach(url => expect(status(url), url).toBe(403));
+    });
+
+    it('refuses schemes other than http and https', () => {
+        ['file:///etc/passwd', 'ftp://example.com/', 'gopher://example.com/'].forEach(url => expect(status(url), url).toBe(400));
+    });
+
+    it('leaves public IPs and host names to the lookup', () => {
+        expect(status('https://93.184.216.34/page')).toBe('ok');
+        expect(status('https://en.wikipedia.org/wiki/Mercury_(planet)')).toBe('ok');
+    });
+});
+
+describe('publicLookup', () => {
+    it('refuses host names that resolve to a private address', async () => {
+        await expect(lookup('localhost')).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('resolves names that are public', async () => {
+        // Resolved by the resolver itself, so it needs no network
+        await expect(lookup('93.184.216.34')).resolves.toEqual({ address: '93.184.216.34', family: 4 });
+    });
+});
@@ -0,0 +1,106 @@
+
+// --- API SERVER CLIENT ---
+// Gemini calls go through the StudySim API server (server/index.js), which
+// holds the key; nothing secret is bundled into the app. Vite's dev and
+// preview servers proxy /api to it and add its access token. Set API_BASE_URL
+// when the server sits behind another proxy that adds the token.
+
+export const API_BASE_URL = (process.env.API_BASE_URL || '/api').replace(/\/+$/, '');
+
+// What the server returns for a Veo job (see /api/videos)
+export interface VideoOperation {
+    name: string;
+    done: boolean;
+    response?: { generatedVideos?: { video?: { uri?: string } }[] };
+    error?: { message?: string };
+}
+
+// Keeps the upstream status, both on the error and in its message, so the
+// resilience layer still tells 429/5xx from 404 and 400.
+const requestError = (status: number, message: string) =>
+    Object.assign(new Error(`StudySim API request failed (${status}): ${message}`), { status });
+
+const failedResponse = async (res: Response) => {
+    const body = await res.text().catch(() => '');
+    let message = body;
+    try {
+        message = JSON.parse(body).error || body;
+    } catch {
+        // Not JSON (e.g. a proxy error page)
+    }
+    return requestError(res.status, message || res.statusText);
+};
+
+const send = async (path: string, init: RequestInit): Promise<Response> => {
+    const res = await fetch(`${API_BASE_URL}${path}`, init);
+    if (!res.ok) throw await failedResponse(res);
+    return res;
+};
+
+export const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const res = await send(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+    });
+    return res.json();
+};
+
+// Reads a newline-delimited JSON stream, one callback per line. A line with
+// an `error` field means the upstream failed part-way through.
+export const streamNdjson = async (
+    path: string,
+    body: unknown,
+    signal: AbortSignal | undefined,
+    onLine: (line: any) => void
+): Promise<void> => {
+    const res = await send(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+    });
+    if (!res.body) throw requestError(502, 'Empty response stream');
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const handle = (raw: string) => {
+        if (!raw.trim()) return;
+        const line = JSON.parse(raw);
+        if (line.error) throw requestError(line.status || 500, line.error);
+        onLine(line);
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+        lines.forEach(handle);
+    }
+    handle(buffer + decoder.decode());
+};
+
+// The server waits until Gemini has processed the file before answering.
+export const uploadFile = async (blob: Blob, mimeType: string, name?: string, signal?: AbortSignal): Promise<{ name: string; uri: string }> => {
+    const res = await send('/files', {
+        method: 'POST',
+        headers: { 'Content-Type': mimeType, ...(name ? { 'X-File-Name': encodeURIComponent(name) } : {}) },
+        body: blob,
+        signal
+    });
+    return res.json();
+};
+
+export const deleteFile = async (name: string): Promise<void> => {
+    await send(`/files?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+};
+
+// Generated videos are only downloadable with the key, so the server fetches them.
+export const downloadVideo = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+    const res = await send(`/videos/download?uri=${encodeURIComponent(uri)}`, { signal });
+    return res.blob();
+};
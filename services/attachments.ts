@@ -0,0 +1,180 @@
+
+import { AttachmentKind, AttachmentSummary, StudyAttachment, Transcript } from '../types';
+import { throwIfAborted, isAbortError } from './cancellation';
+import { canExtractText, extractDocument, formatDocument } from './documentExtraction';
+import { transcriptToDocument } from './transcription';
+
+// --- ATTACHMENTS ---
+// Every file on the input card is turned into something the model can use:
+// PDFs, Word and text files are extracted locally (see documentExtraction.ts),
+// audio is transcribed (see transcription.ts), other media the active
+// provider can read is sent inline, and anything else is
+// reported as skipped with a reason. The same assessment drives the status
+// chips, so what the chips promise is what the Architect stage receives.
+
+// Gemini rejects inline requests over 20 MB; base64 adds a third on top.
+export const INLINE_BUDGET_BYTES = 18 * 1024 * 1024;
+
+// Longer recordings are uploaded rather than sent inline (Gemini Files API limit).
+export const UPLOAD_LIMIT_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Extracted text per file in the Architect prompt; the full text is kept
+// with the session.
+export const ATTACHMENT_CHAR_LIMIT = 60000;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    json: 'application/json',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml'];
+
+// Browsers leave `type` empty for many extensions (.md, sometimes .docx).
+export const attachmentMimeType = (file: File): string => {
+    if (file.type) return file.type;
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return EXTENSION_MIME_TYPES[extension] || 'application/octet-stream';
+};
+
+export const classifyAttachment = (mimeType: string): AttachmentKind => {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType)) return 'text';
+    if (mimeType.includes('word') || mimeType.includes('officedocument')) return 'document';
+    return 'other';
+};
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+    image: 'Image',
+    video: 'Video',
+    audio: 'Audio',
+    pdf: 'PDF',
+    document: 'Document',
+    text: 'Text',
+    web: 'Web page',
+    other: 'File'
+};
+
+// What the active provider can do with a file
+export interface AttachmentCapabilities {
+    canReadInline: (mimeType: string) => boolean;
+    // Absent when the provider can't transcribe audio
+    transcribe?: (audio: StudyAttachment) => Promise<Transcript>;
+}
+
+const encodedSize = (bytes: number) => Math.ceil(bytes / 3) * 4;
+
+const budgetNote = () => `Over the ${Math.round(INLINE_BUDGET_BYTES / 1024 / 1024)} MB attachment limit`;
+
+// Decides how each file will be used without reading it. Inline files are
+// admitted in order until the request budget is spent; each recording is
+// transcribed in its own request, uploaded when too large to send inline.
+export const assessAttachments = (files: File[], { canReadInline, transcribe }: AttachmentCapabilities): AttachmentSummary[] => {
+    let inlineBytes = 0;
+    return files.map(file => {
+        const mimeType = attachmentMimeType(file);
+        const kind = classifyAttachment(mimeType);
+        const summary: AttachmentSummary = { name: file.name, mimeType, sizeBytes: file.size, kind, status: 'skipped' };
+
+        if (canExtractText(mimeType, kind)) return { ...summary, status: 'text' };
+        if (kind === 'audio' && transcribe) {
+            return file.size > UPLOAD_LIMIT_BYTES ? { ...summary, note: 'Over the 2 GB recording limit' } : { ...summary, status: 'text' };
+        }
+        if (kind === 'document') return { ...summary, note: 'Legacy .doc files can\'t be read; save it as .docx or PDF' };
+        if (kind === 'other') return { ...summary, note: 'Unsupported file type' };
+        if (!canReadInline(mimeType)) return { ...summary, note: `The active model can't read ${ATTACHMENT_KIND_LABELS[kind].toLowerCase()} files` };
+
+        const encodedBytes = encodedSize(file.size);
+        if (inlineBytes + encodedBytes > INLINE_BUDGET_BYTES) return { ...summary, note: budgetNote() };
+        inlineBytes += encodedBytes;
+        return { ...summary, status: 'inline' };
+    });
+};
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const SECTION_NOUNS: Partial<Record<AttachmentKind, string>> = { pdf: 'page' };
+
+// Reads the files the assessment admitted. A file that fails to read is
+// marked 'failed' rather than failing the whole study run. A PDF without a
+// text layer (a scan) is sent inline instead when the provider can read it.
+export const ingestAttachments = async (
+    files: File[],
+    capabilities: AttachmentCapabilities,
+    signal?: AbortSignal
+): Promise<StudyAttachment[]> => {
+    const { canReadInline, transcribe } = capabilities;
+    const summaries = assessAttachments(files, capabilities);
+    let inlineBytes = summaries.reduce((sum, a) => sum + (a.status === 'inline' ? encodedSize(a.sizeBytes) : 0), 0);
+    const attachments: StudyAttachment[] = [];
+    for (let i = 0; i < files.length; i++) {
+        throwIfAborted(signal);
+        const summary = summaries[i];
+        try {
+            if (summary.status === 'inline') {
+                attachments.push({ ...summary, data: await readAsBase64(files[i]) });
+            } else if (summary.status === 'text' && summary.kind === 'audio' && transcribe) {
+                const audio: StudyAttachment = encodedSize(summary.sizeBytes) <= INLINE_BUDGET_BYTES
+                    ? { ...summary, data: await readAsBase64(files[i]) }
+                    : { ...summary, blob: files[i] };
+                const transcript = await transcribe(audio);
+                const count = transcript.segments.length;
+                attachments.push({ ...summary, transcript, document: transcriptToDocument(transcript), note: `Transcribed, ${count} topic${count === 1 ? '' : 's'}` });
+            } else if (summary.status === 'text') {
+                const document = await extractDocument(files[i], summary.mimeType, summary.kind, signal);
+                const count = document.sections.length;
+                const encodedBytes = encodedSize(summary.sizeBytes);
+                if (count > 0) {
+                    const noun = SECTION_NOUNS[summary.kind] || 'section';
+                    attachments.push({ ...summary, document, note: `${count} ${noun}${count === 1 ? '' : 's'} extracted` });
+                } else if (summary.kind === 'pdf' && canReadInline(summary.mimeType) && inlineBytes + encodedBytes <= INLINE_BUDGET_BYTES) {
+                    inlineBytes += encodedBytes;
+                    attachments.push({ ...summary, status: 'inline', data: await readAsBase64(files[i]), note: 'No text layer; sent as a file' });
+                } else {
+                    attachments.push({ ...summary, status: 'skipped', note: 'No text found (scanned document?)' });
+                }
+            } else {
+                attachments.push(summary);
+            }
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn(`Could not read attachment ${summary.name}`, e);
+            attachments.push({ ...summary, status: 'failed', note: (e as Error)?.message || 'Could not be read' });
+        }
+    }
+    throwIfAborted(signal);
+    return attachments;
+};
+
+// Drops file contents so the result can be saved with the session.
+export const summarizeAttachments = (attachments: StudyAttachment[]): AttachmentSummary[] =>
+    attachments.map(({ data: _data, blob: _blob, document: _document, transcript: _transcript, ...summary }) => summary);
+
+// --- PROMPT TEXT ---
+// Tells the model what was attached, including files it won't see, so the
+// plan can acknowledge them instead of silently ignoring them.
+export const describeAttachments = (attachments: AttachmentSummary[]): string => {
+    if (attachments.length === 0) return '';
+    const lines = attachments.map(a => {
+        const usage = a.status === 'inline' ? 'attached as a file'
+            : a.status === 'text' ? 'extracted text included, cite as [file anchor]'
+            : `not available: ${a.note || a.status}`;
+        return `- ${a.name} (${ATTACHMENT_KIND_LABELS[a.kind]}, ${usage})`;
+    });
+    return `ATTACHED FILES (use them as primary source material):\n${lines.join('\n')}`;
+};
+
+export const formatTextAttachment = (attachment: StudyAttachment) =>
+    attachment.document ? formatDocument(attachment.document, ATTACHMENT_CHAR_LIMIT) : '';
@@ -0,0 +1,27 @@
+
+// --- CANCELLATION ---
+// Every service call takes an optional AbortSignal. Aborts surface as a
+// DOMException named "AbortError", the same thing fetch and the Gemini SDK throw.
+
+export const createAbortError = () => new DOMException("Generation cancelled", "AbortError");
+
+export const isAbortError = (error: any): boolean =>
+    error?.name === 'AbortError' || (error instanceof DOMException && error.code === DOMException.ABORT_ERR);
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout that wakes up early (and rejects) when the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,61 @@
+
+import { describe, expect, it } from 'vitest';
+import { chunkDocuments, chunkMarkdown, packChunks } from './chunking';
+
+describe('chunkMarkdown', () => {
+    it('starts a chunk at every heading and records the heading path', () => {
+        const chunks = chunkMarkdown('# Waves\nIntro.\n\n## Sound\nLongitudinal.\n\n### Pitch\nFrequency.\n\n## Light\nTransverse.');
+        expect(chunks.map(c => c.path)).toEqual(['Waves', 'Waves › Sound', 'Waves › Sound › Pitch', 'Waves › Light']);
+        expect(chunks[1].text).toBe('## Sound\n\nLongitudinal.');
+        expect(chunks.map(c => c.index)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('strips emphasis from heading paths', () => {
+        expect(chunkMarkdown('## **Bold** `code`\nText.')[0].path).toBe('Bold code');
+    });
+
+    it('splits long sections between paragraphs and marks the continuation', () => {
+        const paragraph = 'x'.repeat(60);
+        const chunks = chunkMarkdown(`## Long\n${paragraph}\n\n${paragraph}\n\n${paragraph}`, 150);
+        expect(chunks).toHaveLength(2);
+        expect(chunks[0].text).toBe(`## Long\n\n${paragraph}\n\n${paragraph}`);
+        expect(chunks[1].text).toBe(`(Long, continued)\n\n${paragraph}`);
+    });
+
+    it('never leaves a heading alone at the end of a chunk', () => {
+        const chunks = chunkMarkdown(`## Heading\n${'y'.repeat(200)}`, 100);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].text.startsWith('## Heading\n\ny')).toBe(true);
+    });
+
+    it('keeps code fences and display math whole and ignores headings inside them', () => {
+        const markdown = '## Code\n```\n# not a heading\n\nstill code\n```\n\n$$\n# x = 1\n\ny = 2\n$$';
+        const chunks = chunkMarkdown(markdown);
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0].path).toBe('Code');
+        expect(chunks[0].text).toContain('# not a heading\n\nstill code');
+        expect(chunks[0].text).toContain('$$\n# x = 1\n\ny = 2\n$$');
+    });
+
+    it('cuts a single oversized line between sentences', () => {
+        const chunks = chunkMarkdown('First sentence here. Second sentence here. Third sentence here.', 45);
+        expect(chunks.map(c => c.text)).toEqual(['First sentence here.\nSecond sentence here.', 'Third sentence here.']);
+    });
+});
+
+describe('chunkDocuments', () => {
+    it('tags each section with its citation', () => {
+        const chunks = chunkDocuments([{ name: 'notes.pdf', kind: 'pdf', sections: [{ anchor: 'p.1', text: 'One.' }, { anchor: 'p.2', text: 'Two.' }] }]);
+        expect(chunks).toEqual([
+            { path: 'notes.pdf p.1', text: '[notes.pdf p.1]\nOne.', index: 0 },
+            { path: 'notes.pdf p.2', text: '[notes.pdf p.2]\nTwo.', index: 1 }
+        ]);
+    });
+});
+
+describe('packChunks', () => {
+    it('groups consecutive chunks up to the limit', () => {
+        const chunks = ['aaaa', 'bbbb', 'cccccccccc'].map((text, index) => ({ path: '', text, index }));
+        expect(packChunks(chunks, 10)).toEqual(['aaaa\n\nbbbb', 'cccccccccc']);
+    });
+});
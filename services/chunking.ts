@@ -0,0 +1,147 @@
+
+import { ExtractedDocument } from '../types';
+
+// --- CHUNKING ---
+// Long notes and sources are split along their markdown structure (headings,
+// then paragraphs) rather than at fixed character counts, so no chunk starts
+// mid-sentence or mid-formula. Tasks then either work through every chunk
+// and combine the results (the quiz, see geminiService.ts) or index them for
+// retrieval (Deep Dive, see retrievalIndex.ts).
+
+export interface MarkdownChunk {
+    // Headings above and including the chunk's own, e.g. "Kinematics › Projectile Motion"
+    path: string;
+    text: string;
+    // Position in the source, so selections can be put back in reading order
+    index: number;
+}
+
+// Upper bound per chunk; a longer section is split between paragraphs.
+export const CHUNK_CHAR_LIMIT = 4000;
+
+const PATH_SEPARATOR = ' › ';
+
+interface Section {
+    path: string;
+    blocks: string[];
+}
+
+// Sections by heading, each a list of paragraph blocks. Code fences and $$
+// display math are kept whole and never scanned for headings.
+const splitSections = (markdown: string): Section[] => {
+    const sections: Section[] = [];
+    const headings: string[] = [];
+    let section: Section = { path: '', blocks: [] };
+    let block: string[] = [];
+    let fence: string | null = null;
+    let inMath = false;
+
+    const closeBlock = () => {
+        if (block.some(line => line.trim())) section.blocks.push(block.join('\n').trim());
+        block = [];
+    };
+
+    markdown.split(/\r?\n/).forEach(line => {
+        const trimmed = line.trim();
+        if (fence) {
+            block.push(line);
+            if (trimmed.startsWith(fence)) fence = null;
+            return;
+        }
+        const fenceOpen = trimmed.match(/^(```|~~~)/);
+        if (fenceOpen) {
+            fence = fenceOpen[1];
+            block.push(line);
+            return;
+        }
+        if (trimmed === '$$') {
+            inMath = !inMath;
+            block.push(line);
+            return;
+        }
+        const heading = inMath ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            closeBlock();
+            if (section.blocks.length > 0) sections.push(section);
+            const level = heading[1].length;
+            headings.length = level - 1;
+            headings[level - 1] = heading[2].replace(/[*_`]/g, '');
+            section = { path: headings.filter(Boolean).join(PATH_SEPARATOR), blocks: [line] };
+            return;
+        }
+        if (!trimmed && !inMath) closeBlock();
+        else block.push(line);
+    });
+    closeBlock();
+    if (section.blocks.length > 0) sections.push(section);
+    return sections;
+};
+
+// A single paragraph over the limit (a long table or code listing) is cut at
+// line breaks, and a single line over it between sentences.
+const splitOversizedBlock = (block: string, maxChars: number): string[] => {
+    if (block.length <= maxChars) return [block];
+    const pieces = block.split('\n').flatMap(line => line.length <= maxChars ? [line] : line.split(/(?<=[.!?])\s+/));
+    const parts: string[] = [];
+    let current = '';
+    pieces.forEach(piece => {
+        if (current && current.length + piece.length + 1 > maxChars) {
+            parts.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${piece}` : piece;
+    });
+    if (current) parts.push(current);
+    return parts;
+};
+
+export const chunkMarkdown = (markdown: string, maxChars: number = CHUNK_CHAR_LIMIT): MarkdownChunk[] => {
+    const chunks: MarkdownChunk[] = [];
+    splitSections(markdown).forEach(({ path, blocks }) => {
+        let current = '';
+        // A heading is never left on its own at the end of a chunk.
+        let hasBody = false;
+        const flush = () => {
+            if (!current.trim()) return;
+            // Continuations restate where they are in the guide.
+            const continued = chunks.length > 0 && chunks[chunks.length - 1].path === path && path;
+            chunks.push({ path, text: continued ? `(${path}, continued)\n\n${current}` : current, index: chunks.length });
+            current = '';
+            hasBody = false;
+        };
+        blocks.flatMap(block => splitOversizedBlock(block, maxChars)).forEach((block, i) => {
+            if (hasBody && current.length + block.length + 2 > maxChars) flush();
+            current = current ? `${current}\n\n${block}` : block;
+            hasBody = hasBody || i > 0 || !path;
+        });
+        flush();
+    });
+    return chunks;
+};
+
+// Extracted sections (pages, headings, transcript topics) are already
+// structural; each is tagged with its citation.
+export const chunkDocuments = (documents: ExtractedDocument[], maxChars: number = CHUNK_CHAR_LIMIT): MarkdownChunk[] =>
+    documents.flatMap(doc => doc.sections.flatMap(section => {
+        const path = `${doc.name} ${section.anchor}`;
+        return splitOversizedBlock(section.text, maxChars).map(text => ({ path, text: `[${path}]\n${text}` }));
+    })).map((chunk, index) => ({ ...chunk, index }));
+
+// Consecutive chunks packed into groups of at most `maxChars` (one chunk may
+// exceed it on its own); each group is one map step.
+export const packChunks = (chunks: MarkdownChunk[], maxChars: number): string[] => {
+    const groups: string[] = [];
+    let current = '';
+    chunks.forEach(chunk => {
+        if (current && current.length + chunk.text.length + 2 > maxChars) {
+            groups.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${chunk.text}` : chunk.text;
+    });
+    if (current) groups.push(current);
+    return groups;
+};
+
+export const outlineChunks = (chunks: MarkdownChunk[]): string =>
+    Array.from(new Set(chunks.map(c => c.path).filter(Boolean))).map(path => `- ${path}`).join('\n');
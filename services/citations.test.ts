@@ -0,0 +1,56 @@
+
+import { describe, expect, it } from 'vitest';
+import { buildReferences, citedReferences, findCitations, parseCitations } from './citations';
+
+describe('parseCitations', () => {
+    it('reads plain markers and markers with an anchor', () => {
+        expect(parseCitations('Gravity is 9.8 m/s² [1]. See the lab sheet [2, p.12] and [3,§ Setup].')).toEqual([
+            { id: 1, anchor: undefined },
+            { id: 2, anchor: 'p.12' },
+            { id: 3, anchor: '§ Setup' }
+        ]);
+    });
+
+    it('skips markdown links and bracketed words', () => {
+        expect(parseCitations('[1](https://example.com) [see above] [1234]')).toEqual([]);
+    });
+
+    it('ignores indexes inside inline code and fenced code', () => {
+        expect(parseCitations('Use `values[1]` here [2].\n```js\nconst x = a[3];\n```')).toEqual([{ id: 2, anchor: undefined }]);
+    });
+
+    it('ignores indexes inside inline and display math', () => {
+        expect(parseCitations('The term $x[1]$ grows [4].\n$$\ny[2] = 0\n$$')).toEqual([{ id: 4, anchor: undefined }]);
+    });
+
+    it('still finds markers after an unpaired dollar sign on another line', () => {
+        expect(parseCitations('It costs $5.\nSpeed of light [1].')).toEqual([{ id: 1, anchor: undefined }]);
+    });
+});
+
+describe('findCitations', () => {
+    it('reports where each marker sits', () => {
+        const text = 'A claim [2, p.3].';
+        const [match] = findCitations(text);
+        expect(text.slice(match.index, match.index + match.length)).toBe('[2, p.3]');
+    });
+});
+
+describe('citedReferences', () => {
+    const references = buildReferences(
+        [{ title: 'NASA', uri: 'https://nasa.gov' }, { title: 'NASA again', uri: 'https://nasa.gov' }, { title: 'ESA', uri: 'https://esa.int' }],
+        [{ name: 'lecture.pdf', kind: 'pdf', sections: [] }]
+    );
+
+    it('numbers unique web sources first, then documents', () => {
+        expect(references.map(r => `${r.id} ${r.title}`)).toEqual(['1 NASA', '2 ESA', '3 lecture.pdf']);
+    });
+
+    it('keeps only the cited references', () => {
+        expect(citedReferences('Orbit [3, p.2] and `a[1]`', references).map(r => r.id)).toEqual([3]);
+    });
+
+    it('lists every reference when the notes cite none', () => {
+        expect(citedReferences('No markers here.', references)).toHaveLength(3);
+    });
+});
@@ -0,0 +1,69 @@
+
+import { ExtractedDocument, StudyReference } from '../types';
+
+// --- CITATIONS ---
+// The study guide cites its sources with numbered markers: "[2]" for a web
+// source found during research, "[4, p.12]" for a page or section of an
+// uploaded document. The numbers index the references built here, which are
+// saved with the result so the notes can show hover cards and a References
+// section.
+
+export interface SourceLink {
+    title: string;
+    uri: string;
+}
+
+export interface CitationMark {
+    id: number;
+    // Page, section or timestamp within a document, e.g. "p.12"
+    anchor?: string;
+}
+
+// Web sources first (fetched pages among them), then uploaded files. A
+// fetched page is also an extracted document; it keeps its web number.
+export const buildReferences = (sources: SourceLink[] = [], documents: ExtractedDocument[] = []): StudyReference[] => {
+    const references: StudyReference[] = [];
+    sources.forEach(source => {
+        if (references.some(r => r.uri === source.uri)) return;
+        references.push({ id: references.length + 1, kind: 'web', title: source.title || source.uri, uri: source.uri });
+    });
+    documents.forEach(doc => {
+        if (references.some(r => r.title === doc.name)) return;
+        references.push({ id: references.length + 1, kind: 'document', title: doc.name });
+    });
+    return references;
+};
+
+// Prompt text: one numbered line per reference
+export const formatReferenceList = (references: StudyReference[]): string =>
+    references.map(r => `[${r.id}] ${r.title}${r.uri ? ` — ${r.uri}` : ' (uploaded document; add the page or section)'}`).join('\n');
+
+// "[3]" or "[3, p.12]"; a following "(" would make it a markdown link.
+const CITATION_PATTERN = /\[(\d{1,3})(?:,\s*([^\][]{1,40}))?\](?!\()/g;
+
+// Code and math, where "[1]" is an index (`arr[1]`, $x[1]$) rather than a citation
+const LITERAL_PATTERN = /```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g;
+
+export interface CitationMatch extends CitationMark {
+    // Where the marker sits in the text, so it can be replaced
+    index: number;
+    length: number;
+}
+
+export const findCitations = (text: string): CitationMatch[] => {
+    const literals = Array.from(text.matchAll(LITERAL_PATTERN), m => [m.index!, m.index! + m[0].length]);
+    return Array.from(text.matchAll(CITATION_PATTERN))
+        .filter(m => !literals.some(([start, end]) => m.index! >= start && m.index! < end))
+        .map(m => ({ id: Number(m[1]), anchor: m[2]?.trim(), index: m.index!, length: m[0].length }));
+};
+
+export const parseCitations = (text: string): CitationMark[] =>
+    findCitations(text).map(({ id, anchor }) => ({ id, anchor }));
+
+// The references the notes actually cite, in number order. Notes without
+// any marker (older sessions, or a model that ignored the instruction) list
+// every reference so the sources are still shown.
+export const citedReferences = (markdown: string, references: StudyReference[]): StudyReference[] => {
+    const cited = new Set(parseCitations(markdown).map(c => c.id));
+    return cited.size > 0 ? references.filter(r => cited.has(r.id)) : references;
+};
@@ -0,0 +1,170 @@
+
+import { AttachmentKind, DocumentSection, ExtractedDocument } from '../types';
+import { throwIfAborted } from './cancellation';
+import { idbGet, idbPut, idbDelete } from './idb';
+
+// --- DOCUMENT EXTRACTION ---
+// PDFs, Word documents and text files are turned into text locally, split
+// into sections with anchors the model can cite: "p.12" for PDF pages,
+// "§ Heading" for DOCX and Markdown headings, "lines 1-80" for plain text.
+// The parsers are loaded on first use so they stay out of the main bundle.
+
+export class DocumentExtractionError extends Error {
+    constructor(public readonly fileName: string, message: string) {
+        super(message);
+        this.name = 'DocumentExtractionError';
+    }
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Plain text without headings is cut into sections of this many lines.
+const TEXT_SECTION_LINES = 80;
+
+export const canExtractText = (mimeType: string, kind: AttachmentKind) =>
+    kind === 'text' || kind === 'pdf' || mimeType === DOCX_MIME_TYPE;
+
+export const normalizeText = (text: string) => text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+export const headingAnchor = (heading: string) => `§ ${heading.length > 60 ? `${heading.slice(0, 57)}...` : heading}`;
+
+// --- PDF ---
+const extractPdf = async (file: File, signal?: AbortSignal): Promise<DocumentSection[]> => {
+    // The worker is bundled as an asset, so PDFs also open offline
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]);
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const sections: DocumentSection[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            throwIfAborted(signal);
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const text = content.items
+                .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+                .join('');
+            if (text.trim()) sections.push({ anchor: `p.${pageNumber}`, text: normalizeText(text) });
+        }
+        return sections;
+    } finally {
+        pdf.destroy();
+    }
+};
+
+// --- DOCX ---
+// Reads word/document.xml directly; a new section starts at every Heading
+// or Title paragraph.
+const extractDocx = async (file: File): Promise<DocumentSection[]> => {
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const xml = await zip.file('word/document.xml')?.async('string');
+    if (!xml) throw new DocumentExtractionError(file.name, 'Not a Word document (word/document.xml is missing)');
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const sections: DocumentSection[] = [];
+    let current: DocumentSection = { anchor: '§ Start', text: '' };
+
+    Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).forEach(paragraph => {
+        let text = '';
+        paragraph.querySelectorAll('*').forEach(node => {
+            if (node.namespaceURI !== WORD_NS) return;
+            if (node.localName === 't') text += node.textContent || '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br') text += '\n';
+        });
+        const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') || '';
+        if (/^(heading|title)/i.test(style) && text.trim()) {
+            if (current.text.trim()) sections.push({ ...current, text: normalizeText(current.text) });
+            current = { anchor: headingAnchor(text.trim()), text: `${text.trim()}\n` };
+        } else {
+            current.text += `${text}\n`;
+        }
+    });
+    if (current.text.trim()) sections.push({ ...current, text: normalizeText(current.text) });
+    return sections;
+};
+
+// --- TEXT ---
+// Markdown headings become sections; otherwise fixed runs of lines.
+const extractText = async (file: File): Promise<DocumentSection[]> => {
+    const lines = (await file.text()).split(/\r?\n/);
+    const sections: DocumentSection[] = [];
+
+    if (lines.some(line => /^#{1,3} \S/.test(line))) {
+        let current: DocumentSection = { anchor: '§ Start', text: '' };
+        lines.forEach(line => {
+            const heading = line.match(/^#{1,3} (.+)/);
+            if (heading) {
+                if (current.text.trim()) sections.push(current);
+                current = { anchor: headingAnchor(heading[1].trim()), text: '' };
+            }
+            current.text += `${line}\n`;
+        });
+        if (current.text.trim()) sections.push(current);
+    } else {
+        for (let start = 0; start < lines.length; start += TEXT_SECTION_LINES) {
+            const text = lines.slice(start, start + TEXT_SECTION_LINES).join('\n');
+            const end = Math.min(start + TEXT_SECTION_LINES, lines.length);
+            if (text.trim()) sections.push({ anchor: `lines ${start + 1}-${end}`, text });
+        }
+    }
+    return sections.map(section => ({ ...section, text: normalizeText(section.text) }));
+};
+
+export const extractDocument = async (
+    file: File,
+    mimeType: string,
+    kind: AttachmentKind,
+    signal?: AbortSignal
+): Promise<ExtractedDocument> => {
+    let sections: DocumentSection[];
+    if (kind === 'pdf') sections = await extractPdf(file, signal);
+    else if (mimeType === DOCX_MIME_TYPE) sections = await extractDocx(file);
+    else if (kind === 'text') sections = await extractText(file);
+    else throw new DocumentExtractionError(file.name, `Can't extract text from ${mimeType}`);
+    throwIfAborted(signal);
+    return { name: file.name, kind, sections };
+};
+
+// --- PROMPT TEXT ---
+// Sections are included in order until `charLimit` is spent; each is tagged
+// with the citation the model should use.
+export const formatDocument = (document: ExtractedDocument, charLimit: number): string => {
+    const parts: string[] = [];
+    let used = 0;
+    for (const section of document.sections) {
+        if (used >= charLimit) break;
+        const text = section.text.slice(0, charLimit - used);
+        parts.push(`[${document.name} ${section.anchor}]\n${text}`);
+        used += text.length;
+    }
+    const omitted = document.sections.length - parts.length;
+    return `--- FILE: ${document.name} ---\n${parts.join('\n\n')}${omitted > 0 ? `\n(${omitted} more section(s) omitted)` : ''}\n--- END FILE ---`;
+};
+
+// Splits the budget evenly so one long document can't crowd out the rest.
+export const formatSourceMaterial = (documents: ExtractedDocument[] | undefined, charLimit: number): string => {
+    if (!documents || documents.length === 0) return '';
+    const perDocument = Math.floor(charLimit / documents.length);
+    return documents.map(doc => formatDocument(doc, perDocument)).join('\n\n');
+};
+
+// --- SESSION STORAGE ---
+// Extracted text is kept per session in IndexedDB (it is often too large for
+// the localStorage session list) so a session can be re-analysed later.
+interface SessionDocuments {
+    sessionId: string;
+    documents: ExtractedDocument[];
+}
+
+export const saveSessionDocuments = (sessionId: string, documents: ExtractedDocument[]) =>
+    idbPut<SessionDocuments>('sessionDocuments', { sessionId, documents });
+
+export const loadSessionDocuments = async (sessionId: string): Promise<ExtractedDocument[]> =>
+    (await idbGet<SessionDocuments>('sessionDocuments', sessionId))?.documents || [];
+
+export const deleteSessionDocuments = (sessionId: string) => idbDelete('sessionDocuments', sessionId);
@@ -0,0 +1,95 @@
+
+import { describe, expect, it } from 'vitest';
+import { ExperimentRun } from '../types';
+import { SimulatorBridge, SimulatorBridgeEvent } from './simulatorBridge';
+import { MAX_RUN_SAMPLES, describeRunSettings, experimentVariables, experimentsToCsv, startRecording } from './experimentRecorder';
+
+const run = (overrides: Partial<ExperimentRun> = {}): ExperimentRun => ({
+    id: 'run-1',
+    name: 'Run 1',
+    recordedAt: 0,
+    params: [{ id: 'g', label: 'Gravity', value: 9.8, unit: 'm/s²' }],
+    outputs: [{ id: 'h', label: 'Height', unit: 'm' }],
+    samples: [
+        { t: 0, params: { g: 9.8 }, values: { h: 10 } },
+        { t: 0.1, params: { g: 9.8 }, values: { h: 9.95, v: 1 } }
+    ],
+    ...overrides
+});
+
+// A bridge the test drives by hand
+const fakeBridge = () => {
+    const listeners = new Set<(event: SimulatorBridgeEvent) => void>();
+    const bridge: SimulatorBridge = {
+        setParam: () => {},
+        refresh: () => {},
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        dispose: () => listeners.clear()
+    };
+    return { bridge, emit: (event: SimulatorBridgeEvent) => listeners.forEach(l => l(event)), listeners };
+};
+
+describe('experimentsToCsv', () => {
+    it('writes one row per sample with parameters before outputs', () => {
+        expect(experimentsToCsv([run()]).split('\n')).toEqual([
+            'run,time (s),Gravity (m/s²),Height (m),v',
+            'Run 1,0.00,9.8,10,',
+            'Run 1,0.10,9.8,9.95,1'
+        ]);
+    });
+
+    it('quotes cells holding commas, quotes and line breaks', () => {
+        const csv = experimentsToCsv([
+            run({ name: 'Low, "slow"' }),
+            run({ id: 'run-2', name: 'Line\rbreak' }),
+            run({ id: 'run-3', name: 'Line\nfeed' })
+        ]);
+        expect(csv).toContain('"Low, ""slow""",0.00');
+        expect(csv).toContain('"Line\rbreak",0.00');
+        expect(csv).toContain('"Line\nfeed",0.00');
+    });
+});
+
+describe('experimentVariables', () => {
+    it('lists outputs first, including emitted values that were never registered', () => {
+        expect(experimentVariables([run()]).map(v => `${v.kind}:${v.id}`)).toEqual(['output:h', 'output:v', 'param:g']);
+    });
+});
+
+describe('describeRunSettings', () => {
+    it('describes the settings the run started with', () => {
+        expect(describeRunSettings(run())).toBe('Gravity 9.8 m/s²');
+    });
+});
+
+describe('startRecording', () => {
+    it('samples telemetry with the current parameter settings', () => {
+        const { bridge, emit, listeners } = fakeBridge();
+        const recording = startRecording(bridge, 'Run 1', [{ id: 'g', label: 'Gravity', value: 9.8 }], []);
+        emit({ type: 'telemetry', t: 5, values: { h: 1 } });
+        emit({ type: 'params', params: [{ id: 'g', label: 'Gravity', value: 1.6 }] });
+        emit({ type: 'telemetry', t: 6, values: { h: 2 } });
+
+        const result = recording.stop()!;
+        expect(result.samples.map(s => s.params.g)).toEqual([9.8, 1.6]);
+        expect(result.samples.map(s => s.values.h)).toEqual([1, 2]);
+        expect(listeners.size).toBe(0);
+    });
+
+    it('returns nothing when no telemetry arrived', () => {
+        const { bridge } = fakeBridge();
+        expect(startRecording(bridge, 'Run 1', [], []).stop()).toBeNull();
+    });
+
+    it('stops sampling at MAX_RUN_SAMPLES and says so', () => {
+        const { bridge, emit } = fakeBridge();
+        let full = false;
+        const recording = startRecording(bridge, 'Run 1', [], [], (_count, _t, isFull) => { full = isFull; });
+        for (let i = 0; i < MAX_RUN_SAMPLES + 5; i++) emit({ type: 'telemetry', t: i, values: { h: i } });
+        expect(full).toBe(true);
+        expect(recording.stop()!.samples).toHaveLength(MAX_RUN_SAMPLES);
+    });
+});
@@ -0,0 +1,135 @@
+
+import { ExperimentRun, ExperimentSample, SimulatorOutput, SimulatorParam } from '../types';
+import { SimulatorBridge } from './simulatorBridge';
+import { idbGet, idbPut, idbDelete } from './idb';
+
+// --- EXPERIMENT RECORDER ---
+// Lab-style recording on top of the simulator bridge: while a run is being
+// recorded, every telemetry message becomes a sample holding the time, the
+// parameter settings and the output values. Runs are saved with the session,
+// compared in a chart and exported as CSV or JSON for lab reports.
+
+// Five minutes at the bridge's ten readings a second
+export const MAX_RUN_SAMPLES = 3000;
+
+export interface ExperimentRecording {
+    // Ends the run; null when nothing was recorded
+    stop(): ExperimentRun | null;
+}
+
+// A variable that can be plotted or exported: a parameter or an output
+export interface ExperimentVariable {
+    id: string;
+    label: string;
+    unit?: string;
+    kind: 'param' | 'output';
+}
+
+export const startRecording = (
+    bridge: SimulatorBridge,
+    name: string,
+    params: SimulatorParam[],
+    outputs: SimulatorOutput[],
+    // Called after each sample; `full` once MAX_RUN_SAMPLES is reached
+    onSample?: (count: number, t: number, full: boolean) => void
+): ExperimentRecording => {
+    const started = Date.now();
+    const samples: ExperimentSample[] = [];
+    let runParams = params;
+    let runOutputs = outputs;
+    let current: Record<string, number> = Object.fromEntries(params.map(p => [p.id, p.value]));
+
+    const unsubscribe = bridge.subscribe(event => {
+        if (event.type === 'ready' || event.type === 'params') {
+            current = Object.fromEntries(event.params.map(p => [p.id, p.value]));
+            // A simulator that reloads mid-run may only now say what it measures
+            if (runParams.length === 0) runParams = event.params;
+            if (event.type === 'ready' && runOutputs.length === 0) runOutputs = event.outputs;
+            return;
+        }
+        if (samples.length >= MAX_RUN_SAMPLES) return;
+        const t = (Date.now() - started) / 1000;
+        samples.push({ t, params: { ...current }, values: event.values });
+        onSample?.(samples.length, t, samples.length >= MAX_RUN_SAMPLES);
+    });
+
+    return {
+        stop() {
+            unsubscribe();
+            if (samples.length === 0) return null;
+            return {
+                id: `run-${started}`,
+                name,
+                recordedAt: started,
+                params: runParams,
+                outputs: runOutputs,
+                samples
+            };
+        }
+    };
+};
+
+// Everything recorded across the runs, outputs first. Emitted values that
+// were never registered are included under their id.
+export const experimentVariables = (runs: ExperimentRun[]): ExperimentVariable[] => {
+    const variables = new Map<string, ExperimentVariable>();
+    runs.forEach(run => {
+        run.outputs.forEach(o => { if (!variables.has(`output:${o.id}`)) variables.set(`output:${o.id}`, { ...o, kind: 'output' }); });
+        run.samples.forEach(s => Object.keys(s.values).forEach(id => {
+            if (!variables.has(`output:${id}`)) variables.set(`output:${id}`, { id, label: id, kind: 'output' });
+        }));
+    });
+    runs.forEach(run => {
+        run.params.forEach(p => { if (!variables.has(`param:${p.id}`)) variables.set(`param:${p.id}`, { id: p.id, label: p.label, unit: p.unit, kind: 'param' }); });
+    });
+    return Array.from(variables.values());
+};
+
+export const sampleValue = (sample: ExperimentSample, variable: ExperimentVariable): number | undefined =>
+    variable.kind === 'output' ? sample.values[variable.id] : sample.params[variable.id];
+
+// "Gravity 9.8 m/s², Angle 45°": the settings a run started with
+export const describeRunSettings = (run: ExperimentRun): string => {
+    const first = run.samples[0];
+    return run.params
+        .map(p => `${p.label} ${first?.params[p.id] ?? p.value}${p.unit ? ` ${p.unit}` : ''}`)
+        .join(', ');
+};
+
+// --- SESSION STORAGE ---
+// A run can hold thousands of samples, too many for the localStorage session
+// list, so each run is its own IndexedDB record and the session keeps its id.
+export const saveExperimentRun = (run: ExperimentRun) => idbPut<ExperimentRun>('experimentRuns', run);
+
+// In the order given; runs that are missing (e.g. a cleared database) are skipped
+export const loadExperimentRuns = async (ids: string[]): Promise<ExperimentRun[]> => {
+    const runs = await Promise.all(ids.map(id => idbGet<ExperimentRun>('experimentRuns', id)));
+    return runs.filter((run): run is ExperimentRun => !!run);
+};
+
+export const deleteExperimentRuns = async (ids: string[]): Promise<void> => {
+    await Promise.all(ids.map(id => idbDelete('experimentRuns', id)));
+};
+
+// --- EXPORT ---
+const csvCell = (value: string | number | undefined): string => {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const columnName = (variable: ExperimentVariable) => `${variable.label}${variable.unit ? ` (${variable.unit})` : ''}`;
+
+// One row per sample: run, time, then every parameter and output column
+export const experimentsToCsv = (runs: ExperimentRun[]): string => {
+    const variables = experimentVariables(runs);
+    const columns = [...variables.filter(v => v.kind === 'param'), ...variables.filter(v => v.kind === 'output')];
+    const rows = [['run', 'time (s)', ...columns.map(columnName)].map(csvCell).join(',')];
+    runs.forEach(run => run.samples.forEach(sample => {
+        rows.push([run.name, sample.t.toFixed(2), ...columns.map(v => sampleValue(sample, v))].map(csvCell).join(','));
+    }));
+    return rows.join('\n');
+};
+
+export const experimentsToJson = (runs: ExperimentRun[], topic?: string): string =>
+    JSON.stringify({ topic, exportedAt: new Date().toISOString(), runs }, null, 2);
@@ -0,0 +1,79 @@
+
+import { describe, expect, it } from 'vitest';
+import { FactCheckClaim, FactCheckFlag } from '../types';
+import { applyCorrection, buildFactCheckReport, locateQuote, quoteTouchesText } from './factCheck';
+
+const NOTES = `## Gravity
+
+| Body | g (m/s²) |
+|------|----------|
+| Moon | 1.6 |
+
+The acceleration due to gravity on Earth is
+about 9.8 m/s².
+
+$$F = G \\frac{m_1 m_2}{r}$$`;
+
+const flag = (quote: string, correction?: string): FactCheckFlag =>
+    ({ id: 'fc-1', status: 'open', quote, kind: 'claim', verdict: 'disputed', evidence: '', correction });
+
+describe('locateQuote', () => {
+    it('finds a verbatim quote', () => {
+        const range = locateQuote(NOTES, '| Moon | 1.6 |')!;
+        expect(NOTES.slice(range.start, range.end)).toBe('| Moon | 1.6 |');
+    });
+
+    it('finds a quote whose line breaks were reflowed', () => {
+        const range = locateQuote(NOTES, 'gravity on Earth is about 9.8 m/s²')!;
+        expect(NOTES.slice(range.start, range.end)).toBe('gravity on Earth is\nabout 9.8 m/s²');
+    });
+
+    it('treats LaTeX and table characters literally', () => {
+        expect(locateQuote(NOTES, '$$F = G \\frac{m_1 m_2}{r}$$')).not.toBeNull();
+        expect(locateQuote(NOTES, 'G \\frac{m_1   m_2}{r}')).not.toBeNull();
+        expect(locateQuote(NOTES, 'g (m/s.)')).toBeNull();
+    });
+
+    it('returns null for missing or blank quotes', () => {
+        expect(locateQuote(NOTES, 'on Mars')).toBeNull();
+        expect(locateQuote(NOTES, '   ')).toBeNull();
+    });
+});
+
+describe('applyCorrection', () => {
+    it('swaps the quote for the correction, even across a reflowed line', () => {
+        const fixed = applyCorrection(NOTES, flag('$$F = G \\frac{m_1 m_2}{r}$$', '$$F = G \\frac{m_1 m_2}{r^2}$$'))!;
+        expect(fixed.endsWith('$$F = G \\frac{m_1 m_2}{r^2}$$')).toBe(true);
+        expect(applyCorrection(NOTES, flag('Earth is about 9.8', 'Earth is about 9.81'))).toContain('on Earth is about 9.81 m/s²');
+    });
+
+    it('returns null when the quote is gone or there is no correction', () => {
+        expect(applyCorrection(NOTES, flag('on Mars', 'on Venus'))).toBeNull();
+        expect(applyCorrection(NOTES, flag('| Moon | 1.6 |'))).toBeNull();
+    });
+});
+
+describe('quoteTouchesText', () => {
+    it('matches a display formula quoted with or without its dollars', () => {
+        expect(quoteTouchesText('$$F = G m_1 m_2$$', 'F = G m_1 m_2')).toBe(true);
+    });
+
+    it('matches a long block that is part of a quote spanning several blocks', () => {
+        expect(quoteTouchesText('The acceleration due to gravity. It is 9.8 m/s².', 'The acceleration due to gravity.')).toBe(true);
+        expect(quoteTouchesText('The acceleration due to gravity.', 'Moon')).toBe(false);
+    });
+});
+
+describe('buildFactCheckReport', () => {
+    it('counts verdicts and flags each disputed quote once', () => {
+        const claim = (quote: string, verdict: FactCheckClaim['verdict']): FactCheckClaim => ({ quote, kind: 'claim', verdict, evidence: '' });
+        const report = buildFactCheckReport([
+            claim('g is 9.8', 'supported'),
+            claim('The Moon has  no gravity', 'disputed'),
+            claim('The Moon has no gravity', 'disputed'),
+            claim('Dark matter is a fluid', 'unverifiable')
+        ]);
+        expect(report).toMatchObject({ claimsChecked: 4, supported: 1, unverifiable: 1 });
+        expect(report.flags.map(f => `${f.id} ${f.status}`)).toEqual(['fc-1 open']);
+    });
+});
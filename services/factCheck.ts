@@ -0,0 +1,60 @@
+
+import { FactCheckClaim, FactCheckFlag, FactCheckReport } from '../types';
+
+// --- FACT CHECK ---
+// An optional pass after the study guide: the VERIFY stage extracts checkable
+// claims and formulas from the notes and judges them against the Stage 1
+// research and the sources (see geminiService.ts). Disputed claims become
+// flags that the Notes tab highlights; accepting one swaps its quote for the
+// suggested correction.
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Where `quote` occurs in `markdown`: verbatim, or with its whitespace
+// reflowed (models collapse line breaks inside quoted table rows and lists).
+export const locateQuote = (markdown: string, quote: string): { start: number; end: number } | null => {
+    const exact = markdown.indexOf(quote);
+    if (exact >= 0) return { start: exact, end: exact + quote.length };
+    const words = quote.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+    const match = new RegExp(words.map(escapeRegExp).join('\\s+')).exec(markdown);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Whether a rendered block shows (part of) the flagged quote. A quote may span
+// several blocks, and a display formula is quoted with or without its `$$`.
+export const quoteTouchesText = (quote: string, text: string): boolean => {
+    const q = normalize(quote);
+    const t = normalize(text);
+    if (!q || !t) return false;
+    return t.includes(q) || t.includes(q.replace(/^\$+|\$+$/g, '').trim()) || (t.length >= 20 && q.includes(t));
+};
+
+// Disputed claims become flags; the rest are only counted. The same quote
+// flagged from two overlapping chunks is kept once.
+export const buildFactCheckReport = (claims: FactCheckClaim[]): FactCheckReport => {
+    const flags: FactCheckFlag[] = [];
+    claims.filter(c => c.verdict === 'disputed').forEach(claim => {
+        if (flags.some(f => normalize(f.quote) === normalize(claim.quote))) return;
+        flags.push({ ...claim, id: `fc-${flags.length + 1}`, status: 'open' });
+    });
+    return {
+        checkedAt: Date.now(),
+        claimsChecked: claims.length,
+        supported: claims.filter(c => c.verdict === 'supported').length,
+        unverifiable: claims.filter(c => c.verdict === 'unverifiable').length,
+        flags
+    };
+};
+
+// The notes with the flag's quote replaced by its correction, or null when
+// the quote can no longer be found (the notes changed since the check).
+export const applyCorrection = (markdown: string, flag: FactCheckFlag): string | null => {
+    const range = flag.correction ? locateQuote(markdown, flag.quote) : null;
+    return range ? markdown.slice(0, range.start) + flag.correction + markdown.slice(range.end) : null;
+};
+
+export const setFlagStatus = (report: FactCheckReport, id: string, status: FactCheckFlag['status']): FactCheckReport =>
+    ({ ...report, flags: report.flags.map(f => f.id === id ? { ...f, status } : f) });
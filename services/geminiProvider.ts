@@ -0,0 +1,291 @@
+
+import { PipelineStage } from '../types';
+import { StudyProvider, extractHtmlBlock } from './modelProvider';
+import { StageOptions, reportTokens, estimateTokens } from './pipelineEvents';
+import { throwIfAborted } from './cancellation';
+import { streamNdjson, uploadFile, deleteFile } from './apiClient';
+import { runWithFallbackChain, resolveModelChain } from './resilience';
+import { reportUsage, applyBudgetToChain } from './usageLedger';
+import { generateStructured, TOPIC_FACTS_SPEC, QUIZ_SPEC, TRANSCRIPT_SPEC, FACT_CHECK_SPEC } from './structuredOutput';
+import { describeAttachments, formatTextAttachment } from './attachments';
+import {
+    buildTranscriptPrompt,
+    buildFactsPrompt,
+    buildArchitectPrompt,
+    buildStudyGuidePrompt,
+    buildFactCheckPrompt,
+    buildSimulatorSystemPrompt,
+    buildSimulatorRequest,
+    buildSimulatorRepairRequest,
+    buildQuizPrompt,
+    buildTutorPrompt
+} from './prompts';
+
+// Ordered fallback chains per stage: the first model is preferred, later ones
+// take over on 404s or when retries of transient errors run out.
+// Override per stage via ResilienceConfig.chains (see resilience.ts).
+export const GEMINI_MODEL_CHAINS: Record<PipelineStage, string[]> = {
+    TRANSCRIBE: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    RESEARCH: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    ARCHITECT: ['gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    NOTES: ['gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    VERIFY: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    SIMULATOR: ['gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    QUIZ: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    DEEP_DIVE: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    IMAGE: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+    VIDEO: ['veo-3.1-fast-generate-preview']
+};
+
+// Flash-class models cap thinking at 24576 tokens; Pro budgets would be rejected.
+const MAX_FLASH_THINKING_BUDGET = 24576;
+
+const fitConfigToModel = (model: string, config: any = {}) => {
+    const budget = config.thinkingConfig?.thinkingBudget;
+    if (model.includes('flash') && budget > MAX_FLASH_THINKING_BUDGET) {
+        return { ...config, thinkingConfig: { ...config.thinkingConfig, thinkingBudget: MAX_FLASH_THINKING_BUDGET } };
+    }
+    return config;
+};
+
+interface StreamedResponse {
+    text: string;
+    groundingMetadata?: any;
+    usageMetadata?: any;
+}
+
+// Streams a text response through the API server so token counts can be
+// reported while the model writes.
+const streamContent = async (
+    model: string,
+    params: any,
+    stage: PipelineStage,
+    options?: StageOptions
+): Promise<StreamedResponse> => {
+    const result: StreamedResponse = { text: "" };
+
+    await streamNdjson(`/stages/${stage}`, { ...params, model, config: fitConfigToModel(model, params.config) }, options?.signal, chunk => {
+        throwIfAborted(options?.signal);
+        result.text += chunk.text || "";
+        result.groundingMetadata = chunk.groundingMetadata || result.groundingMetadata;
+        result.usageMetadata = chunk.usageMetadata || result.usageMetadata;
+        reportTokens(stage, options, result.usageMetadata?.candidatesTokenCount ?? estimateTokens(result.text));
+    });
+
+    const usage = result.usageMetadata;
+    reportUsage(stage, model, {
+        promptTokens: usage?.promptTokenCount,
+        thinkingTokens: usage?.thoughtsTokenCount,
+        outputTokens: usage?.candidatesTokenCount ?? estimateTokens(result.text)
+    }, options);
+    return result;
+};
+
+// Runs a stage down its fallback chain, retrying transient errors on each model.
+// Over budget, the chain skips straight to its cheaper models.
+const streamStage = (stage: PipelineStage, params: any, options?: StageOptions): Promise<StreamedResponse> =>
+    runWithFallbackChain(stage, applyBudgetToChain(resolveModelChain(stage, GEMINI_MODEL_CHAINS[stage])), options, model =>
+        streamContent(model, params, stage, options));
+
+export const createGeminiProvider = (): StudyProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  primaryModel(stage) {
+    return resolveModelChain(stage, GEMINI_MODEL_CHAINS[stage])[0];
+  },
+
+  canReadInline(mimeType) {
+    return /^(image|video|audio)\//.test(mimeType) || mimeType === 'application/pdf';
+  },
+
+  // --- AUDIO INGESTION ---
+  // Long recordings are uploaded to the Files API by the API server, which
+  // waits for processing; they are deleted again once transcribed.
+  async transcribeAudio(audio, options) {
+    const uploaded = audio.data ? null : await uploadFile(audio.blob!, audio.mimeType, audio.name, options?.signal);
+    const media = uploaded
+        ? { fileData: { fileUri: uploaded.uri, mimeType: audio.mimeType } }
+        : { inlineData: { data: audio.data, mimeType: audio.mimeType } };
+    try {
+        const { segments } = await generateStructured(TRANSCRIPT_SPEC, async (repairPrompt) => {
+            const response = await streamStage('TRANSCRIBE', {
+                contents: { parts: repairPrompt ? [{ text: repairPrompt }] : [media, { text: buildTranscriptPrompt(audio.name) }] },
+                config: { responseMimeType: "application/json", responseSchema: TRANSCRIPT_SPEC.schema }
+            }, options);
+            return response.text;
+        });
+        return { name: audio.name, mimeType: audio.mimeType, segments };
+    } finally {
+        if (uploaded) deleteFile(uploaded.name).catch(e => console.warn("Failed to delete uploaded audio", e));
+    }
+  },
+
+  // --- STAGE 1: DEEP RESEARCH ---
+  // Search grounding can't be combined with responseSchema, so the first call
+  // relies on the prompt; the repair call drops search and enforces the schema.
+  async getInterestingFacts(topic, documents, options) {
+    return generateStructured(TOPIC_FACTS_SPEC, async (repairPrompt) => {
+        const response = await streamStage('RESEARCH', repairPrompt ? {
+            contents: { parts: [{ text: repairPrompt }] },
+            config: { responseMimeType: "application/json", responseSchema: TOPIC_FACTS_SPEC.schema }
+        } : {
+            contents: { parts: [{ text: buildFactsPrompt(topic, true, documents) }] },
+            config: {
+                tools: [{ googleSearch: {} }],
+            }
+        }, options);
+        return response.text;
+    });
+  },
+
+  // --- STAGE 2: ARCHITECTURE & DRAFTING ---
+  async analyzeStudyTopic(input, attachments, searchContext, settings, options) {
+    const parts: any[] = [];
+
+    attachments.forEach(attachment => {
+      if (attachment.status === 'inline' && attachment.data) {
+        parts.push({ text: `Attachment: ${attachment.name}` });
+        parts.push({ inlineData: { data: attachment.data, mimeType: attachment.mimeType } });
+      } else if (attachment.status === 'text') {
+        parts.push({ text: formatTextAttachment(attachment) });
+      }
+    });
+    if (attachments.length > 0) parts.push({ text: describeAttachments(attachments) });
+
+    parts.push({ text: input || "Analyze the provided material." });
+
+    // Use search if context is missing, otherwise rely on Stage 1 context
+    const tools = searchContext ? [] : [{ googleSearch: {} }];
+
+    try {
+      const response = await streamStage('ARCHITECT', {
+        contents: { parts },
+        config: {
+          systemInstruction: buildArchitectPrompt(searchContext, settings, attachments.some(a => a.document)),
+          thinkingConfig: { thinkingBudget: 16384 },
+          tools
+        },
+      }, options);
+
+      const text = response.text || "No plan generated.";
+      const chunks = response.groundingMetadata?.groundingChunks || [];
+      const sources = chunks
+        .filter((c: any) => c.web?.uri)
+        .map((c: any) => ({ title: c.web.title, uri: c.web.uri }));
+
+      return { markdownPlan: text, sources };
+    } catch (error) {
+      console.error("Study Analysis Error:", error);
+      throw error;
+    }
+  },
+
+  // --- INTERMEDIATE: CONTENT GENERATION ---
+  async finalizeStudyPackage(approvedPlan, originalInput, settings, documents, references, options) {
+    try {
+      const response = await streamStage('NOTES', {
+        contents: {
+          parts: [
+            { text: `APPROVED PLAN:\n${approvedPlan}` },
+            { text: "Proceed to generate the Study Guide." }
+          ]
+        },
+        config: {
+          systemInstruction: buildStudyGuidePrompt(originalInput, settings, documents, references),
+          thinkingConfig: { thinkingBudget: 8192 },
+        },
+      }, options);
+
+      return { markdown: response.text || "No content.", simulatorCode: "" };
+    } catch (error) {
+      console.error("Study Build Error:", error);
+      throw error;
+    }
+  },
+
+  // --- INTERMEDIATE: FACT CHECK ---
+  async factCheckNotes(notes, evidence, settings, maxClaims, options) {
+    const result = await generateStructured(FACT_CHECK_SPEC, async (repairPrompt) => {
+        const response = await streamStage('VERIFY', {
+            contents: { parts: [{ text: repairPrompt || buildFactCheckPrompt(notes, evidence, settings, maxClaims) }] },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: FACT_CHECK_SPEC.schema,
+                thinkingConfig: { thinkingBudget: 8192 }
+            }
+        }, options);
+        return response.text;
+    });
+    return result.claims;
+  },
+
+  // --- STAGE 3: AUTOMATED QA & STRESS TEST ---
+  async generateStudySimulator(approvedPlan, smartNotes, customInstruction, settings, options) {
+    try {
+       const parts: any[] = [];
+       if (approvedPlan) parts.push({ text: `GAME DESIGN DOC:\n${approvedPlan}` });
+       if (smartNotes) parts.push({ text: `PHYSICS CONTEXT:\n${smartNotes}` });
+       parts.push({ text: buildSimulatorRequest(customInstruction, settings) });
+
+       const response = await streamStage('SIMULATOR', {
+        contents: {
+          parts
+        },
+        config: {
+          systemInstruction: buildSimulatorSystemPrompt(),
+          // High budget for self-correction and grid calculation
+          thinkingConfig: { thinkingBudget: 32768 },
+        },
+      }, options);
+
+      return extractHtmlBlock(response.text || "");
+    } catch (error) {
+      console.error("Simulator Gen Error:", error);
+      throw error;
+    }
+  },
+
+  async repairStudySimulator(code, errorLog, options) {
+    const response = await streamStage('SIMULATOR', {
+      contents: { parts: [{ text: buildSimulatorRepairRequest(code, errorLog) }] },
+      config: {
+        systemInstruction: buildSimulatorSystemPrompt(),
+        thinkingConfig: { thinkingBudget: 16384 },
+      },
+    }, options);
+    return extractHtmlBlock(response.text || "");
+  },
+
+  // --- QUIZ & EXTRAS ---
+  async generateQuiz(context, settings, questionCount, options) {
+    const quiz = await generateStructured(QUIZ_SPEC, async (repairPrompt) => {
+        const response = await streamStage('QUIZ', {
+            contents: { parts: [{ text: repairPrompt || buildQuizPrompt(context, settings, questionCount) }] },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: QUIZ_SPEC.schema
+            }
+        }, options);
+        return response.text;
+    });
+    return quiz.questions;
+  },
+
+  async queryDeepDive(history, context, userMessage, settings, options) {
+    const contents = [
+        ...history.map(msg => ({
+            role: msg.role === 'user' ? 'user' : 'model',
+            parts: [{ text: msg.content }]
+        })),
+        { role: 'user', parts: [{ text: userMessage }] }
+    ];
+
+    const response = await streamStage('DEEP_DIVE', {
+        contents,
+        config: { systemInstruction: buildTutorPrompt(context, settings) }
+    }, options);
+
+    return response.text || "I couldn't generate a response.";
+  }
+});
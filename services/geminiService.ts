@@ -1,409 +1,267 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { StudyPlan, StudyResult, QuizQuestion, DeepDiveMessage } from '../types';
-
-// --- UTILITIES ---
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const logProgress = (stage: string, percent: string) => {
-    console.log(`[StudySim Pipeline] ${stage} - Progress: ${percent}`);
-};
-
-// Ensure API Key is present
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { StudyPlan, StudyResult, StudyReference, FactCheckClaim, FactCheckReport, QuizQuestion, DeepDiveMessage, TopicFacts, PipelineStage, StudySettings, StudyAttachment, AttachmentSummary, ExtractedDocument, Transcript } from '../types';
+import { getProvider } from './modelProvider';
+import { StageOptions, runStage } from './pipelineEvents';
+import { sleep, throwIfAborted } from './cancellation';
+import { GEMINI_MODEL_CHAINS } from './geminiProvider';
+import { postJson, downloadVideo, VideoOperation } from './apiClient';
+import { runWithFallbackChain, resolveModelChain, withRetry } from './resilience';
+import { cachedStage, hashBlob, CacheKeyParts } from './responseCache';
+import { getStagePromptVersion } from './promptRegistry';
+import { buildTutorContext, buildFactCheckEvidence } from './prompts';
+import { chunkMarkdown, packChunks } from './chunking';
+import { RetrievalIndex } from './retrievalIndex';
+import { SourceLink, buildReferences, citedReferences } from './citations';
+import { buildFactCheckReport } from './factCheck';
+import { AttachmentCapabilities, assessAttachments, ingestAttachments, summarizeAttachments } from './attachments';
+import { checkBudget, reportUsage, estimateImageCost, estimateVideoCost, BudgetExceededError } from './usageLedger';
+
+// --- PIPELINE STAGES ---
+// Each stage is served by the active model provider (see modelProvider.ts) and
+// reports stage-started / tokens-received / stage-finished / stage-failed
+// events through `options.onEvent` (see pipelineEvents.ts). Aborting
+// `options.signal` cancels the in-flight model call. Research, planning, notes,
+// fact checks and quizzes are served from the response cache (see responseCache.ts) unless
+// `options.bypassCache` is set. `settings` (level, length, emphasis) shapes
+// every stage after research and is part of the cache key.
+export type { TopicFacts } from '../types';
+
+const cacheKey = (stage: PipelineStage, inputs: unknown[]): CacheKeyParts => {
+    const provider = getProvider();
+    return { stage, provider: provider.id, model: provider.primaryModel(stage), promptVersion: getStagePromptVersion(stage), inputs };
 };
 
-// Helper for Fallback Logic (Pro -> Flash)
-const generateContentWithFallback = async (model: string, params: any): Promise<any> => {
-    const ai = getAiClient();
-    try {
-        return await ai.models.generateContent({ ...params, model });
-    } catch (error: any) {
-        if (error.message?.includes("404") || error.message?.includes("not found")) {
-            console.warn(`Model ${model} failed, falling back to gemini-2.5-flash`);
-            return await ai.models.generateContent({ ...params, model: 'gemini-2.5-flash' });
+// --- STAGE 1: DEEP RESEARCH ---
+// `documents` is text extracted from the attachments (see documentExtraction.ts).
+export const getInterestingFacts = (topic: string, documents?: ExtractedDocument[], options?: StageOptions): Promise<TopicFacts> =>
+    runStage('RESEARCH', options, () =>
+        cachedStage(cacheKey('RESEARCH', [topic, documents]), options,
+            opts => getProvider().getInterestingFacts(topic, documents, opts)));
+
+// --- ATTACHMENTS & TRANSCRIPTION ---
+// Keyed by the recording's contents: two files with the same name and size
+// are not the same lecture.
+export const transcribeAudio = (audio: StudyAttachment, options?: StageOptions): Promise<Transcript> =>
+    runStage('TRANSCRIBE', options, async () => {
+        const transcribe = (opts?: StageOptions) => {
+            const provider = getProvider();
+            if (!provider.transcribeAudio) throw new Error(`${provider.label} can't transcribe audio`);
+            return provider.transcribeAudio(audio, opts);
+        };
+        let contents: string;
+        try {
+            contents = audio.data ?? (audio.blob ? await hashBlob(audio.blob) : '');
+        } catch (e) {
+            console.warn('Could not hash the recording; transcribing without the cache', e);
+            return transcribe(options);
         }
-        throw error;
-    }
-};
-
-// --- STAGE 1: DEEP RESEARCH (0% - 30%) ---
-export interface TopicFacts {
-    facts: string[];
-    searchContext: string;
-}
-
-export const getInterestingFacts = async (topic: string): Promise<TopicFacts> => {
-    logProgress("Stage 1: Deep Research (Fact Gathering)", "10%");
-    await sleep(1500); // Artificial delay for UI smoothness
-
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash'; 
-
-    const prompt = `
-    Perform a Google Search for the topic: "${topic}".
-    
-    Tasks:
-    1. Extract exactly 20 interesting, obscure, or key facts about this topic.
-    2. Write a comprehensive summary of the search results to act as "Context" for a deep study guide.
-
-    Output Format:
-    You must output strictly valid JSON. Do not include markdown formatting (like \`\`\`json).
-    The JSON structure must be:
-    {
-      "facts": ["Fact 1", "Fact 2", ...],
-      "searchContext": "Detailed summary..."
-    }
-    `;
-
-    try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                tools: [{ googleSearch: {} }],
-            }
-        });
-
-        let text = response.text || "{}";
-        const match = text.match(/```json([\s\S]*?)```/) || text.match(/```([\s\S]*?)```/);
-        if (match) {
-            text = match[1];
-        }
-
-        logProgress("Stage 1: Research Complete", "30%");
-        return JSON.parse(text) as TopicFacts;
-    } catch (e) {
-        console.error("Fact Fetch Error", e);
-        return { facts: ["Learning is a journey.", "Stay curious.", "Knowledge is power."], searchContext: "" };
-    }
-};
-
-// --- STAGE 2: ARCHITECTURE & DRAFTING (30% - 70%) ---
-export const analyzeStudyTopic = async (
-  input: string,
-  mediaData?: { data: string; mimeType: string },
-  isVideoAnalysis: boolean = false,
-  searchContext?: string
-): Promise<StudyPlan> => {
-  logProgress("Stage 2: Drafting Simulator Strategy", "35%");
-  await sleep(2000); 
-
-  const model = 'gemini-3-pro-preview';
-
-  let systemPrompt = `
-  You are "StudySim AI" - Phase 2: Architect.
-  
-  Your goal is to convert the user's topic into a "Game Design Document" for an interactive HTML5 simulator.
-  
-  ### CRITICAL REQUIREMENT: SPATIAL GRID SYSTEM
-  You must plan the simulator layout using this strict coordinate system:
-  - **INPUTS (x=150)**: Where sliders, toggles, and controls live.
-  - **LOGIC (x=400)**: Where the transformation, physics, or main subject is visualized.
-  - **OUTPUTS (x=650)**: Where graphs, meters, or results are displayed.
-  
-  You must explicitly plan to DRAW WIRES (\`ctx.lineTo\`) connecting these zones to visualize the flow of information or physics.
-
-  ### OUTPUT FORMAT
-  Return a structured Markdown plan with headers:
-  ## 🧐 Analysis & Context
-  ## 🎮 Simulator Concept (Game Design Document)
-  ## 🎨 Visual Identity
-  ## 🔍 Verified Sources
-  `;
-
-  if (searchContext) {
-      systemPrompt += `
-      ### CONTEXT FROM STAGE 1
-      Use this verified context as your primary source of truth:
-      "${searchContext}"
-      `;
-  }
-
-  const parts: any[] = [];
-  
-  if (mediaData) {
-    parts.push({
-      inlineData: {
-        data: mediaData.data,
-        mimeType: mediaData.mimeType
-      }
+        // Nothing to tell recordings apart by
+        if (!contents) return transcribe(options);
+        return cachedStage(cacheKey('TRANSCRIBE', [audio.name, audio.mimeType, contents]), options, transcribe);
     });
-    parts.push({ text: isVideoAnalysis ? "Analyze this video context." : "Analyze this image." });
-  }
-
-  parts.push({ text: input || "Analyze the provided media." });
 
-  // Use search if context is missing, otherwise rely on Stage 1 context
-  const tools = searchContext ? [] : [{ googleSearch: {} }];
+const attachmentCapabilities = (options?: StageOptions): AttachmentCapabilities => {
+    const provider = getProvider();
+    return {
+        canReadInline: mimeType => provider.canReadInline(mimeType),
+        transcribe: provider.transcribeAudio ? audio => transcribeAudio(audio, options) : undefined
+    };
+};
 
-  try {
-    const response = await generateContentWithFallback(model, {
-      contents: { parts },
-      config: {
-        systemInstruction: systemPrompt,
-        thinkingConfig: { thinkingBudget: 16384 }, 
-        tools
-      },
-    });
+// How each file would be used by the active provider (for the input chips).
+export const previewAttachments = (files: File[]): AttachmentSummary[] =>
+    assessAttachments(files, attachmentCapabilities());
 
-    const text = response.text || "No plan generated.";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources = chunks
-      .filter((c: any) => c.web?.uri)
-      .map((c: any) => ({ title: c.web.title, uri: c.web.uri }));
+export const prepareAttachments = (files: File[], options?: StageOptions): Promise<StudyAttachment[]> =>
+    ingestAttachments(files, attachmentCapabilities(options), options?.signal);
 
-    logProgress("Stage 2: Architecture Approved", "60%");
-    return { markdownPlan: text, sources };
-  } catch (error) {
-    console.error("Study Analysis Error:", error);
-    throw error;
-  }
-};
+// --- STAGE 2: ARCHITECTURE & DRAFTING ---
+// The returned plan records which attachments informed it; fetched web pages
+// (see urlIngestion.ts) lead its sources.
+export const analyzeStudyTopic = (
+  input: string,
+  attachments: StudyAttachment[] = [],
+  searchContext?: string,
+  settings?: StudySettings,
+  options?: StageOptions
+): Promise<StudyPlan> =>
+  runStage('ARCHITECT', options, async () => {
+    const plan = await cachedStage(cacheKey('ARCHITECT', [input, attachments, searchContext, settings]), options,
+      opts => getProvider().analyzeStudyTopic(input, attachments, searchContext, settings, opts));
+    if (attachments.length === 0) return plan;
+    const pageSources = attachments.filter(a => a.url && a.status === 'text').map(a => ({ title: a.name, uri: a.url! }));
+    return {
+        ...plan,
+        sources: [...pageSources, ...plan.sources.filter(s => !pageSources.some(p => p.uri === s.uri))],
+        attachments: summarizeAttachments(attachments)
+    };
+  });
 
 // --- INTERMEDIATE: CONTENT GENERATION ---
-export const finalizeStudyPackage = async (
+// `sources` (the plan's grounded sources) and `documents` are numbered into
+// references the notes cite inline (see citations.ts); the result keeps the
+// ones actually cited.
+export const finalizeStudyPackage = (
   approvedPlan: string,
-  originalInput: string
-): Promise<StudyResult> => {
-  logProgress("Generating Content", "65%");
-  const model = 'gemini-3-pro-preview';
-
-  const systemPrompt = `
-  # STAGE 1: MASTER EDUCATIONAL CONTENT GENERATOR
-
-  # INPUT TOPIC
-  Topic: "${originalInput}" (Difficulty Level: Comprehensive)
-
-  # GOAL
-  Generate a high-quality, textbook-grade study guide. 
-  You must prioritize **READABILITY** and **CLEAN FORMATTING** above all else.
-
-  # STRICT FORMATTING RULES (CRITICAL)
-  1. **NO WEIRD SYMBOLS:** - DO NOT use symbols like ◼, ◆, ❖, ⬢, ▓. 
-     - **ONLY use asterisks (*)** for bullet points.
-     - Use standard Headers: #, ##, ###, ####.
-
-  2. **MATHEMATICS & FORMULAS:**
-     - **NO DUPLICATION:** Never write "Vf Vf". Write clearly.
-     - **USE LATEX:** Enclose all math in single dollar signs \`$\`.
-     - Correct: "The voltage is $V = I \\times R$."
-     - Incorrect: "V = I x R" or "V (V) = ...".
-
-  3. **SECTION STRUCTURE:**
-     - **Section 1: Deep Dive** (Detailed explanation, tables, "Why" and "How").
-     - **Section 2: Short Notes** (Rapid revision, keywords, key formulas).
-
-  4. **VISUAL PLACEHOLDERS:**
-     - Do not generate ASCII art.
-     - Use tags like: \`[IMAGE: Diagram of a Diode]\` where appropriate.
-
-  # OUTPUT CONTENT
-  Generate the content now, following the rules above strictly.
-  `;
+  originalInput: string,
+  settings?: StudySettings,
+  documents?: ExtractedDocument[],
+  sources?: SourceLink[],
+  options?: StageOptions
+): Promise<StudyResult> =>
+  runStage('NOTES', options, async () => {
+    const references = buildReferences(sources, documents);
+    const result = await cachedStage(cacheKey('NOTES', [approvedPlan, originalInput, settings, documents, references]), options,
+      opts => getProvider().finalizeStudyPackage(approvedPlan, originalInput, settings, documents, references, opts));
+    return { ...result, references: citedReferences(result.markdown, references) };
+  });
 
-  try {
-    const response = await generateContentWithFallback(model, {
-      contents: { 
-        parts: [
-          { text: `APPROVED PLAN:\n${approvedPlan}` },
-          { text: "Proceed to generate the Study Guide." }
-        ] 
-      },
-      config: {
-        systemInstruction: systemPrompt,
-        thinkingConfig: { thinkingBudget: 8192 }, 
-      },
+// --- INTERMEDIATE: FACT CHECK ---
+// Optional pass over finished notes, one group of chunks at a time, against
+// the research they were written from: the Stage 1 summary, the references
+// and the extracted documents (see factCheck.ts).
+const FACT_CHECK_GROUP_CHARS = 10000;
+const FACT_CHECK_CLAIMS_PER_GROUP = 12;
+
+export const factCheckNotes = (
+  notes: string,
+  searchContext?: string,
+  documents?: ExtractedDocument[],
+  references?: StudyReference[],
+  settings?: StudySettings,
+  options?: StageOptions
+): Promise<FactCheckReport> =>
+  runStage('VERIFY', options, () => {
+    const evidence = buildFactCheckEvidence(searchContext, references, documents);
+    return cachedStage(cacheKey('VERIFY', [notes, evidence, settings]), options, async opts => {
+        const provider = getProvider();
+        const claims: FactCheckClaim[] = [];
+        for (const group of packChunks(chunkMarkdown(notes), FACT_CHECK_GROUP_CHARS)) {
+            throwIfAborted(opts?.signal);
+            claims.push(...await provider.factCheckNotes(group, evidence, settings, FACT_CHECK_CLAIMS_PER_GROUP, opts));
+        }
+        return buildFactCheckReport(claims);
     });
+  });
 
-    logProgress("Content Generated", "70%");
-    return { markdown: response.text || "No content.", simulatorCode: "" };
-  } catch (error) {
-    console.error("Study Build Error:", error);
-    throw error;
-  }
-};
-
-// --- STAGE 3: AUTOMATED QA & STRESS TEST (70% - 100%) ---
-export const generateStudySimulator = async (
+// --- STAGE 3: AUTOMATED QA & STRESS TEST ---
+export const generateStudySimulator = (
   approvedPlan: string,
   smartNotes: string,
-  customInstruction: string = ""
-): Promise<string> => {
-  logProgress("Stage 3: Coding & Automated QA", "75%");
-  await sleep(2000); // Artificial delay for "Coding" feel
-
-  const model = 'gemini-3-pro-preview';
-
-  const systemPrompt = `
-  You are "StudySim AI" - Phase 3: Simulator Architect.
-  
-  Your goal is to write a robust, SINGLE-FILE HTML5/Canvas simulation that looks like a high-end educational app (Apple-style design).
-  
-  ### DESIGN ARCHITECTURE: HYBRID UI
-  1. **Visualization Layer (Canvas)**: Use a full-screen \`<canvas>\` for the physics/visualization. It should be the background.
-  2. **Control Layer (HTML Overlay)**: Do NOT draw UI controls on the canvas. Instead, create a floating HTML \`div\` (Sidebar or Floating Card) positioned over the canvas using absolute positioning.
-  3. **Style (Glassmorphism)**: The Control Panel should use \`backdrop-blur-md\`, \`bg-white/10\`, and white text. Use Tailwind CSS for all styling.
-  
-  ### LAYOUT & RESPONSIVENESS
-  - The Canvas must resize dynamically to fill the window (\`window.addEventListener('resize', ...)\`).
-  - The Control Panel should be collapsible or neatly positioned (e.g., \`top-4 left-4 w-80\`).
-  
-  ### FUNCTIONALITY
-  - **Inputs**: Use native \`<input type="range">\` sliders for smooth interaction. Connect them to the physics variables in real-time.
-  - **Physics Loop**: Use \`requestAnimationFrame\`.
-  - **Features**: 
-    - Include a "Reset" button.
-    - Show real-time values next to sliders.
-    - Add tooltips to variables.
-  
-  ### CRITIC_MODE: CHECKS
-  - **Visual Check**: Are components overlapping? Ensure the canvas z-index is 0 and UI z-index is 10.
-  - **Physics Check**: Ensure variables like 'speed' or 'gravity' can't be set to values that break the sim (e.g. 0 or Infinity).
-  
-  ### OUTPUT
-  Return ONLY the valid HTML code wrapped in \`\`\`html\`\`\`.
-  The script must be embedded and execute immediately.
-  `;
-
-  try {
-     logProgress("Stage 3: Running Stress Tests...", "85%");
-     
-     const parts: any[] = [];
-     if (approvedPlan) parts.push({ text: `GAME DESIGN DOC:\n${approvedPlan}` });
-     if (smartNotes) parts.push({ text: `PHYSICS CONTEXT:\n${smartNotes}` });
-     
-     let prompt = "Generate the HTML5 Simulator now. Ensure the UI is Modern Glassmorphism using Tailwind.";
-     if (customInstruction) {
-         prompt += `\n\nUSER OVERRIDE/CUSTOM INSTRUCTIONS: ${customInstruction}`;
-     }
-     parts.push({ text: prompt });
+  customInstruction: string = "",
+  settings?: StudySettings,
+  options?: StageOptions
+): Promise<string> =>
+  runStage('SIMULATOR', options, () =>
+    getProvider().generateStudySimulator(approvedPlan, smartNotes, customInstruction, settings, options));
 
-     const response = await generateContentWithFallback(model, {
-      contents: { 
-        parts
-      },
-      config: {
-        systemInstruction: systemPrompt,
-        // High budget for self-correction and grid calculation
-        thinkingConfig: { thinkingBudget: 32768 }, 
-      },
-    });
-
-    logProgress("Stage 3: Deployment", "100%");
-    const text = response.text || "";
-    const match = text.match(/```html([\s\S]*?)```/);
-    return match ? match[1] : text;
-
-  } catch (error) {
-    console.error("Simulator Gen Error:", error);
-    throw error;
-  }
-};
+// One repair round of the simulator QA loop (see simulatorQa.ts)
+export const repairStudySimulator = (code: string, errorLog: string, options?: StageOptions): Promise<string> =>
+  runStage('SIMULATOR', options, () => getProvider().repairStudySimulator(code, errorLog, options));
 
 // --- QUIZ & EXTRAS ---
-
-export const generateQuiz = async (context: string): Promise<QuizQuestion[]> => {
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-    
-    // IMPORTANT: Request double escaped backslashes for valid JSON parsing of LaTeX
-    const prompt = `
-    Generate 5 high-quality MCQs from this text: ${context.slice(0, 5000)}.
-    
-    IMPORTANT: 
-    - You must output valid JSON.
-    - For any math or LaTeX, use DOUBLE backslashes to escape them properly in the JSON string.
-      Example: Use "\\\\frac{a}{b}" instead of "\\frac{a}{b}".
-      Example: Use "\\\\Phi" instead of "\\Phi".
-    - Explanation should be detailed and also use LaTeX for formulas.
-    `;
-    
-    try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      id: { type: Type.NUMBER },
-                      question: { type: Type.STRING },
-                      options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                      correctAnswer: { type: Type.NUMBER },
-                      explanation: { type: Type.STRING }
-                    },
-                    required: ["id", "question", "options", "correctAnswer", "explanation"],
-                  }
-                }
-            }
-        });
-        return JSON.parse(response.text || "[]");
-    } catch (e) {
-        console.error("Quiz Generation Error", e);
-        return [];
+// A long guide is quizzed one group of chunks at a time (map) and the
+// questions are interleaved so every part of it is covered (reduce).
+const QUIZ_SINGLE_PASS_CHARS = 12000;
+const QUIZ_MAX_GROUPS = 6;
+const QUIZ_MIN_QUESTIONS = 5;
+const QUIZ_MAX_QUESTIONS = 10;
+
+const interleaveQuestions = (batches: QuizQuestion[][], count: number): QuizQuestion[] => {
+    const picked: QuizQuestion[] = [];
+    const seen = new Set<string>();
+    for (let round = 0; picked.length < count && batches.some(b => b.length > round); round++) {
+        for (const batch of batches) {
+            const question = batch[round];
+            const key = question?.question.trim().toLowerCase();
+            if (!question || seen.has(key) || picked.length >= count) continue;
+            seen.add(key);
+            picked.push(question);
+        }
     }
+    return picked.map((q, i) => ({ ...q, id: i + 1 }));
 };
 
-export const queryDeepDive = async (
-    history: DeepDiveMessage[], 
-    context: string,
-    userMessage: string
-): Promise<string> => {
-    const ai = getAiClient();
-    const model = 'gemini-2.5-flash';
-
-    const systemPrompt = `You are a helpful tutor. Explain concepts using the context provided. Use LaTeX for math (enclose in single $). Context: ${context.slice(0, 5000)}`;
-
-    const contents = [
-        ...history.map(msg => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content }]
-        })),
-        { role: 'user', parts: [{ text: userMessage }] }
-    ];
-
-    const response = await ai.models.generateContent({
-        model,
-        contents,
-        config: { systemInstruction: systemPrompt }
+export const generateQuiz = (context: string, settings?: StudySettings, options?: StageOptions): Promise<QuizQuestion[]> =>
+    runStage('QUIZ', options, () =>
+        cachedStage(cacheKey('QUIZ', [context, settings]), options, async opts => {
+            const provider = getProvider();
+            if (context.length <= QUIZ_SINGLE_PASS_CHARS) return provider.generateQuiz(context, settings, QUIZ_MIN_QUESTIONS, opts);
+
+            const groups = packChunks(chunkMarkdown(context), Math.max(QUIZ_SINGLE_PASS_CHARS, Math.ceil(context.length / QUIZ_MAX_GROUPS)));
+            const count = Math.min(QUIZ_MAX_QUESTIONS, Math.max(QUIZ_MIN_QUESTIONS, groups.length * 2));
+            const perGroup = Math.ceil(count / groups.length);
+            const batches: QuizQuestion[][] = [];
+            for (const group of groups) {
+                throwIfAborted(opts.signal);
+                batches.push(await provider.generateQuiz(group, settings, perGroup, opts));
+            }
+            return interleaveQuestions(batches, count);
+        }));
+
+// Each turn retrieves its passages from the session's index (see
+// retrievalIndex.ts) rather than sending the notes whole.
+export const queryDeepDive = (
+    history: DeepDiveMessage[],
+    index: RetrievalIndex,
+    userMessage: string,
+    settings?: StudySettings,
+    options?: StageOptions
+): Promise<string> =>
+    runStage('DEEP_DIVE', options, () => {
+        // A follow-up ("and why?") leans on the previous turn for its subject.
+        const question = [history[history.length - 1]?.content, userMessage].filter(Boolean).join('\n');
+        const context = buildTutorContext(index, question);
+        return getProvider().queryDeepDive(history, context, userMessage, settings, options);
     });
 
-    return response.text || "I couldn't generate a response.";
-};
-
 // --- MEDIA GENERATION UTILS ---
+// Image and video generation are Gemini-only and bypass the provider layer,
+// calling the API server directly, but still go through the resilience
+// layer's retries and fallback chains.
+// They are the most expensive calls, so the spending budget gates them:
+// over budget, 2K/4K images are blocked or downgraded to 1K and Veo is blocked.
 
 export const generateImage = async (
   prompt: string, 
   size: "1K" | "2K" | "4K",
-  aspectRatio: "1:1" | "3:4" | "4:3" | "9:16" | "16:9"
+  aspectRatio: "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ai = getAiClient();
+  const budget = checkBudget();
+  if (budget.exceeded && size !== '1K') {
+    if (budget.mode === 'block') throw new BudgetExceededError(budget.reason!);
+    console.warn(`${budget.reason}; downgrading ${size} image to 1K`);
+    size = '1K';
+  }
   const isPro = size === '2K' || size === '4K';
-  const model = isPro ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-
-  const imageConfig: any = { aspectRatio };
-  if (isPro) imageConfig.imageSize = size;
-
-  const response = await generateContentWithFallback(model, {
-    contents: { parts: [{ text: prompt }] },
-    config: { imageConfig }
+  const chain = isPro ? resolveModelChain('IMAGE', GEMINI_MODEL_CHAINS.IMAGE) : ['gemini-2.5-flash-image'];
+  let usedModel = chain[0];
+
+  const response = await runWithFallbackChain('IMAGE', chain, { signal }, model => {
+    // Only Pro image models accept an explicit output size
+    const imageConfig: any = { aspectRatio };
+    if (model.includes('pro')) imageConfig.imageSize = size;
+    usedModel = model;
+
+    return postJson<any>('/images', {
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: { imageConfig }
+    }, signal);
   });
 
   for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+    if (part.inlineData) {
+      reportUsage('IMAGE', usedModel, { promptTokens: response.usageMetadata?.promptTokenCount, costUsd: estimateImageCost(usedModel, size) });
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
   }
   throw new Error("No image generated");
 };
 
-export const editImage = async (base64Image: string, mimeType: string, prompt: string): Promise<string> => {
-  const ai = getAiClient();
-  const response = await ai.models.generateContent({
+export const editImage = async (base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+  const response = await withRetry('IMAGE', 'gemini-2.5-flash-image', { signal }, () => postJson<any>('/images', {
     model: 'gemini-2.5-flash-image',
     contents: {
       parts: [
@@ -411,10 +269,13 @@ export const editImage = async (base64Image: string, mimeType: string, prompt: s
         { text: prompt }
       ]
     }
-  });
+  }, signal));
 
   for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+    if (part.inlineData) {
+      reportUsage('IMAGE', 'gemini-2.5-flash-image', { promptTokens: response.usageMetadata?.promptTokenCount, costUsd: estimateImageCost('gemini-2.5-flash-image', '1K') });
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
   }
   throw new Error("No edited image generated");
 };
@@ -423,12 +284,16 @@ export const generateVeoVideo = async (
   prompt: string,
   inputImageBase64?: string,
   inputImageMime?: string,
-  aspectRatio: '16:9' | '9:16' = '16:9'
+  aspectRatio: '16:9' | '9:16' = '16:9',
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ai = getAiClient(); 
+  // There is no cheaper video model to fall back to
+  const budget = checkBudget();
+  if (budget.exceeded) throw new BudgetExceededError(budget.reason!);
   
+  const model = GEMINI_MODEL_CHAINS.VIDEO[0];
   let params: any = {
-    model: 'veo-3.1-fast-generate-preview',
+    model,
     prompt: prompt,
     config: {
         numberOfVideos: 1,
@@ -442,16 +307,23 @@ export const generateVeoVideo = async (
   }
   
   try {
-      let operation = await ai.models.generateVideos(params);
+      let operation = await withRetry('VIDEO', model, { signal }, () => postJson<VideoOperation>('/videos', params, signal));
       while (!operation.done) {
-        await sleep(5000);
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+        await sleep(5000, signal);
+        const name = operation.name;
+        operation = await withRetry('VIDEO', model, { signal }, () => postJson<VideoOperation>('/videos/status', { name }, signal));
       }
+      throwIfAborted(signal);
+      if (operation.error) throw new Error(`Video generation failed: ${operation.error.message || 'unknown error'}`);
       const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
       if (!uri) throw new Error("Video generation failed");
+      reportUsage('VIDEO', model, { costUsd: estimateVideoCost(model) });
       return uri;
   } catch (error: any) {
       if (error.message?.includes("404")) throw new Error("Veo model requires paid tier.");
       throw error;
   }
 };
+
+// The video behind a URI from generateVeoVideo, downloaded by the API server
+export const fetchGeneratedVideo = (uri: string, signal?: AbortSignal): Promise<Blob> => downloadVideo(uri, signal);
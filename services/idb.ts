@@ -0,0 +1,78 @@
+
+// --- INDEXEDDB HELPERS ---
+// One database for everything too large or too structured for localStorage.
+// Stores are created in `onupgradeneeded`; bump DB_VERSION when adding one.
+
+const DB_NAME = 'studysim';
+const DB_VERSION = 6;
+
+export type StoreName = 'responseCache' | 'sessionDocuments' | 'sessionAudio' | 'recordings' | 'recordingChunks' | 'retrievalIndex' | 'experimentRuns';
+
+const STORES: Record<StoreName, IDBObjectStoreParameters> = {
+    responseCache: { keyPath: 'key' },
+    sessionDocuments: { keyPath: 'sessionId' },
+    sessionAudio: { keyPath: 'sessionId' },
+    recordings: { keyPath: 'id' },
+    recordingChunks: { keyPath: ['recordingId', 'index'] },
+    retrievalIndex: { keyPath: 'sessionId' },
+    experimentRuns: { keyPath: 'id' }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available"));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            (Object.keys(STORES) as StoreName[]).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, STORES[name]);
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. blocked upgrade)
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+    withStore(store, 'readonly', s => s.get(key));
+
+// `query` narrows the result to a key or key range (e.g. one recording's chunks).
+export const idbGetAll = <T>(store: StoreName, query?: IDBValidKey | IDBKeyRange): Promise<T[]> =>
+    withStore(store, 'readonly', s => s.getAll(query));
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.put(value));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+    await withStore(store, 'readwrite', s => s.clear());
+};
@@ -0,0 +1,249 @@
+
+import { idbGet, idbGetAll, idbPut, idbDelete } from './idb';
+
+// --- LECTURE RECORDER ---
+// Records long lectures without holding them in memory: MediaRecorder emits
+// a chunk every few seconds and each one is written to IndexedDB as it
+// arrives, together with updated recording metadata. A recording that was
+// never attached to a study session (tab crash, reload) is listed by
+// `listRecoverableRecordings` and can be reassembled from its chunks.
+
+export type RecorderState = 'idle' | 'recording' | 'paused' | 'stopping';
+
+export interface RecordingMeta {
+    id: string;
+    name: string;
+    mimeType: string;
+    startedAt: number;
+    // Recorded time excluding pauses, as of the last stored chunk
+    durationMs: number;
+    chunkCount: number;
+    sizeBytes: number;
+    // Set once the recording is stopped
+    finishedAt?: number;
+    // Set once a study session has saved the audio; the chunks are then redundant
+    sessionId?: string;
+}
+
+interface RecordingChunk {
+    recordingId: string;
+    index: number;
+    blob: Blob;
+}
+
+const CHUNK_INTERVAL_MS = 5000;
+
+// Containers Gemini accepts, in order of preference (Safari only records mp4)
+const RECORDING_FORMATS = [
+    { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+    { mimeType: 'audio/webm', extension: 'webm' },
+    { mimeType: 'audio/mp4', extension: 'm4a' }
+];
+
+const chunkRange = (recordingId: string) => IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+
+// --- STORED RECORDINGS ---
+export const listRecoverableRecordings = async (): Promise<RecordingMeta[]> =>
+    (await idbGetAll<RecordingMeta>('recordings'))
+        .filter(r => !r.sessionId && r.chunkCount > 0)
+        .sort((a, b) => b.startedAt - a.startedAt);
+
+export const assembleRecording = async (meta: RecordingMeta): Promise<File> => {
+    const chunks = await idbGetAll<RecordingChunk>('recordingChunks', chunkRange(meta.id));
+    if (chunks.length === 0) throw new Error("The recording contains no audio");
+    const blob = new Blob(chunks.sort((a, b) => a.index - b.index).map(c => c.blob), { type: meta.mimeType });
+    return new File([blob], meta.name, { type: meta.mimeType, lastModified: meta.startedAt });
+};
+
+export const discardRecording = async (recordingId: string) => {
+    await idbDelete('recordingChunks', chunkRange(recordingId));
+    await idbDelete('recordings', recordingId);
+};
+
+// Called once a session has stored its own copy of the audio.
+export const markRecordingSaved = async (recordingId: string, sessionId: string) => {
+    const meta = await idbGet<RecordingMeta>('recordings', recordingId);
+    if (meta) await idbPut('recordings', { ...meta, sessionId });
+};
+
+// Drops recordings already saved to a session (their File is gone after a reload).
+export const purgeSavedRecordings = async () => {
+    const saved = (await idbGetAll<RecordingMeta>('recordings')).filter(r => r.sessionId);
+    await Promise.all(saved.map(r => discardRecording(r.id)));
+};
+
+// --- RECORDER ---
+export interface LectureRecorderCallbacks {
+    onStateChange?: (state: RecorderState) => void;
+    // Input level between 0 and 1, once per animation frame while recording
+    onLevel?: (level: number) => void;
+    // A chunk could not be stored (e.g. storage quota); recording continues
+    onError?: (error: Error) => void;
+}
+
+export interface LectureRecorder {
+    readonly id: string;
+    start(): Promise<void>;
+    pause(): void;
+    resume(): void;
+    // Resolves with the whole recording once every chunk is stored. On failure
+    // (quota, no audio) the recorder is back to 'idle' and the chunks are kept.
+    stop(): Promise<File>;
+    // Stops and deletes everything recorded
+    cancel(): Promise<void>;
+    // Stops and releases the microphone but keeps the chunks for recovery
+    detach(): void;
+    elapsedMs(): number;
+}
+
+export const createLectureRecorder = (callbacks: LectureRecorderCallbacks = {}): LectureRecorder => {
+    const id = `rec_${Date.now()}`;
+    let state: RecorderState = 'idle';
+    let meta: RecordingMeta | null = null;
+    let stream: MediaStream | null = null;
+    let mediaRecorder: MediaRecorder | null = null;
+    let audioContext: AudioContext | null = null;
+    let levelFrame = 0;
+    // Chunk writes are chained so `stop` can wait for the last one.
+    let pendingWrites: Promise<void> = Promise.resolve();
+    let accumulatedMs = 0;
+    let resumedAt = 0;
+
+    const setState = (next: RecorderState) => {
+        state = next;
+        callbacks.onStateChange?.(next);
+    };
+
+    const elapsedMs = () => accumulatedMs + (state === 'recording' ? Date.now() - resumedAt : 0);
+
+    const storeChunk = (blob: Blob) => {
+        if (!meta || blob.size === 0) return;
+        const current = meta;
+        const index = current.chunkCount;
+        meta = { ...current, chunkCount: index + 1, sizeBytes: current.sizeBytes + blob.size, durationMs: elapsedMs() };
+        const updated = meta;
+        pendingWrites = pendingWrites
+            .then(() => idbPut<RecordingChunk>('recordingChunks', { recordingId: id, index, blob }))
+            .then(() => idbPut('recordings', updated))
+            .catch(e => callbacks.onError?.(e instanceof Error ? e : new Error(String(e))));
+    };
+
+    // RMS of the waveform, scaled so normal speech fills most of the meter
+    const startLevelMeter = (source: MediaStream) => {
+        if (!callbacks.onLevel) return;
+        audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        audioContext.createMediaStreamSource(source).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+        const tick = () => {
+            if (state === 'recording') {
+                analyser.getFloatTimeDomainData(samples);
+                const rms = Math.sqrt(samples.reduce((sum, v) => sum + v * v, 0) / samples.length);
+                callbacks.onLevel?.(Math.min(1, rms * 4));
+            } else {
+                callbacks.onLevel?.(0);
+            }
+            levelFrame = requestAnimationFrame(tick);
+        };
+        tick();
+    };
+
+    const release = () => {
+        cancelAnimationFrame(levelFrame);
+        audioContext?.close().catch(() => {});
+        audioContext = null;
+        stream?.getTracks().forEach(track => track.stop());
+        stream = null;
+    };
+
+    return {
+        id,
+
+        async start() {
+            if (state !== 'idle') return;
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const format = RECORDING_FORMATS.find(f => MediaRecorder.isTypeSupported(f.mimeType)) || RECORDING_FORMATS[1];
+            mediaRecorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+
+            const startedAt = Date.now();
+            const stamp = new Date(startedAt).toTimeString().slice(0, 8).replace(/:/g, '-');
+            meta = {
+                id,
+                name: `lecture_${stamp}.${format.extension}`,
+                // Codec parameters are dropped; models expect a bare container type
+                mimeType: format.mimeType.split(';')[0],
+                startedAt,
+                durationMs: 0,
+                chunkCount: 0,
+                sizeBytes: 0
+            };
+            await idbPut('recordings', meta);
+
+            mediaRecorder.ondataavailable = (e) => storeChunk(e.data);
+            mediaRecorder.start(CHUNK_INTERVAL_MS);
+            resumedAt = Date.now();
+            setState('recording');
+            startLevelMeter(stream);
+        },
+
+        pause() {
+            if (state !== 'recording' || !mediaRecorder) return;
+            mediaRecorder.pause();
+            accumulatedMs += Date.now() - resumedAt;
+            setState('paused');
+        },
+
+        resume() {
+            if (state !== 'paused' || !mediaRecorder) return;
+            mediaRecorder.resume();
+            resumedAt = Date.now();
+            setState('recording');
+        },
+
+        async stop() {
+            if (!mediaRecorder || !meta || state === 'idle' || state === 'stopping') throw new Error("The recorder is not running");
+            const recorder = mediaRecorder;
+            if (state === 'recording') accumulatedMs += Date.now() - resumedAt;
+            setState('stopping');
+            try {
+                // The final chunk arrives before `stop` fires.
+                await new Promise<void>(resolve => {
+                    recorder.onstop = () => resolve();
+                    recorder.stop();
+                });
+                release();
+                await pendingWrites;
+                meta = { ...meta, durationMs: accumulatedMs, finishedAt: Date.now() };
+                await idbPut('recordings', meta);
+                const file = await assembleRecording(meta);
+                setState('idle');
+                return file;
+            } catch (e) {
+                // Out of 'stopping', so the caller can show the error and discard
+                release();
+                setState('idle');
+                throw e;
+            }
+        },
+
+        async cancel() {
+            if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+                mediaRecorder.ondataavailable = null;
+                mediaRecorder.stop();
+            }
+            release();
+            setState('idle');
+            await pendingWrites;
+            await discardRecording(id);
+        },
+
+        detach() {
+            if (mediaRecorder && mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+            release();
+            setState('idle');
+        },
+
+        elapsedMs
+    };
+};
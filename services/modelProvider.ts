@@ -0,0 +1,93 @@
+
+import { StudyPlan, StudyResult, StudyReference, FactCheckClaim, QuizQuestion, DeepDiveMessage, TopicFacts, PipelineStage, StudySettings, StudyAttachment, ExtractedDocument, Transcript } from '../types';
+import { StageOptions } from './pipelineEvents';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiProvider';
+import { API_BASE_URL } from './apiClient';
+
+// --- PROVIDER CONTRACT ---
+// One method per pipeline stage. The UI only ever talks to geminiService,
+// which forwards each stage to whichever provider is active. Providers stream
+// their output and report token counts through `options.onEvent`.
+export interface StudyProvider {
+    id: ProviderId;
+    label: string;
+    // First model of the stage's fallback chain (part of the response cache key)
+    primaryModel(stage: PipelineStage): string;
+    // Whether files of this type can be sent inline (see attachments.ts)
+    canReadInline(mimeType: string): boolean;
+    // Optional: providers without audio input leave recordings untranscribed
+    transcribeAudio?(audio: StudyAttachment, options?: StageOptions): Promise<Transcript>;
+    getInterestingFacts(topic: string, documents: ExtractedDocument[] | undefined, options?: StageOptions): Promise<TopicFacts>;
+    analyzeStudyTopic(
+        input: string,
+        attachments: StudyAttachment[],
+        searchContext: string | undefined,
+        settings: StudySettings | undefined,
+        options?: StageOptions
+    ): Promise<StudyPlan>;
+    finalizeStudyPackage(
+        approvedPlan: string,
+        originalInput: string,
+        settings: StudySettings | undefined,
+        documents: ExtractedDocument[] | undefined,
+        // Numbered sources the notes should cite (see citations.ts)
+        references: StudyReference[],
+        options?: StageOptions
+    ): Promise<StudyResult>;
+    // Judges up to `maxClaims` statements of `notes` against `evidence`
+    factCheckNotes(
+        notes: string,
+        evidence: string,
+        settings: StudySettings | undefined,
+        maxClaims: number,
+        options?: StageOptions
+    ): Promise<FactCheckClaim[]>;
+    generateStudySimulator(
+        approvedPlan: string,
+        smartNotes: string,
+        customInstruction: string,
+        settings: StudySettings | undefined,
+        options?: StageOptions
+    ): Promise<string>;
+    // Rewrites a simulator that failed QA, given what the QA run observed
+    repairStudySimulator(code: string, errorLog: string, options?: StageOptions): Promise<string>;
+    generateQuiz(context: string, settings: StudySettings | undefined, questionCount: number, options?: StageOptions): Promise<QuizQuestion[]>;
+    queryDeepDive(
+        history: DeepDiveMessage[],
+        context: string,
+        userMessage: string,
+        settings: StudySettings | undefined,
+        options?: StageOptions
+    ): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'local';
+
+// --- SHARED RESPONSE HELPERS ---
+// JSON responses are parsed and validated in structuredOutput.ts.
+export const extractHtmlBlock = (text: string) => {
+    const match = text.match(/```html([\s\S]*?)```/);
+    return match ? match[1] : text;
+};
+
+// --- PROVIDER SELECTION ---
+// MODEL_PROVIDER=local points the pipeline at an OpenAI-compatible server
+// (Ollama, llama.cpp, LM Studio, vLLM...) so the app runs without a Gemini key.
+let activeProvider: StudyProvider | null = null;
+
+export const getProvider = (): StudyProvider => {
+    if (activeProvider) return activeProvider;
+
+    if (process.env.MODEL_PROVIDER === 'local') {
+        activeProvider = createOpenAiCompatibleProvider({
+            // The API server forwards to LOCAL_MODEL_URL
+            baseUrl: `${API_BASE_URL}/local`,
+            model: process.env.LOCAL_MODEL_NAME || 'llama3.1',
+            fallbackModels: (process.env.LOCAL_MODEL_FALLBACKS || '').split(',').map(m => m.trim()).filter(Boolean)
+        });
+    } else {
+        activeProvider = createGeminiProvider();
+    }
+    return activeProvider;
+};
@@ -0,0 +1,241 @@
+
+import { StudyProvider, extractHtmlBlock } from './modelProvider';
+import { PipelineStage, StageOptions, reportTokens } from './pipelineEvents';
+import { runWithFallbackChain, resolveModelChain } from './resilience';
+import { reportUsage } from './usageLedger';
+import { generateStructured, describeSchema, TOPIC_FACTS_SPEC, QUIZ_SPEC, FACT_CHECK_SPEC } from './structuredOutput';
+import { describeAttachments, formatTextAttachment } from './attachments';
+import {
+    buildFactsPrompt,
+    buildArchitectPrompt,
+    buildStudyGuidePrompt,
+    buildFactCheckPrompt,
+    buildSimulatorSystemPrompt,
+    buildSimulatorRequest,
+    buildSimulatorRepairRequest,
+    buildQuizPrompt,
+    buildTutorPrompt
+} from './prompts';
+
+// --- OPENAI-COMPATIBLE LOCAL PROVIDER ---
+// Talks to any server exposing POST /chat/completions (Ollama, llama.cpp,
+// LM Studio, vLLM), reached through the API server so its key stays there.
+// There is no web search offline, so Stage 1 relies on the model's own
+// knowledge and plans carry no grounded sources.
+export interface OpenAiCompatibleConfig {
+    baseUrl: string;
+    model: string;
+    // Tried in order after `model` (e.g. smaller quantizations)
+    fallbackModels?: string[];
+}
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface CompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ContentPart[];
+}
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): StudyProvider => {
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const defaultChain = [config.model, ...(config.fallbackModels || [])];
+
+    // Streams the completion (SSE) so token counts reach the UI as they arrive.
+    const streamCompletion = async (
+        model: string,
+        messages: CompletionMessage[],
+        stage: PipelineStage,
+        options?: StageOptions,
+        json: boolean = false
+    ): Promise<string> => {
+        const res = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model,
+                messages,
+                stream: true,
+                // Ask for a final chunk carrying token usage (ignored by servers that don't support it)
+                stream_options: { include_usage: true },
+                ...(json ? { response_format: { type: 'json_object' } } : {})
+            }),
+            signal: options?.signal
+        });
+        if (!res.ok || !res.body) {
+            // Keep the status so the resilience layer can tell 503 (model loading) from 400
+            throw Object.assign(new Error(`Local model request failed (${res.status}): ${await res.text()}`), { status: res.status });
+        }
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let text = "";
+        let tokens = 0;
+        let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || "";
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+                const payload = trimmed.slice(5).trim();
+                if (payload === '[DONE]') continue;
+                let parsed: any;
+                try {
+                    parsed = JSON.parse(payload);
+                } catch {
+                    // Keep-alives and server-specific notices aren't chunks
+                    continue;
+                }
+                usage = parsed.usage || usage;
+                const delta = parsed.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    // Servers emit roughly one token per delta.
+                    reportTokens(stage, options, ++tokens);
+                }
+            }
+        }
+
+        reportUsage(stage, model, {
+            promptTokens: usage?.prompt_tokens,
+            outputTokens: usage?.completion_tokens ?? tokens
+        }, options);
+        return text;
+    };
+
+    const complete = (
+        messages: CompletionMessage[],
+        stage: PipelineStage,
+        options?: StageOptions,
+        json: boolean = false
+    ): Promise<string> =>
+        runWithFallbackChain(stage, resolveModelChain(stage, defaultChain), options, model =>
+            streamCompletion(model, messages, stage, options, json));
+
+    return {
+        id: 'local',
+        label: `Local (${config.model})`,
+
+        primaryModel(stage) {
+            return resolveModelChain(stage, defaultChain)[0];
+        },
+
+        // Chat completions only accept images inline.
+        canReadInline(mimeType) {
+            return mimeType.startsWith('image/');
+        },
+
+        async getInterestingFacts(topic, documents, options) {
+            return generateStructured(TOPIC_FACTS_SPEC, repairPrompt =>
+                complete([{ role: 'user', content: repairPrompt || buildFactsPrompt(topic, false, documents) }], 'RESEARCH', options, true));
+        },
+
+        async analyzeStudyTopic(input, attachments, searchContext, settings, options) {
+            const content: ContentPart[] = [];
+
+            attachments.forEach(attachment => {
+                if (attachment.status === 'inline' && attachment.data) {
+                    content.push({ type: 'text', text: `Attachment: ${attachment.name}` });
+                    content.push({ type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } });
+                } else if (attachment.status === 'text') {
+                    content.push({ type: 'text', text: formatTextAttachment(attachment) });
+                }
+            });
+            if (attachments.length > 0) content.push({ type: 'text', text: describeAttachments(attachments) });
+            content.push({ type: 'text', text: input || "Analyze the provided material." });
+
+            try {
+                const text = await complete([
+                    { role: 'system', content: buildArchitectPrompt(searchContext, settings, attachments.some(a => a.document)) },
+                    { role: 'user', content }
+                ], 'ARCHITECT', options);
+                return { markdownPlan: text || "No plan generated.", sources: [] };
+            } catch (error) {
+                console.error("Study Analysis Error:", error);
+                throw error;
+            }
+        },
+
+        async finalizeStudyPackage(approvedPlan, originalInput, settings, documents, references, options) {
+            try {
+                const text = await complete([
+                    { role: 'system', content: buildStudyGuidePrompt(originalInput, settings, documents, references) },
+                    { role: 'user', content: `APPROVED PLAN:\n${approvedPlan}\n\nProceed to generate the Study Guide.` }
+                ], 'NOTES', options);
+                return { markdown: text || "No content.", simulatorCode: "" };
+            } catch (error) {
+                console.error("Study Build Error:", error);
+                throw error;
+            }
+        },
+
+        async factCheckNotes(notes, evidence, settings, maxClaims, options) {
+            const prompt = buildFactCheckPrompt(notes, evidence, settings, maxClaims) + `
+    Return a JSON object of the form:
+    ${JSON.stringify(describeSchema(FACT_CHECK_SPEC.schema))}
+    `;
+            const result = await generateStructured(FACT_CHECK_SPEC, repairPrompt =>
+                complete([{ role: 'user', content: repairPrompt || prompt }], 'VERIFY', options, true));
+            return result.claims;
+        },
+
+        async generateStudySimulator(approvedPlan, smartNotes, customInstruction, settings, options) {
+            const sections: string[] = [];
+            if (approvedPlan) sections.push(`GAME DESIGN DOC:\n${approvedPlan}`);
+            if (smartNotes) sections.push(`PHYSICS CONTEXT:\n${smartNotes}`);
+            sections.push(buildSimulatorRequest(customInstruction, settings));
+
+            try {
+                const text = await complete([
+                    { role: 'system', content: buildSimulatorSystemPrompt() },
+                    { role: 'user', content: sections.join('\n\n') }
+                ], 'SIMULATOR', options);
+                return extractHtmlBlock(text);
+            } catch (error) {
+                console.error("Simulator Gen Error:", error);
+                throw error;
+            }
+        },
+
+        async repairStudySimulator(code, errorLog, options) {
+            const text = await complete([
+                { role: 'system', content: buildSimulatorSystemPrompt() },
+                { role: 'user', content: buildSimulatorRepairRequest(code, errorLog) }
+            ], 'SIMULATOR', options);
+            return extractHtmlBlock(text);
+        },
+
+        async generateQuiz(context, settings, questionCount, options) {
+            // No schema enforcement here, so the expected shape is spelled out in the prompt.
+            const prompt = buildQuizPrompt(context, settings, questionCount) + `
+    Return a JSON object of the form:
+    ${JSON.stringify(describeSchema(QUIZ_SPEC.schema))}
+    `;
+            const quiz = await generateStructured(QUIZ_SPEC, repairPrompt =>
+                complete([{ role: 'user', content: repairPrompt || prompt }], 'QUIZ', options, true));
+            return quiz.questions;
+        },
+
+        async queryDeepDive(history, context, userMessage, settings, options) {
+            const messages: CompletionMessage[] = [
+                { role: 'system', content: buildTutorPrompt(context, settings) },
+                ...history.map(msg => ({
+                    role: (msg.role === 'user' ? 'user' : 'assistant') as CompletionMessage['role'],
+                    content: msg.content
+                })),
+                { role: 'user', content: userMessage }
+            ];
+            const text = await complete(messages, 'DEEP_DIVE', options);
+            return text || "I couldn't generate a response.";
+        }
+    };
+};
@@ -0,0 +1,128 @@
+
+import { PipelineStage, StageModelRecord, UsageRecord } from '../types';
+import { throwIfAborted } from './cancellation';
+
+// --- PIPELINE EVENTS ---
+// Stages report what they are actually doing so the UI can show real progress
+// instead of a timer. Every stage function accepts StageOptions; pass
+// `onEvent` to observe it and `signal` to cancel it.
+
+export type { PipelineStage } from '../types';
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+    TRANSCRIBE: 'Transcription',
+    RESEARCH: 'Deep Research',
+    ARCHITECT: 'Architect Plan',
+    NOTES: 'Study Guide',
+    VERIFY: 'Fact Check',
+    SIMULATOR: 'Simulator Code',
+    QUIZ: 'Quiz',
+    DEEP_DIVE: 'Deep Dive',
+    IMAGE: 'Image',
+    VIDEO: 'Video'
+};
+
+export type PipelineEvent =
+    | { type: 'stage-started'; stage: PipelineStage; at: number }
+    | { type: 'stage-finished'; stage: PipelineStage; at: number; durationMs: number }
+    // `tokens` is the running total of output tokens received so far for the stage.
+    | { type: 'tokens-received'; stage: PipelineStage; at: number; tokens: number }
+    | { type: 'stage-failed'; stage: PipelineStage; at: number; durationMs: number; error: string }
+    // Resilience layer: a transient error is being retried after `delayMs`.
+    | { type: 'retry-scheduled'; stage: PipelineStage; at: number; model: string; attempt: number; delayMs: number; reason: string }
+    | { type: 'model-fallback'; stage: PipelineStage; at: number; from: string; to: string; reason: string }
+    // The model that actually produced the stage's output.
+    | { type: 'model-used'; stage: PipelineStage; at: number; record: StageModelRecord }
+    // Served from the response cache; `createdAt` is when the entry was stored.
+    | { type: 'cache-hit'; stage: PipelineStage; at: number; createdAt: number }
+    // A model call finished and was priced (see usageLedger.ts).
+    | { type: 'usage'; stage: PipelineStage; at: number; record: UsageRecord };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+export interface StageOptions {
+    onEvent?: PipelineListener;
+    signal?: AbortSignal;
+    // Skip the response cache lookup (the fresh result is still stored)
+    bypassCache?: boolean;
+}
+
+export const emitPipelineEvent = (options: StageOptions | undefined, event: PipelineEvent) => {
+    try {
+        options?.onEvent?.(event);
+    } catch (e) {
+        // A broken listener must never take the pipeline down with it.
+        console.error("Pipeline listener error", e);
+    }
+};
+
+export const reportTokens = (stage: PipelineStage, options: StageOptions | undefined, tokens: number) => {
+    emitPipelineEvent(options, { type: 'tokens-received', stage, at: Date.now(), tokens });
+};
+
+// Rough output-token estimate for providers that don't stream usage counts.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Wraps a stage so it always emits started + finished/failed, with timing.
+export const runStage = async <T>(
+    stage: PipelineStage,
+    options: StageOptions | undefined,
+    task: () => Promise<T>
+): Promise<T> => {
+    throwIfAborted(options?.signal);
+    const startedAt = Date.now();
+    emitPipelineEvent(options, { type: 'stage-started', stage, at: startedAt });
+    try {
+        const value = await task();
+        const at = Date.now();
+        emitPipelineEvent(options, { type: 'stage-finished', stage, at, durationMs: at - startedAt });
+        return value;
+    } catch (error: any) {
+        const at = Date.now();
+        emitPipelineEvent(options, { type: 'stage-failed', stage, at, durationMs: at - startedAt, error: error?.message || String(error) });
+        throw error;
+    }
+};
+
+// --- UI STATE ---
+export interface StageProgress {
+    status: 'pending' | 'running' | 'done' | 'failed';
+    startedAt?: number;
+    durationMs?: number;
+    tokens?: number;
+    error?: string;
+    model?: string;
+    // Human-readable note while the resilience layer retries or falls back
+    notice?: string;
+    cached?: boolean;
+    costUsd?: number;
+}
+
+export type PipelineProgress = Partial<Record<PipelineStage, StageProgress>>;
+
+export const createPipelineProgress = (stages: PipelineStage[]): PipelineProgress =>
+    Object.fromEntries(stages.map(stage => [stage, { status: 'pending' }]));
+
+export const reducePipelineEvent = (progress: PipelineProgress, event: PipelineEvent): PipelineProgress => {
+    const current = progress[event.stage] || { status: 'pending' };
+    switch (event.type) {
+        case 'stage-started':
+            return { ...progress, [event.stage]: { status: 'running', startedAt: event.at, tokens: 0 } };
+        case 'tokens-received':
+            return { ...progress, [event.stage]: { ...current, tokens: event.tokens } };
+        case 'stage-finished':
+            return { ...progress, [event.stage]: { ...current, status: 'done', durationMs: event.durationMs } };
+        case 'stage-failed':
+            return { ...progress, [event.stage]: { ...current, status: 'failed', durationMs: event.durationMs, error: event.error } };
+        case 'retry-scheduled':
+            return { ...progress, [event.stage]: { ...current, notice: `Retrying ${event.model} in ${Math.round(event.delayMs / 1000)}s (${event.reason})` } };
+        case 'model-fallback':
+            return { ...progress, [event.stage]: { ...current, notice: `Falling back to ${event.to}` } };
+        case 'model-used':
+            return { ...progress, [event.stage]: { ...current, model: event.record.model, notice: undefined } };
+        case 'cache-hit':
+            return { ...progress, [event.stage]: { ...current, cached: true } };
+        case 'usage':
+            return { ...progress, [event.stage]: { ...current, costUsd: (current.costUsd || 0) + event.record.costUsd } };
+    }
+};
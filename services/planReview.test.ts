@@ -0,0 +1,66 @@
+
+import { describe, expect, it } from 'vitest';
+import { joinPlanSections, splitPlanSections } from './planReview';
+
+const PLAN = `# Game Design Document
+Intro line.
+
+## 1. Learning Goals
+- Newton's second law
+
+### Forces
+Net force and mass.
+
+## 2. Simulator ##
+\`\`\`js
+## not a heading
+const F = m * a;
+\`\`\`
+Sliders for mass.`;
+
+describe('splitPlanSections', () => {
+    it('splits on ## and ### headings and keeps the text before them', () => {
+        expect(splitPlanSections(PLAN).map(s => `${s.level} ${s.heading}`)).toEqual([
+            '0 ',
+            '2 1. Learning Goals',
+            '3 Forces',
+            '2 2. Simulator'
+        ]);
+        expect(splitPlanSections(PLAN)[0].body).toBe('# Game Design Document\nIntro line.');
+    });
+
+    it('ignores headings inside code fences', () => {
+        const simulator = splitPlanSections(PLAN)[3];
+        expect(simulator.body).toBe('```js\n## not a heading\nconst F = m * a;\n```\nSliders for mass.');
+    });
+
+    it('gives every section its own id', () => {
+        const ids = splitPlanSections(PLAN).map(s => s.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('reads Windows line endings', () => {
+        expect(splitPlanSections('## A\r\nBody\r\n## B\r\n').map(s => s.body)).toEqual(['Body', '']);
+    });
+});
+
+describe('joinPlanSections', () => {
+    it('round-trips a split plan', () => {
+        expect(joinPlanSections(splitPlanSections(PLAN))).toBe(PLAN.replace('## 2. Simulator ##', '## 2. Simulator'));
+    });
+
+    it('follows the new order and drops empty sections', () => {
+        const [intro, goals, forces] = splitPlanSections(PLAN);
+        expect(joinPlanSections([forces, { ...intro, body: ' ' }, goals])).toBe("### Forces\nNet force and mass.\n\n## 1. Learning Goals\n- Newton's second law");
+    });
+
+    it('appends the student constraints as a final section that overrides the plan', () => {
+        const joined = joinPlanSections(splitPlanSections('## Goals\nOne.'), '  Use SI units only.  ');
+        expect(joined).toBe('## Goals\nOne.\n\n## ✍️ Student Constraints\n'
+            + 'The student added these requirements. They override the plan above wherever the two disagree:\nUse SI units only.');
+    });
+
+    it('leaves out blank constraints', () => {
+        expect(joinPlanSections(splitPlanSections('## Goals\nOne.'), '\n  ')).toBe('## Goals\nOne.');
+    });
+});
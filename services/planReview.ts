@@ -0,0 +1,58 @@
+
+// --- PLAN REVIEW ---
+// With review on, a run pauses after the Architect (the REVIEW step) and the
+// plan is shown split into its sections: the "##" parts of the Game Design
+// Document and the "###" topics inside them. The student can edit, reorder or
+// drop them and add constraints; the joined result is the approved plan the
+// notes stage receives.
+
+export interface PlanSection {
+    id: string;
+    // Empty for text before the first heading
+    heading: string;
+    // 2 or 3; 0 for text before the first heading
+    level: number;
+    body: string;
+}
+
+const CONSTRAINTS_HEADING = '## ✍️ Student Constraints';
+
+// Headings inside code fences (the GDD sometimes sketches code) are not sections.
+export const splitPlanSections = (markdown: string): PlanSection[] => {
+    const sections: PlanSection[] = [];
+    let current: PlanSection = { id: 'section-0', heading: '', level: 0, body: '' };
+    let fence: string | null = null;
+
+    const close = () => {
+        current.body = current.body.replace(/^\n+|\s+$/g, '');
+        if (current.heading || current.body) sections.push(current);
+    };
+
+    markdown.split(/\r?\n/).forEach(line => {
+        const trimmed = line.trim();
+        const fenceMark = trimmed.match(/^(```|~~~)/);
+        if (fence) {
+            if (trimmed.startsWith(fence)) fence = null;
+        } else if (fenceMark) {
+            fence = fenceMark[1];
+        } else {
+            const heading = line.match(/^(#{2,3})\s+(.+?)\s*#*\s*$/);
+            if (heading) {
+                close();
+                current = { id: `section-${sections.length + 1}`, heading: heading[2], level: heading[1].length, body: '' };
+                return;
+            }
+        }
+        current.body += `${line}\n`;
+    });
+    close();
+    return sections;
+};
+
+export const joinPlanSections = (sections: PlanSection[], constraints: string = ''): string => {
+    const parts = sections.map(s => s.heading ? `${'#'.repeat(s.level)} ${s.heading}\n${s.body}`.trim() : s.body.trim()).filter(Boolean);
+    if (constraints.trim()) {
+        parts.push(`${CONSTRAINTS_HEADING}\nThe student added these requirements. They override the plan above wherever the two disagree:\n${constraints.trim()}`);
+    }
+    return parts.join('\n\n');
+};
@@ -0,0 +1,503 @@
+
+import { PipelineStage } from '../types';
+
+// --- PROMPT TEMPLATE REGISTRY ---
+// Every prompt the pipeline sends is a versioned template with named
+// `{{variables}}` and `{{#if flag}}...{{else}}...{{/if}}` blocks. Power users
+// can fork a template in Settings → Prompts; forks live in localStorage and
+// carry their own revision so sessions (and cache keys) record exactly which
+// wording produced them. Bump a default's `version` whenever its text changes.
+
+export type PromptTemplateId =
+    | 'transcript'
+    | 'facts'
+    | 'architect'
+    | 'study-guide'
+    | 'fact-check'
+    | 'simulator-system'
+    | 'simulator-request'
+    | 'simulator-repair'
+    | 'quiz'
+    | 'tutor';
+
+export interface PromptVariable {
+    name: string;
+    description: string;
+    // Used by the settings preview
+    sample: string | boolean | number;
+}
+
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    name: string;
+    stage: PipelineStage;
+    version: number;
+    variables: PromptVariable[];
+    body: string;
+}
+
+export interface PromptFork {
+    body: string;
+    // Default version the fork was made from
+    baseVersion: number;
+    revision: number;
+    updatedAt: number;
+}
+
+export type PromptVars = Record<string, string | boolean | number | undefined>;
+
+// --- DEFAULT TEMPLATES ---
+// Language options from the input card (see studySettings.ts)
+const LANGUAGE_VARIABLES: PromptVariable[] = [
+    { name: 'language', description: 'Output language, e.g. "Hindi (हिन्दी)"', sample: 'Hindi (हिन्दी)' },
+    { name: 'nonEnglish', description: 'True when the output language is not English', sample: true },
+    { name: 'englishGlosses', description: 'Add English names after technical terms', sample: true }
+];
+
+// Audience options from the input card, including the language
+const AUDIENCE_VARIABLES: PromptVariable[] = [
+    { name: 'level', description: 'Audience level', sample: 'Undergraduate' },
+    { name: 'length', description: 'Target length', sample: 'Standard (roughly 2000-3000 words)' },
+    { name: 'emphasis', description: 'What to stress', sample: 'Conceptual understanding and intuition' },
+    ...LANGUAGE_VARIABLES
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+    'transcript': {
+        id: 'transcript',
+        name: 'Lecture Transcript',
+        stage: 'TRANSCRIBE',
+        version: 1,
+        variables: [
+            { name: 'fileName', description: 'Name of the recording', sample: 'Lecture3.webm' }
+        ],
+        body: `
+    Transcribe the attached recording "{{fileName}}" (usually a lecture or a student's voice note).
+
+    Rules:
+    - Write what is said in the language it is spoken. Drop filler words ("um", "uh") and false starts.
+    - Start a new line at each sentence or natural pause. "startSec" is the number of seconds from the
+      start of the recording at which the line begins.
+    - Group consecutive lines into segments, starting a new segment whenever the speaker moves on to a new
+      topic. Give each segment a short descriptive "title" and the "startSec" of its first line.
+    - Mark inaudible passages as [inaudible]. Never invent content.
+
+    Output strictly valid JSON, no markdown fences:
+    {
+      "segments": [
+        { "title": "Topic", "startSec": 0, "lines": [{ "startSec": 0, "text": "..." }] }
+      ]
+    }
+    `
+    },
+
+    'facts': {
+        id: 'facts',
+        name: 'Deep Research',
+        stage: 'RESEARCH',
+        version: 2,
+        variables: [
+            { name: 'topic', description: 'What the student typed, plus attached file names', sample: 'Projectile Motion' },
+            { name: 'canSearch', description: 'Whether the model has Google Search', sample: true },
+            { name: 'sourceMaterial', description: 'Text extracted from attached documents, tagged with page/section anchors', sample: '--- FILE: Lecture3.pdf ---\n[Lecture3.pdf p.1]\nProjectile motion...' }
+        ],
+        body: `
+    {{#if canSearch}}Perform a Google Search for the topic: "{{topic}}".{{else}}Use your own knowledge of the topic: "{{topic}}". You have no internet access.{{/if}}
+
+    Tasks:
+    1. Extract exactly 20 interesting, obscure, or key facts about this topic.
+    2. Write a comprehensive summary of {{#if canSearch}}the search results{{else}}what you know{{/if}} to act as "Context" for a deep study guide.
+    {{#if sourceMaterial}}
+
+    The student attached these documents. Treat them as the primary source: draw facts from them first and
+    cite the page or section for anything taken from them, e.g. [Lecture3.pdf p.12].
+    {{sourceMaterial}}
+    {{/if}}
+
+    Output Format:
+    You must output strictly valid JSON. Do not include markdown formatting (like \`\`\`json).
+    The JSON structure must be:
+    {
+      "facts": ["Fact 1", "Fact 2", ...],
+      "searchContext": "Detailed summary..."
+    }
+    `
+    },
+
+    'architect': {
+        id: 'architect',
+        name: 'Architect Plan',
+        stage: 'ARCHITECT',
+        version: 4,
+        variables: [
+            { name: 'searchContext', description: 'Summary produced by Deep Research (empty if none)', sample: 'Projectile motion is the motion of an object thrown into the air...' },
+            { name: 'hasDocuments', description: 'Whether extracted document text is attached', sample: true },
+            ...AUDIENCE_VARIABLES
+        ],
+        body: `
+  You are "StudySim AI" - Phase 2: Architect.
+
+  Your goal is to convert the user's topic into a "Game Design Document" for an interactive HTML5 simulator.
+
+  ### CRITICAL REQUIREMENT: SPATIAL GRID SYSTEM
+  You must plan the simulator layout using this strict coordinate system:
+  - **INPUTS (x=150)**: Where sliders, toggles, and controls live.
+  - **LOGIC (x=400)**: Where the transformation, physics, or main subject is visualized.
+  - **OUTPUTS (x=650)**: Where graphs, meters, or results are displayed.
+
+  You must explicitly plan to DRAW WIRES (\`ctx.lineTo\`) connecting these zones to visualize the flow of information or physics.
+
+  ### OUTPUT FORMAT
+  Return a structured Markdown plan with headers:
+  ## 🧐 Analysis & Context
+  ## 🎮 Simulator Concept (Game Design Document)
+  ## 🎨 Visual Identity
+  ## 🔍 Verified Sources
+
+  ### AUDIENCE
+  - **Level**: {{level}}
+  - **Emphasis**: {{emphasis}}
+  Pitch the analysis and the simulator's controls, labels and complexity at this audience.
+  {{#if nonEnglish}}
+  ### LANGUAGE
+  Write the plan in {{language}}, and plan every on-screen label, tooltip and explanation of the simulator in {{language}} too.
+  Keep the grid coordinates, code identifiers and LaTeX in standard notation.
+  {{/if}}{{#if englishGlosses}}
+  Follow each technical term's first use with its English name in parentheses.
+  {{/if}}
+  {{#if hasDocuments}}
+  ### ATTACHED DOCUMENTS
+  The student's documents are attached as text tagged with anchors like [Lecture3.pdf p.12]. Build the plan around them,
+  cite the anchor whenever you rely on one, and list the documents under Verified Sources.
+  {{/if}}
+  {{#if searchContext}}
+      ### CONTEXT FROM STAGE 1
+      Use this verified context as your primary source of truth:
+      "{{searchContext}}"
+  {{/if}}`
+    },
+
+    'study-guide': {
+        id: 'study-guide',
+        name: 'Study Guide',
+        stage: 'NOTES',
+        version: 5,
+        variables: [
+            { name: 'topic', description: 'What the student typed', sample: 'Projectile Motion' },
+            { name: 'references', description: 'Numbered list of research sources and uploaded documents to cite', sample: '[1] Projectile motion - Wikipedia — https://en.wikipedia.org/wiki/Projectile_motion\n[2] Lecture3.pdf (uploaded document; add the page or section)' },
+            { name: 'sources', description: 'Text extracted from attached documents, tagged with page/section anchors', sample: '--- FILE: Lecture3.pdf ---\n[Lecture3.pdf p.1]\nProjectile motion...' },
+            ...AUDIENCE_VARIABLES
+        ],
+        body: `
+  # STAGE 1: MASTER EDUCATIONAL CONTENT GENERATOR
+
+  # INPUT TOPIC
+  Topic: "{{topic}}" (Difficulty Level: {{level}})
+
+  # AUDIENCE
+  - **Target Length:** {{length}}
+  - **Emphasis:** {{emphasis}}
+
+  {{#if nonEnglish}}
+  # LANGUAGE
+  Write the entire guide in {{language}}: prose, headings, tables, short notes and image placeholder descriptions.
+  Keep LaTeX, symbols and SI units in standard notation, and keep the \`[IMAGE: ...]\` tag itself in English.
+  {{/if}}{{#if englishGlosses}}
+  After the first use of each technical term, give its English name in parentheses, e.g. "वेग (velocity)".
+  {{/if}}
+  # GOAL
+  Generate a high-quality, textbook-grade study guide.
+  You must prioritize **READABILITY** and **CLEAN FORMATTING** above all else.
+
+  # STRICT FORMATTING RULES (CRITICAL)
+  1. **NO WEIRD SYMBOLS:** - DO NOT use symbols like ◼, ◆, ❖, ⬢, ▓.
+     - **ONLY use asterisks (*)** for bullet points.
+     - Use standard Headers: #, ##, ###, ####.
+
+  2. **MATHEMATICS & FORMULAS:**
+     - **NO DUPLICATION:** Never write "Vf Vf". Write clearly.
+     - **USE LATEX:** Enclose all math in single dollar signs \`$\`.
+     - Correct: "The voltage is $V = I \\times R$."
+     - Incorrect: "V = I x R" or "V (V) = ...".
+
+  3. **SECTION STRUCTURE:**
+     - **Section 1: Deep Dive** (Detailed explanation, tables, "Why" and "How").
+     - **Section 2: Short Notes** (Rapid revision, keywords, key formulas).
+
+  4. **VISUAL PLACEHOLDERS:**
+     - Do not generate ASCII art.
+     - Use tags like: \`[IMAGE: Diagram of a Diode]\` where appropriate.
+
+  {{#if references}}
+  # CITATIONS
+  After each statement taken from a source, cite its number in square brackets, e.g. "[1]".
+  For an uploaded document add the page or section from its passage tag, e.g. "[2, p.12]"; cite several sources as "[1][2]".
+  Use only the numbers below and do not write a References section; one is added for you.
+  {{references}}
+
+  {{/if}}{{#if sources}}
+  # SOURCE MATERIAL
+  The student attached these documents. Base the guide on them. Passages are tagged "[file anchor]"; cite them by the file's reference number and the anchor.
+  {{sources}}
+
+  {{/if}}
+  # OUTPUT CONTENT
+  Generate the content now, following the rules above strictly.
+  `
+    },
+
+    // Evidence and corrections use double-escaped LaTeX, like the quiz.
+    'fact-check': {
+        id: 'fact-check',
+        name: 'Fact Check',
+        stage: 'VERIFY',
+        version: 1,
+        variables: [
+            { name: 'notes', description: 'The study notes, or one part of a long guide', sample: '## Projectile Motion\nThe range is $R = \\frac{v^2 \\sin 2\\theta}{g}$...' },
+            { name: 'evidence', description: 'Stage 1 research summary, numbered references and extracted source text', sample: 'RESEARCH SUMMARY:\nProjectile motion...\n\nREFERENCES:\n[1] Projectile motion - Wikipedia' },
+            { name: 'maxClaims', description: 'Most statements to check in this part', sample: 12 },
+            ...LANGUAGE_VARIABLES
+        ],
+        body: `
+    You are fact-checking part of a study guide against the research it was written from.
+
+    STUDY GUIDE EXCERPT:
+    {{notes}}
+
+    EVIDENCE:
+    {{evidence}}
+
+    Tasks:
+    1. Pick out up to {{maxClaims}} checkable statements from the excerpt, most consequential first: numerical values,
+       constants, units, dates, names, definitions, causal claims, and every formula or equation ("kind": "formula").
+       Skip analogies, study advice and opinions.
+    2. Judge each one against the evidence and well-established knowledge:
+       - "supported": the evidence agrees with it.
+       - "disputed": the evidence contradicts it, or it is a clear error (a wrong constant, a sign or unit error,
+         a misattributed law, a formula that does not hold).
+       - "unverifiable": the evidence does not cover it and you are not certain either way.
+    3. For every disputed statement write a "correction": the quote rewritten so it is right, changing as little as
+       possible and keeping its markdown, LaTeX and citation markers.
+
+    Rules:
+    - "quote" must be copied character for character from the excerpt (markdown and LaTeX included) and be short:
+      one sentence, one table cell or one formula.
+    - "evidence" says in one or two sentences what the sources say and why the verdict follows.
+    - "source" is the reference number the evidence comes from (e.g. "[2]" or "[2, p.12]"), "Research summary",
+      or "General knowledge".
+    {{#if nonEnglish}}
+    - Write evidence and corrections in {{language}}, like the notes. Keep the JSON keys and verdicts in English.
+    {{/if}}
+    - For any math or LaTeX, use DOUBLE backslashes to escape them properly in the JSON string.
+
+    Output strictly valid JSON, no markdown fences:
+    {
+      "claims": [
+        { "quote": "...", "kind": "claim", "verdict": "disputed", "evidence": "...", "correction": "...", "source": "[1]" }
+      ]
+    }
+    `
+    },
+
+    'simulator-system': {
+        id: 'simulator-system',
+        name: 'Simulator Architect',
+        stage: 'SIMULATOR',
+        version: 2,
+        variables: [],
+        body: `
+  You are "StudySim AI" - Phase 3: Simulator Architect.
+
+  Your goal is to write a robust, SINGLE-FILE HTML5/Canvas simulation that looks like a high-end educational app (Apple-style design).
+
+  ### DESIGN ARCHITECTURE: HYBRID UI
+  1. **Visualization Layer (Canvas)**: Use a full-screen \`<canvas>\` for the physics/visualization. It should be the background.
+  2. **Control Layer (HTML Overlay)**: Do NOT draw UI controls on the canvas. Instead, create a floating HTML \`div\` (Sidebar or Floating Card) positioned over the canvas using absolute positioning.
+  3. **Style (Glassmorphism)**: The Control Panel should use \`backdrop-blur-md\`, \`bg-white/10\`, and white text. Use Tailwind CSS for all styling.
+
+  ### LAYOUT & RESPONSIVENESS
+  - The Canvas must resize dynamically to fill the window (\`window.addEventListener('resize', ...)\`).
+  - The Control Panel should be collapsible or neatly positioned (e.g., \`top-4 left-4 w-80\`).
+
+  ### FUNCTIONALITY
+  - **Inputs**: Use native \`<input type="range">\` sliders for smooth interaction. Connect them to the physics variables in real-time.
+  - **Physics Loop**: Use \`requestAnimationFrame\`.
+  - **Features**:
+    - Include a "Reset" button.
+    - Show real-time values next to sliders.
+    - Add tooltips to variables.
+
+  ### HOST BRIDGE
+  The page provides \`window.StudySim\` before your script runs. Use it so the app around the simulator can read and drive it:
+  - Register every slider parameter: \`StudySim.registerParam('gravity', { label: 'Gravity', min: 1, max: 20, step: 0.1, unit: 'm/s²', get: () => state.gravity, set: v => { slider.value = v; state.gravity = v; updateLabel(); } })\`.
+  - Register the quantities a student would measure: \`StudySim.registerOutput('height', { label: 'Height', unit: 'm' })\`.
+  - Call \`StudySim.emit({ height: y, velocity: vy })\` from the animation loop with their current values.
+  - After Reset or any change the simulator makes to a parameter itself, call \`StudySim.paramChanged()\`.
+
+  ### CRITIC_MODE: CHECKS
+  - **Visual Check**: Are components overlapping? Ensure the canvas z-index is 0 and UI z-index is 10.
+  - **Physics Check**: Ensure variables like 'speed' or 'gravity' can't be set to values that break the sim (e.g. 0 or Infinity).
+
+  ### OUTPUT
+  Return ONLY the valid HTML code wrapped in \`\`\`html\`\`\`.
+  The script must be embedded and execute immediately.
+  `
+    },
+
+    'simulator-request': {
+        id: 'simulator-request',
+        name: 'Simulator Request',
+        stage: 'SIMULATOR',
+        version: 3,
+        variables: [
+            { name: 'customInstruction', description: 'Extra instructions typed when regenerating', sample: 'Add a wind slider' },
+            ...AUDIENCE_VARIABLES
+        ],
+        body: `Generate the HTML5 Simulator now. Ensure the UI is Modern Glassmorphism using Tailwind.
+
+AUDIENCE: {{level}}. EMPHASIS: {{emphasis}}. Match labels, ranges and explanatory text to this audience.{{#if nonEnglish}}
+
+LANGUAGE: Write every visible label, button, tooltip and explanation in {{language}} and set the matching \`lang\` and \`dir\` attributes on the \`<html>\` element. Keep code identifiers and units in English.{{/if}}{{#if englishGlosses}} Follow technical terms with their English name in parentheses.{{/if}}{{#if customInstruction}}
+
+USER OVERRIDE/CUSTOM INSTRUCTIONS: {{customInstruction}}{{/if}}`
+    },
+
+    'simulator-repair': {
+        id: 'simulator-repair',
+        name: 'Simulator Repair',
+        stage: 'SIMULATOR',
+        version: 2,
+        variables: [
+            { name: 'code', description: 'The simulator HTML that failed QA', sample: '<!DOCTYPE html>\n<html>...</html>' },
+            { name: 'errorLog', description: 'What the QA run or the lint found, one problem per line', sample: '- Uncaught exception: TypeError: Cannot read properties of null (reading \'getContext\') (line 42)\n- The canvas stayed blank for the whole run' }
+        ],
+        body: `The simulator below failed automated QA: either a few seconds' run in a sandboxed frame or a static check
+of its code against the simulator requirements.
+
+QA LOG:
+{{errorLog}}
+
+SIMULATOR:
+\`\`\`html
+{{code}}
+\`\`\`
+
+Fix every problem in the log. Find the root cause rather than wrapping code in try/catch to hide it: a missing
+element, a variable used before it is defined, a canvas sized 0x0 because it was measured before layout, a draw loop
+that never starts. The canvas must draw something visible on the first frames, without any user interaction.
+Keep the design, controls, labels and language unless they are the cause. Return the complete corrected document.`
+    },
+
+    // IMPORTANT: Request double escaped backslashes for valid JSON parsing of LaTeX
+    'quiz': {
+        id: 'quiz',
+        name: 'Quiz',
+        stage: 'QUIZ',
+        version: 5,
+        variables: [
+            { name: 'context', description: 'The study notes, or one part of a long guide', sample: '# Projectile Motion\n...' },
+            { name: 'questionCount', description: 'Number of questions to write', sample: 5 },
+            ...AUDIENCE_VARIABLES
+        ],
+        body: `
+    Generate {{questionCount}} high-quality MCQs from this text: {{context}}.
+
+    Spread the questions across the text's sections rather than the opening paragraphs.
+
+    Pitch the questions at this level: {{level}}.
+    Emphasis: {{emphasis}}.
+    {{#if nonEnglish}}
+    Write the questions, options and explanations in {{language}}. Keep the JSON keys in English.
+    {{/if}}{{#if englishGlosses}}
+    Follow technical terms with their English name in parentheses.
+    {{/if}}
+
+    IMPORTANT:
+    - You must output valid JSON.
+    - For any math or LaTeX, use DOUBLE backslashes to escape them properly in the JSON string.
+      Example: Use "\\\\frac{a}{b}" instead of "\\frac{a}{b}".
+      Example: Use "\\\\Phi" instead of "\\Phi".
+    - Explanation should be detailed and also use LaTeX for formulas.
+    `
+    },
+
+    'tutor': {
+        id: 'tutor',
+        name: 'Deep Dive Tutor',
+        stage: 'DEEP_DIVE',
+        version: 4,
+        variables: [
+            { name: 'context', description: 'Outline of the study notes plus the passages retrieved for the question', sample: 'OUTLINE OF THE STUDY GUIDE:\n- Projectile Motion\n\nRETRIEVED PASSAGES:\n\n[Notes: Projectile Motion]\n...' },
+            ...LANGUAGE_VARIABLES
+        ],
+        body: `You are a helpful tutor. Explain concepts using the context provided. Use LaTeX for math (enclose in single $).{{#if nonEnglish}} Always answer in {{language}}, even if the student writes in another language.{{/if}}{{#if englishGlosses}} Follow technical terms with their English name in parentheses.{{/if}} The context is an outline of the study guide followed by passages retrieved from the notes, the study plan and the student's sources. Ground your answer in those passages and cite each one you use by its tag in square brackets, e.g. [Notes: Kinematics] or [Lecture3.pdf p.12]. If they don't cover the question, say so and point to the section of the outline that might. Context: {{context}}`
+    }
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[];
+
+// Templates whose versions feed each stage's cache key
+export const STAGE_PROMPTS: Partial<Record<PipelineStage, PromptTemplateId[]>> = {
+    TRANSCRIBE: ['transcript'],
+    RESEARCH: ['facts'],
+    ARCHITECT: ['architect'],
+    NOTES: ['study-guide'],
+    VERIFY: ['fact-check'],
+    SIMULATOR: ['simulator-system', 'simulator-request', 'simulator-repair'],
+    QUIZ: ['quiz'],
+    DEEP_DIVE: ['tutor']
+};
+
+// --- FORKS ---
+const FORKS_KEY = 'studysim_prompt_forks';
+
+export const getPromptForks = (): Partial<Record<PromptTemplateId, PromptFork>> => {
+    try {
+        return JSON.parse(localStorage.getItem(FORKS_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+export const savePromptFork = (id: PromptTemplateId, body: string): PromptFork => {
+    const forks = getPromptForks();
+    const fork: PromptFork = {
+        body,
+        baseVersion: DEFAULT_PROMPT_TEMPLATES[id].version,
+        revision: (forks[id]?.revision || 0) + 1,
+        updatedAt: Date.now()
+    };
+    localStorage.setItem(FORKS_KEY, JSON.stringify({ ...forks, [id]: fork }));
+    return fork;
+};
+
+export const resetPromptTemplate = (id: PromptTemplateId) => {
+    const { [id]: _removed, ...rest } = getPromptForks();
+    localStorage.setItem(FORKS_KEY, JSON.stringify(rest));
+};
+
+// e.g. "1" for the default, "1+fork.3" for the third edit of a fork of v1
+export const getPromptVersion = (id: PromptTemplateId): string => {
+    const fork = getPromptForks()[id];
+    return fork ? `${fork.baseVersion}+fork.${fork.revision}` : String(DEFAULT_PROMPT_TEMPLATES[id].version);
+};
+
+export const getPromptVersions = (ids: PromptTemplateId[] = PROMPT_TEMPLATE_IDS): Partial<Record<PromptTemplateId, string>> =>
+    Object.fromEntries(ids.map(id => [id, getPromptVersion(id)]));
+
+export const getStagePromptVersion = (stage: PipelineStage): string =>
+    (STAGE_PROMPTS[stage] || []).map(id => `${id}@${getPromptVersion(id)}`).join(',');
+
+// --- RENDERING ---
+// `{{#if x}}a{{else}}b{{/if}}` blocks are resolved first (no nesting), then `{{x}}`.
+export const renderTemplate = (body: string, vars: PromptVars): string =>
+    body
+        .replace(/\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g,
+            (_match, name: string, whenTrue: string, whenFalse: string = '') => vars[name] ? whenTrue : whenFalse)
+        .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => vars[name] === undefined ? '' : String(vars[name]));
+
+export const getActivePromptBody = (id: PromptTemplateId): string =>
+    getPromptForks()[id]?.body ?? DEFAULT_PROMPT_TEMPLATES[id].body;
+
+export const renderPrompt = (id: PromptTemplateId, vars: PromptVars = {}): string =>
+    renderTemplate(getActivePromptBody(id), vars);
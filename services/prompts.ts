@@ -0,0 +1,94 @@
+
+import { StudySettings, ExtractedDocument, StudyReference } from '../types';
+import { renderPrompt } from './promptRegistry';
+import { studySettingsVars } from './studySettings';
+import { formatSourceMaterial } from './documentExtraction';
+import { formatReferenceList } from './citations';
+import { RetrievalIndex, IndexedPassage, searchIndex } from './retrievalIndex';
+
+// --- SHARED PROMPTS ---
+// Every model provider renders the same instructions so that switching
+// providers changes who answers, not what is asked. The wording itself lives
+// in the template registry (promptRegistry.ts) and may be a user fork.
+
+// Extracted document text per prompt (see documentExtraction.ts)
+const RESEARCH_SOURCE_CHARS = 12000;
+const STUDY_GUIDE_SOURCE_CHARS = 40000;
+const FACT_CHECK_SOURCE_CHARS = 30000;
+
+// Deep Dive: passages retrieved per turn
+const TUTOR_PASSAGES = 8;
+const TUTOR_PASSAGE_CHARS = 14000;
+
+// --- AUDIO INGESTION ---
+export const buildTranscriptPrompt = (fileName: string) => renderPrompt('transcript', { fileName });
+
+// --- STAGE 1: DEEP RESEARCH ---
+export const buildFactsPrompt = (topic: string, canSearch: boolean, documents?: ExtractedDocument[]) =>
+    renderPrompt('facts', { topic, canSearch, sourceMaterial: formatSourceMaterial(documents, RESEARCH_SOURCE_CHARS) });
+
+// --- STAGE 2: ARCHITECT ---
+// The documents themselves travel as attachments; the prompt only says how to cite them.
+export const buildArchitectPrompt = (searchContext?: string, settings?: StudySettings, hasDocuments: boolean = false) =>
+    renderPrompt('architect', { searchContext, hasDocuments, ...studySettingsVars(settings) });
+
+// --- INTERMEDIATE: STUDY GUIDE ---
+export const buildStudyGuidePrompt = (originalInput: string, settings?: StudySettings, documents?: ExtractedDocument[], references: StudyReference[] = []) =>
+    renderPrompt('study-guide', {
+        topic: originalInput,
+        references: formatReferenceList(references),
+        sources: formatSourceMaterial(documents, STUDY_GUIDE_SOURCE_CHARS),
+        ...studySettingsVars(settings)
+    });
+
+// --- FACT CHECK ---
+// The evidence is what the notes were written from: the Stage 1 summary, the
+// numbered references they cite and the extracted source text.
+export const buildFactCheckEvidence = (searchContext?: string, references: StudyReference[] = [], documents?: ExtractedDocument[]) =>
+    [
+        searchContext && `RESEARCH SUMMARY:\n${searchContext}`,
+        references.length > 0 && `REFERENCES:\n${formatReferenceList(references)}`,
+        documents && documents.length > 0 && `SOURCE MATERIAL:\n${formatSourceMaterial(documents, FACT_CHECK_SOURCE_CHARS)}`
+    ].filter(Boolean).join('\n\n') || 'No research was recorded for these notes; rely on well-established knowledge.';
+
+export const buildFactCheckPrompt = (notes: string, evidence: string, settings?: StudySettings, maxClaims: number = 12) =>
+    renderPrompt('fact-check', { notes, evidence, maxClaims, ...studySettingsVars(settings) });
+
+// --- STAGE 3: SIMULATOR ---
+export const buildSimulatorSystemPrompt = () => renderPrompt('simulator-system');
+
+export const buildSimulatorRequest = (customInstruction: string, settings?: StudySettings) =>
+    renderPrompt('simulator-request', { customInstruction, ...studySettingsVars(settings) });
+
+// Sent with the simulator system prompt, so the repair keeps to the same rules
+export const buildSimulatorRepairRequest = (code: string, errorLog: string) =>
+    renderPrompt('simulator-repair', { code, errorLog });
+
+// --- QUIZ & TUTOR ---
+// Long notes never reach these prompts whole: the quiz is written one group
+// of chunks at a time (see geminiService.ts) and the tutor sees an outline
+// plus the passages retrieved for the question (see retrievalIndex.ts).
+export const buildQuizPrompt = (context: string, settings?: StudySettings, questionCount: number = 5) =>
+    renderPrompt('quiz', { context, questionCount, ...studySettingsVars(settings) });
+
+// Notes and plan passages are tagged "Notes: <heading path>" / "Plan: ...";
+// documents keep their usual "<file> <anchor>" citation.
+const passageTag = (passage: IndexedPassage) =>
+    passage.source === 'notes' ? `Notes: ${passage.label || 'Introduction'}`
+    : passage.source === 'plan' ? `Plan: ${passage.label || 'Overview'}`
+    : passage.label;
+
+export const buildTutorContext = (index: RetrievalIndex, question: string) => {
+    const outline = Array.from(new Set(index.passages.filter(p => p.source === 'notes' && p.label).map(p => p.label)));
+    // Presented plan first, then notes, then sources, each in reading order
+    const sourceOrder = { plan: 0, notes: 1, document: 2 };
+    const retrieved = searchIndex(index, question, TUTOR_PASSAGES, TUTOR_PASSAGE_CHARS)
+        .sort((a, b) => sourceOrder[a.passage.source] - sourceOrder[b.passage.source] || a.passage.position - b.passage.position);
+    return [
+        `OUTLINE OF THE STUDY GUIDE:\n${outline.map(label => `- ${label}`).join('\n')}`,
+        `RETRIEVED PASSAGES:\n\n${retrieved.map(({ passage }) => `[${passageTag(passage)}]\n${passage.text}`).join('\n\n')}`
+    ].join('\n\n');
+};
+
+export const buildTutorPrompt = (context: string, settings?: StudySettings) =>
+    renderPrompt('tutor', { context, ...studySettingsVars(settings) });
@@ -0,0 +1,130 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PipelineEvent } from './pipelineEvents';
+import { createAbortError } from './cancellation';
+import { RetryPolicy, backoffDelay, isModelUnavailableError, isTransientError, runWithFallbackChain, withRetry } from './resilience';
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+const httpError = (status: number, message: string = 'failed') => Object.assign(new Error(message), { status });
+
+// Fails with the given errors in turn, then succeeds
+const flaky = (...errors: Error[]) => vi.fn(async (model?: string) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return `ok from ${model ?? 'task'}`;
+});
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('isTransientError', () => {
+    it('retries rate limits, timeouts, server errors and network failures', () => {
+        expect(isTransientError(httpError(429))).toBe(true);
+        expect(isTransientError(httpError(503))).toBe(true);
+        expect(isTransientError(new Error('got status 500 from upstream'))).toBe(true);
+        expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    });
+
+    it('does not retry client errors or aborts', () => {
+        expect(isTransientError(httpError(400))).toBe(false);
+        expect(isTransientError(httpError(404))).toBe(false);
+        expect(isTransientError(createAbortError())).toBe(false);
+    });
+
+    it('treats a 404 or unsupported model as unavailable', () => {
+        expect(isModelUnavailableError(httpError(404))).toBe(true);
+        expect(isModelUnavailableError(new Error('models/x is not supported for generateContent'))).toBe(true);
+        expect(isModelUnavailableError(httpError(400))).toBe(false);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('doubles per attempt, keeps half fixed and caps at maxDelayMs', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect([0, 1, 2, 5].map(attempt => backoffDelay(attempt, POLICY))).toEqual([50, 100, 200, 500]);
+        vi.spyOn(Math, 'random').mockReturnValue(0.999);
+        expect(backoffDelay(5, POLICY)).toBeLessThanOrEqual(1000);
+    });
+});
+
+describe('withRetry', () => {
+    it('retries 429 and 503 with backoff and reports each retry', async () => {
+        const events: PipelineEvent[] = [];
+        const task = flaky(httpError(429), httpError(503));
+        const result = withRetry('NOTES', 'pro', { onEvent: e => events.push(e) }, () => task(), POLICY);
+        await vi.runAllTimersAsync();
+
+        await expect(result).resolves.toBe('ok from task');
+        expect(task).toHaveBeenCalledTimes(3);
+        expect(events.map(e => e.type === 'retry-scheduled' && e.reason)).toEqual(['HTTP 429', 'HTTP 503']);
+    });
+
+    it('does not retry a 400', async () => {
+        const task = flaky(httpError(400));
+        await expect(withRetry('NOTES', 'pro', undefined, () => task(), POLICY)).rejects.toMatchObject({ status: 400 });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after maxAttempts', async () => {
+        const task = flaky(httpError(503), httpError(503), httpError(503), httpError(503));
+        const result = withRetry('NOTES', 'pro', undefined, () => task(), POLICY);
+        const settled = expect(result).rejects.toMatchObject({ status: 503 });
+        await vi.runAllTimersAsync();
+        await settled;
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops waiting as soon as the signal aborts during backoff', async () => {
+        const controller = new AbortController();
+        const task = flaky(httpError(503));
+        const result = withRetry('NOTES', 'pro', { signal: controller.signal }, () => task(), POLICY);
+        const settled = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        await vi.advanceTimersByTimeAsync(10);
+        controller.abort();
+        await settled;
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('runWithFallbackChain', () => {
+    it('moves to the next model when one is unavailable and records the hop', async () => {
+        const events: PipelineEvent[] = [];
+        const task = flaky(httpError(404, 'model not found'));
+        const result = await runWithFallbackChain('NOTES', ['pro', 'flash'], { onEvent: e => events.push(e) }, task);
+
+        expect(result).toBe('ok from flash');
+        expect(task.mock.calls.map(([model]) => model)).toEqual(['pro', 'flash']);
+        const used = events.find(e => e.type === 'model-used');
+        expect(used?.type === 'model-used' && used.record).toMatchObject({
+            model: 'flash',
+            fallbacks: [{ from: 'pro', to: 'flash', reason: 'HTTP 404' }]
+        });
+    });
+
+    it('falls back once a model keeps failing with transient errors', async () => {
+        const task = flaky(httpError(503), httpError(503), httpError(503));
+        const result = runWithFallbackChain('NOTES', ['pro', 'flash'], undefined, task);
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok from flash');
+        expect(task.mock.calls.map(([model]) => model)).toEqual(['pro', 'pro', 'pro', 'flash']);
+    });
+
+    it('does not fall back on a 400', async () => {
+        const task = flaky(httpError(400));
+        await expect(runWithFallbackChain('NOTES', ['pro', 'flash'], undefined, task)).rejects.toMatchObject({ status: 400 });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('rethrows the last error when every model fails', async () => {
+        const task = flaky(httpError(404), httpError(404));
+        await expect(runWithFallbackChain('NOTES', ['pro', 'flash'], undefined, task)).rejects.toMatchObject({ status: 404 });
+    });
+});
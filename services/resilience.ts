@@ -0,0 +1,143 @@
+
+import { PipelineStage, ModelFallback } from '../types';
+import { StageOptions, emitPipelineEvent } from './pipelineEvents';
+import { isAbortError, sleep } from './cancellation';
+
+// --- RESILIENCE LAYER ---
+// Transient errors (429 / 5xx / network) are retried with exponential backoff
+// and jitter. When a model keeps failing, or doesn't exist for this key, the
+// stage moves on to the next model in its fallback chain.
+
+export interface RetryPolicy {
+    maxAttempts: number; // per model, including the first try
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ResilienceConfig {
+    retry: RetryPolicy;
+    // Per-stage overrides of a provider's default fallback chains
+    chains: Partial<Record<PipelineStage, string[]>>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 20000
+};
+
+const CONFIG_KEY = 'studysim_resilience';
+
+export const getResilienceConfig = (): ResilienceConfig => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}');
+        return {
+            retry: { ...DEFAULT_RETRY_POLICY, ...saved.retry },
+            chains: saved.chains || {}
+        };
+    } catch (e) {
+        return { retry: DEFAULT_RETRY_POLICY, chains: {} };
+    }
+};
+
+export const saveResilienceConfig = (config: ResilienceConfig) => {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const resolveModelChain = (stage: PipelineStage, defaults: string[]): string[] => {
+    const override = getResilienceConfig().chains[stage];
+    return override && override.length > 0 ? override : defaults;
+};
+
+// --- ERROR CLASSIFICATION ---
+export const getErrorStatus = (error: any): number | undefined => {
+    const status = error?.status ?? error?.code;
+    if (typeof status === 'number') return status;
+    const match = String(error?.message || '').match(/\b(4\d\d|5\d\d)\b/);
+    return match ? Number(match[1]) : undefined;
+};
+
+export const isTransientError = (error: any): boolean => {
+    if (isAbortError(error)) return false;
+    const status = getErrorStatus(error);
+    if (status === 429 || status === 408 || (status !== undefined && status >= 500)) return true;
+    const message = String(error?.message || '');
+    return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|Failed to fetch|NetworkError|ECONNRESET/i.test(message);
+};
+
+// The model can't serve this key at all; retrying it is pointless.
+export const isModelUnavailableError = (error: any): boolean => {
+    const status = getErrorStatus(error);
+    return status === 404 || /not found|not supported for generateContent/i.test(String(error?.message || ''));
+};
+
+const describeError = (error: any) => {
+    const status = getErrorStatus(error);
+    return status ? `HTTP ${status}` : String(error?.message || error).slice(0, 80);
+};
+
+// Exponential backoff with "equal jitter": half fixed, half random.
+export const backoffDelay = (attempt: number, policy: RetryPolicy) => {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+// --- RUNNERS ---
+export const withRetry = async <T>(
+    stage: PipelineStage,
+    model: string,
+    options: StageOptions | undefined,
+    task: () => Promise<T>,
+    policy: RetryPolicy = getResilienceConfig().retry
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (!isTransientError(error) || attempt + 1 >= policy.maxAttempts) throw error;
+            const delayMs = backoffDelay(attempt, policy);
+            emitPipelineEvent(options, {
+                type: 'retry-scheduled', stage, at: Date.now(), model,
+                attempt: attempt + 1, delayMs, reason: describeError(error)
+            });
+            await sleep(delayMs, options?.signal);
+        }
+    }
+};
+
+// Tries each model in order (with retries). Emits `model-fallback` on every
+// hop and `model-used` once a model succeeds, so the session can record it.
+export const runWithFallbackChain = async <T>(
+    stage: PipelineStage,
+    chain: string[],
+    options: StageOptions | undefined,
+    task: (model: string) => Promise<T>
+): Promise<T> => {
+    const fallbacks: ModelFallback[] = [];
+    let lastError: any;
+
+    for (let i = 0; i < chain.length; i++) {
+        const model = chain[i];
+        try {
+            const value = await withRetry(stage, model, options, () => task(model));
+            emitPipelineEvent(options, {
+                type: 'model-used', stage, at: Date.now(),
+                record: { stage, model, fallbacks, timestamp: Date.now() }
+            });
+            return value;
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            if (!isTransientError(error) && !isModelUnavailableError(error)) throw error;
+            lastError = error;
+
+            const next = chain[i + 1];
+            if (next) {
+                const reason = describeError(error);
+                console.warn(`Model ${model} failed (${reason}), falling back to ${next}`);
+                fallbacks.push({ from: model, to: next, reason });
+                emitPipelineEvent(options, { type: 'model-fallback', stage, at: Date.now(), from: model, to: next, reason });
+            }
+        }
+    }
+    throw lastError;
+};
@@ -0,0 +1,80 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PipelineEvent } from './pipelineEvents';
+import { runWithFallbackChain } from './resilience';
+import { CacheKeyParts, cachedStage, listCacheEntries } from './responseCache';
+
+// In-memory stand-in for the IndexedDB helpers
+const stores = vi.hoisted(() => new Map<string, Map<IDBValidKey, any>>());
+vi.mock('./idb', () => {
+    const store = (name: string) => stores.get(name) ?? stores.set(name, new Map()).get(name)!;
+    return {
+        idbGet: async (name: string, key: IDBValidKey) => store(name).get(key),
+        idbGetAll: async (name: string) => Array.from(store(name).values()),
+        idbPut: async (name: string, value: { key: string }) => { store(name).set(value.key, value); },
+        idbDelete: async (name: string, key: IDBValidKey) => { store(name).delete(key); },
+        idbClear: async (name: string) => { store(name).clear(); }
+    };
+});
+
+const PRO = 'gemini-3-pro-preview';
+const FLASH = 'gemini-2.5-flash';
+
+const parts: CacheKeyParts = { stage: 'NOTES', provider: 'gemini', model: PRO, promptVersion: 'v1', inputs: ['Optics'] };
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+// Answers through the resilience layer, like the providers do
+const runChain = (chain: string[], failing: string[] = []) => vi.fn((options?: { onEvent?: (e: PipelineEvent) => void }) =>
+    runWithFallbackChain('NOTES', chain, options, async model => {
+        if (failing.includes(model)) throw httpError(503);
+        return `notes from ${model}`;
+    }));
+
+beforeEach(() => {
+    stores.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('cachedStage', () => {
+    it('stores an answer from the primary model and serves it next time', async () => {
+        const task = runChain([PRO, FLASH]);
+        await expect(cachedStage(parts, undefined, task)).resolves.toBe(`notes from ${PRO}`);
+
+        const events: PipelineEvent[] = [];
+        await expect(cachedStage(parts, { onEvent: e => events.push(e) }, task)).resolves.toBe(`notes from ${PRO}`);
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(events.map(e => e.type)).toEqual(['cache-hit', 'model-used']);
+    });
+
+    it('does not store a fallback answer after the primary model kept failing', async () => {
+        // One attempt per model, so the 503 falls back straight away
+        vi.stubGlobal('localStorage', { getItem: () => JSON.stringify({ retry: { maxAttempts: 1 } }) });
+        await expect(cachedStage(parts, undefined, runChain([PRO, FLASH], [PRO]))).resolves.toBe(`notes from ${FLASH}`);
+        expect(await listCacheEntries()).toEqual([]);
+
+        // Once the outage is over the primary model is asked again
+        const task = runChain([PRO, FLASH]);
+        await expect(cachedStage(parts, undefined, task)).resolves.toBe(`notes from ${PRO}`);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not store an answer from a chain the budget cut down', async () => {
+        // applyBudgetToChain dropped Pro; the key still names the primary model
+        await expect(cachedStage(parts, undefined, runChain([FLASH]))).resolves.toBe(`notes from ${FLASH}`);
+        expect(await listCacheEntries()).toEqual([]);
+    });
+
+    it('skips the lookup with bypassCache but still stores the fresh answer', async () => {
+        const task = runChain([PRO]);
+        await cachedStage(parts, undefined, task);
+        await cachedStage(parts, { bypassCache: true }, task);
+        expect(task).toHaveBeenCalledTimes(2);
+        expect(await listCacheEntries()).toHaveLength(1);
+    });
+});
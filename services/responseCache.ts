@@ -0,0 +1,150 @@
+
+import { PipelineStage, StageModelRecord } from '../types';
+import { StageOptions, emitPipelineEvent } from './pipelineEvents';
+import { idbGet, idbGetAll, idbPut, idbDelete, idbClear } from './idb';
+
+// --- RESPONSE CACHE ---
+// Stage results are cached in IndexedDB under a SHA-256 of (provider, stage,
+// primary model, prompt template versions, inputs), so re-studying a topic
+// returns instantly. Pass `bypassCache` in StageOptions to force a fresh call;
+// the fresh result still replaces the cached one.
+
+export interface CacheEntry<T = unknown> {
+    key: string;
+    stage: PipelineStage;
+    provider: string;
+    model: string;
+    promptVersion: string;
+    // Short human-readable description of the input, for the settings view
+    label: string;
+    createdAt: number;
+    expiresAt: number;
+    sizeBytes: number;
+    value: T;
+    // Model that actually produced the value (may be a fallback)
+    modelRecord?: StageModelRecord;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Research is grounded in live search results, so it goes stale fastest.
+export const CACHE_TTLS: Partial<Record<PipelineStage, number>> = {
+    TRANSCRIBE: 30 * DAY,
+    RESEARCH: 3 * DAY,
+    ARCHITECT: 14 * DAY,
+    NOTES: 14 * DAY,
+    VERIFY: 14 * DAY,
+    QUIZ: 30 * DAY
+};
+
+export interface CacheKeyParts {
+    stage: PipelineStage;
+    provider: string;
+    model: string;
+    promptVersion: string;
+    inputs: unknown[];
+}
+
+const toHex = (digest: ArrayBuffer) => Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify(parts));
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+// Recordings can run to hundreds of MB, so each slice is hashed on its own
+// and the result is the hash of those digests: one slice in memory at a time.
+const BLOB_HASH_SLICE_BYTES = 8 * 1024 * 1024;
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digests: ArrayBuffer[] = [];
+    for (let offset = 0; offset < blob.size || offset === 0; offset += BLOB_HASH_SLICE_BYTES) {
+        digests.push(await crypto.subtle.digest('SHA-256', await blob.slice(offset, offset + BLOB_HASH_SLICE_BYTES).arrayBuffer()));
+    }
+    const joined = new Uint8Array(digests.length * 32);
+    digests.forEach((digest, i) => joined.set(new Uint8Array(digest), i * 32));
+    return toHex(await crypto.subtle.digest('SHA-256', joined));
+};
+
+const describeInput = (input: unknown) => String(typeof input === 'string' ? input : JSON.stringify(input) ?? '').replace(/\s+/g, ' ').trim().slice(0, 120);
+
+// Serves a stage from the cache when possible, otherwise runs `task` and
+// stores its result. Cache failures (private mode, quota) never fail the stage.
+export const cachedStage = async <T>(
+    parts: CacheKeyParts,
+    options: StageOptions | undefined,
+    task: (options: StageOptions | undefined) => Promise<T>
+): Promise<T> => {
+    const ttl = CACHE_TTLS[parts.stage];
+    if (!ttl) return task(options);
+
+    let key: string | null = null;
+    try {
+        key = await hashCacheKey(parts);
+        if (!options?.bypassCache) {
+            const entry = await idbGet<CacheEntry<T>>('responseCache', key);
+            if (entry && entry.expiresAt > Date.now()) {
+                emitPipelineEvent(options, { type: 'cache-hit', stage: parts.stage, at: Date.now(), createdAt: entry.createdAt });
+                if (entry.modelRecord) {
+                    emitPipelineEvent(options, { type: 'model-used', stage: parts.stage, at: Date.now(), record: entry.modelRecord });
+                }
+                return entry.value;
+            }
+        }
+    } catch (e) {
+        console.warn("Response cache unavailable", e);
+    }
+
+    // Remember which model answered so a cache hit can report it later.
+    // An answer from a fallback (after a 429/503, or with Pro dropped by the
+    // budget) isn't stored under the primary model's key: it would outlive
+    // the outage by the whole TTL.
+    let modelRecord: StageModelRecord | undefined;
+    let fellBack = false;
+    const value = await task({
+        ...options,
+        onEvent: (event) => {
+            if (event.type === 'model-used' && event.stage === parts.stage) {
+                modelRecord = event.record;
+                fellBack ||= event.record.model !== parts.model;
+            }
+            options?.onEvent?.(event);
+        }
+    });
+
+    if (key && !fellBack) {
+        const createdAt = Date.now();
+        const entry: CacheEntry<T> = {
+            key,
+            stage: parts.stage,
+            provider: parts.provider,
+            model: parts.model,
+            promptVersion: parts.promptVersion,
+            label: describeInput(parts.inputs[0]),
+            createdAt,
+            expiresAt: createdAt + ttl,
+            sizeBytes: JSON.stringify(value).length,
+            value,
+            modelRecord
+        };
+        idbPut('responseCache', entry).catch(e => console.warn("Response cache write failed", e));
+    }
+    return value;
+};
+
+// --- INSPECTION & PURGING ---
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+    const entries = await idbGetAll<CacheEntry>('responseCache');
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string) => idbDelete('responseCache', key);
+
+export const clearResponseCache = () => idbClear('responseCache');
+
+export const purgeExpiredCacheEntries = async (): Promise<number> => {
+    const now = Date.now();
+    const expired = (await listCacheEntries()).filter(e => e.expiresAt <= now);
+    await Promise.all(expired.map(e => deleteCacheEntry(e.key)));
+    return expired.length;
+};
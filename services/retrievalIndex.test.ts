@@ -0,0 +1,80 @@
+
+import { describe, expect, it } from 'vitest';
+import { buildRetrievalIndex, searchIndex, tokenize } from './retrievalIndex';
+
+const NOTES = `# Mechanics
+
+## Friction
+Friction opposes motion between surfaces in contact. Static friction holds a block at rest.
+
+## Projectile Motion
+A projectile follows a parabola. Its horizontal velocity stays constant without drag.
+
+## Energy
+Kinetic energy is half the mass times the velocity squared.`;
+
+describe('tokenize', () => {
+    it('lowercases and splits on anything that is not a letter or digit', () => {
+        expect(tokenize('Newton’s 2nd-Law: F=ma')).toEqual(['newton', '2nd', 'law', 'ma']);
+    });
+
+    it('drops stopwords and single characters', () => {
+        expect(tokenize('What is the speed of a wave?')).toEqual(['speed', 'wave']);
+    });
+
+    it('keeps letters outside ASCII', () => {
+        expect(tokenize('Énergie cinétique')).toEqual(['énergie', 'cinétique']);
+    });
+});
+
+describe('buildRetrievalIndex', () => {
+    it('indexes one passage per section and counts heading words twice', () => {
+        const index = buildRetrievalIndex({ notes: NOTES });
+        const friction = index.passages.find(p => p.label.endsWith('Friction'))!;
+        // Twice from "Mechanics › Friction", once from the "## Friction" line, twice in the text
+        expect(friction.termFreqs.friction).toBe(5);
+        expect(index.docFreqs.friction).toBe(1);
+        expect(index.avgLength).toBeGreaterThan(0);
+    });
+
+    it('reuses unchanged passages from the previous index', () => {
+        const previous = buildRetrievalIndex({ notes: NOTES });
+        const next = buildRetrievalIndex({ notes: NOTES.replace('half the mass', 'one half of the mass') }, previous);
+        const friction = (index: typeof previous) => index.passages.find(p => p.label.endsWith('Friction'));
+        const energy = (index: typeof previous) => index.passages.find(p => p.label.endsWith('Energy'));
+        expect(friction(next)!.termFreqs).toBe(friction(previous)!.termFreqs);
+        expect(energy(next)!.termFreqs).not.toBe(energy(previous)!.termFreqs);
+    });
+});
+
+describe('searchIndex', () => {
+    const index = buildRetrievalIndex({ notes: NOTES });
+
+    it('ranks the passage that matches the query first', () => {
+        const [top] = searchIndex(index, 'Why does a projectile follow a parabola?', 3, 10000);
+        expect(top.passage.label).toBe('Mechanics › Projectile Motion');
+        expect(top.score).toBeGreaterThan(0);
+    });
+
+    it('scores rarer terms higher than common ones', () => {
+        // "velocity" appears in two sections, "kinetic" only in one
+        const results = searchIndex(index, 'kinetic velocity', 3, 10000);
+        expect(results[0].passage.label).toBe('Mechanics › Energy');
+        expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('answers "the last section" by position', () => {
+        const [top] = searchIndex(index, 'summarise the last section', 1, 10000);
+        expect(top.passage.label).toBe('Mechanics › Energy');
+    });
+
+    it('falls back to the notes when nothing matches', () => {
+        const results = searchIndex(index, 'zebra', 2, 10000);
+        expect(results.map(r => r.score)).toEqual([0, 0]);
+    });
+
+    it('stays within the character budget after the first passage', () => {
+        const results = searchIndex(index, 'friction projectile energy', 3, 10);
+        expect(results).toHaveLength(1);
+    });
+});
@@ -0,0 +1,176 @@
+
+import { ExtractedDocument } from '../types';
+import { chunkDocuments, chunkMarkdown } from './chunking';
+import { idbGet, idbPut, idbDelete } from './idb';
+
+// --- RETRIEVAL INDEX ---
+// A BM25 index per session over the notes, the Architect plan and every
+// extracted source (documents, transcripts, fetched pages), all split along
+// their structure by chunking.ts. Deep Dive retrieves the top passages for
+// each turn instead of sending the notes whole. The index is stored in
+// IndexedDB next to the session; when the notes change only new or edited
+// passages are re-tokenized.
+
+export type PassageSource = 'notes' | 'plan' | 'document';
+
+export interface IndexedPassage {
+    source: PassageSource;
+    // Heading path for notes and plan, "<file> <anchor>" for documents
+    label: string;
+    text: string;
+    // Position within its source, for reading order
+    position: number;
+    termFreqs: Record<string, number>;
+    length: number;
+}
+
+export interface RetrievalIndex {
+    passages: IndexedPassage[];
+    docFreqs: Record<string, number>;
+    avgLength: number;
+}
+
+export interface IndexSources {
+    notes: string;
+    plan?: string;
+    documents?: ExtractedDocument[];
+}
+
+export interface RetrievedPassage {
+    passage: IndexedPassage;
+    score: number;
+}
+
+// Bump when tokenization changes so stored indexes are rebuilt.
+const INDEX_VERSION = 1;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// --- TOKENIZATION ---
+const STOPWORDS = new Set(('a an and are as at be but by can do does for from how i in is it its me of on or so '
+    + 'that the their them then there these this to was what when where which who why will with you your about explain tell more').split(' '));
+
+export const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// Heading words count twice: a passage titled "Friction" is about friction.
+const indexPassage = (source: PassageSource, label: string, text: string, position: number): IndexedPassage => {
+    const tokens = [...tokenize(label), ...tokenize(label), ...tokenize(text)];
+    const termFreqs: Record<string, number> = {};
+    tokens.forEach(t => { termFreqs[t] = (termFreqs[t] || 0) + 1; });
+    return { source, label, text, position, termFreqs, length: tokens.length };
+};
+
+const withStats = (passages: IndexedPassage[]): RetrievalIndex => {
+    const docFreqs: Record<string, number> = {};
+    passages.forEach(p => Object.keys(p.termFreqs).forEach(t => { docFreqs[t] = (docFreqs[t] || 0) + 1; }));
+    const avgLength = passages.length > 0 ? passages.reduce((sum, p) => sum + p.length, 0) / passages.length : 0;
+    return { passages, docFreqs, avgLength };
+};
+
+const passageKey = (source: PassageSource, label: string, text: string) => `${source}\u0000${label}\u0000${text}`;
+
+// Passages whose text is unchanged are carried over from `previous`.
+export const buildRetrievalIndex = ({ notes, plan, documents }: IndexSources, previous?: RetrievalIndex | null): RetrievalIndex => {
+    const reusable = new Map((previous?.passages || []).map(p => [passageKey(p.source, p.label, p.text), p]));
+    const entries: { source: PassageSource; label: string; text: string }[] = [
+        ...chunkMarkdown(notes).map(c => ({ source: 'notes' as const, label: c.path, text: c.text })),
+        ...chunkMarkdown(plan || '').map(c => ({ source: 'plan' as const, label: c.path, text: c.text })),
+        ...chunkDocuments(documents || []).map(c => ({ source: 'document' as const, label: c.path, text: c.text }))
+    ];
+    const counters: Record<PassageSource, number> = { notes: 0, plan: 0, document: 0 };
+    const passages = entries.map(({ source, label, text }) => {
+        const position = counters[source]++;
+        const existing = reusable.get(passageKey(source, label, text));
+        return existing ? { ...existing, position } : indexPassage(source, label, text, position);
+    });
+    return withStats(passages);
+};
+
+// --- SEARCH ---
+// "the last section", "the final part": the student means a position, not a word.
+const POSITION_PATTERNS: { pattern: RegExp; pick: 'first' | 'last' }[] = [
+    { pattern: /\b(last|final|closing|end)\b.*\b(section|part|chapter|topic|heading)s?\b/i, pick: 'last' },
+    { pattern: /\b(first|opening)\b.*\b(section|part|chapter|topic|heading)s?\b/i, pick: 'first' }
+];
+
+const PATH_SEPARATOR = ' › ';
+
+// Top two heading levels: a title and its numbered sections
+const sectionKey = (label: string) => label.split(PATH_SEPARATOR).slice(0, 2).join(PATH_SEPARATOR);
+
+const positionalPassages = (index: RetrievalIndex, query: string): IndexedPassage[] => {
+    const match = POSITION_PATTERNS.find(p => p.pattern.test(query));
+    const notes = index.passages.filter(p => p.source === 'notes');
+    if (!match || notes.length === 0) return [];
+    const anchor = match.pick === 'last' ? notes[notes.length - 1] : notes.find(p => p.label.includes(PATH_SEPARATOR)) || notes[0];
+    return notes.filter(p => sectionKey(p.label) === sectionKey(anchor.label));
+};
+
+const bm25 = (index: RetrievalIndex, passage: IndexedPassage, terms: string[]) => {
+    const n = index.passages.length;
+    return terms.reduce((score, term) => {
+        const tf = passage.termFreqs[term];
+        if (!tf) return score;
+        const df = index.docFreqs[term] || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * passage.length / (index.avgLength || 1));
+        return score + idf * (tf * (BM25_K1 + 1)) / (tf + norm);
+    }, 0);
+};
+
+// The best passages for `query`, up to `limit` and `maxChars`. Positional
+// references ("the last section") are honoured first; with no overlap at all
+// the opening notes are returned.
+export const searchIndex = (index: RetrievalIndex, query: string, limit: number, maxChars: number): RetrievedPassage[] => {
+    const terms = Array.from(new Set(tokenize(query)));
+    const ranked = index.passages
+        .map(passage => ({ passage, score: bm25(index, passage, terms) }))
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score);
+    const positional = positionalPassages(index, query).map(passage => ({ passage, score: Infinity }));
+    const candidates = [...positional, ...ranked];
+    if (candidates.length === 0) {
+        candidates.push(...index.passages.filter(p => p.source === 'notes').map(passage => ({ passage, score: 0 })));
+    }
+
+    const picked: RetrievedPassage[] = [];
+    let used = 0;
+    for (const candidate of candidates) {
+        if (picked.length >= limit) break;
+        if (picked.some(p => p.passage === candidate.passage)) continue;
+        if (picked.length > 0 && used + candidate.passage.text.length > maxChars) continue;
+        picked.push(candidate);
+        used += candidate.passage.text.length;
+    }
+    return picked;
+};
+
+// --- SESSION STORAGE ---
+interface StoredIndex {
+    sessionId: string;
+    version: number;
+    passages: IndexedPassage[];
+}
+
+export const loadRetrievalIndex = async (sessionId: string): Promise<RetrievalIndex | null> => {
+    const stored = await idbGet<StoredIndex>('retrievalIndex', sessionId);
+    return stored && stored.version === INDEX_VERSION ? withStats(stored.passages) : null;
+};
+
+export const deleteRetrievalIndex = (sessionId: string) => idbDelete('retrievalIndex', sessionId);
+
+// Brings the stored index up to date with the session's current content.
+// Only writes when a passage was added, changed or removed.
+export const syncSessionIndex = async (sessionId: string, sources: IndexSources): Promise<RetrievalIndex> => {
+    const previous = await loadRetrievalIndex(sessionId).catch(() => null);
+    const index = buildRetrievalIndex(sources, previous);
+    const keys = (i: RetrievalIndex) => i.passages.map(p => passageKey(p.source, p.label, p.text)).join('\u0001');
+    const unchanged = previous && keys(previous) === keys(index);
+    if (!unchanged) {
+        await idbPut<StoredIndex>('retrievalIndex', { sessionId, version: INDEX_VERSION, passages: index.passages })
+            .catch(e => console.warn("Failed to save the retrieval index", e));
+    }
+    return index;
+};
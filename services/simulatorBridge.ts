@@ -0,0 +1,219 @@
+
+import { SimulatorParam, SimulatorOutput } from '../types';
+
+// --- SIMULATOR BRIDGE ---
+// A small postMessage protocol between StudyArchitect and the simulator
+// iframe. Every simulator document gets a bridge script ahead of its own
+// code, defining `window.StudySim`:
+//
+//   StudySim.registerParam(id, { label, min, max, step, unit, get, set })
+//   StudySim.registerOutput(id, { label, unit })
+//   StudySim.emit({ id: value, ... })      streamed to the host, ~10 per second
+//   StudySim.paramChanged()                after the simulator changes a param itself
+//
+// Simulators that register nothing still expose their range sliders, found
+// when the document has loaded. The host can ask for the current state and
+// set parameters; everything else (controls, presets, recording) is built on
+// the events below.
+
+const BRIDGE_SOURCE = 'studysim-bridge';
+const PROTOCOL_VERSION = 1;
+const TELEMETRY_INTERVAL_MS = 100;
+
+export type SimulatorBridgeEvent =
+    // The simulator (re)loaded or was asked to announce itself
+    | { type: 'ready'; params: SimulatorParam[]; outputs: SimulatorOutput[] }
+    | { type: 'params'; params: SimulatorParam[] }
+    // Seconds since the simulator loaded, and the latest value of each output
+    | { type: 'telemetry'; t: number; values: Record<string, number> };
+
+export interface SimulatorBridge {
+    setParam(id: string, value: number): void;
+    // Asks the simulator to send a fresh 'ready'
+    refresh(): void;
+    subscribe(listener: (event: SimulatorBridgeEvent) => void): () => void;
+    dispose(): void;
+}
+
+// Plain ES5, like the QA probe, so it runs whatever the model wrote.
+const BRIDGE_SCRIPT = `<script>
+(function () {
+  if (window.StudySim) return;
+  var SOURCE = ${JSON.stringify(BRIDGE_SOURCE)};
+  var params = {}, outputs = {}, pending = null, flushTimer = null, announceTimer = null, paramsTimer = null;
+  var started = Date.now();
+
+  var send = function (message) {
+    message.source = SOURCE;
+    message.version = ${PROTOCOL_VERSION};
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  };
+  var num = function (value) {
+    if (value === '' || value === null || value === undefined) return undefined;
+    var n = Number(value);
+    return isFinite(n) ? n : undefined;
+  };
+  var describeParams = function () {
+    return Object.keys(params).map(function (id) {
+      var p = params[id], value;
+      try { value = num(p.get()); } catch (e) {}
+      return { id: id, label: p.label || id, value: value, min: num(p.min), max: num(p.max), step: num(p.step), unit: p.unit };
+    });
+  };
+  var describeOutputs = function () {
+    return Object.keys(outputs).map(function (id) { return { id: id, label: outputs[id].label || id, unit: outputs[id].unit }; });
+  };
+  var announce = function () { announceTimer = null; send({ type: 'ready', params: describeParams(), outputs: describeOutputs() }); };
+  var announceSoon = function () { if (!announceTimer) announceTimer = setTimeout(announce, 0); };
+  var paramsChanged = function () { paramsTimer = null; send({ type: 'params', params: describeParams() }); };
+  var paramsChangedSoon = function () { if (!paramsTimer) paramsTimer = setTimeout(paramsChanged, 50); };
+  var flush = function () {
+    flushTimer = null;
+    if (pending) send({ type: 'telemetry', t: (Date.now() - started) / 1000, values: pending });
+    pending = null;
+  };
+
+  window.StudySim = {
+    registerParam: function (id, spec) {
+      // Explicit registrations replace the discovered sliders
+      Object.keys(params).forEach(function (key) { if (params[key].discovered) delete params[key]; });
+      params[id] = spec || {};
+      announceSoon();
+    },
+    registerOutput: function (id, spec) { outputs[id] = spec || {}; announceSoon(); },
+    paramChanged: paramsChangedSoon,
+    emit: function (values) {
+      pending = pending || {};
+      for (var key in values) { var n = num(values[key]); if (n !== undefined) pending[key] = n; }
+      if (!flushTimer) flushTimer = setTimeout(flush, ${TELEMETRY_INTERVAL_MS});
+    }
+  };
+
+  var labelFor = function (input) {
+    var text = (input.labels && input.labels[0] && input.labels[0].textContent) || input.getAttribute('aria-label') || input.title;
+    return text ? text.replace(/\\s+/g, ' ').trim() : '';
+  };
+  var discover = function () {
+    if (Object.keys(params).length === 0) {
+      Array.prototype.forEach.call(document.querySelectorAll('input[type=range]'), function (input, i) {
+        var id = input.id || input.name || ('slider-' + (i + 1));
+        params[id] = {
+          label: labelFor(input) || id, min: input.min, max: input.max, step: input.step, discovered: true,
+          get: function () { return input.value; },
+          set: function (value) {
+            input.value = value;
+            input.dispatchEvent(new Event('input', { bubbles: true }));
+            input.dispatchEvent(new Event('change', { bubbles: true }));
+          }
+        };
+        input.addEventListener('input', paramsChangedSoon);
+      });
+    }
+    announce();
+  };
+
+  window.addEventListener('message', function (e) {
+    var message = e.data;
+    if (e.source !== parent || !message || message.source !== SOURCE) return;
+    if (message.type === 'hello') announce();
+    if (message.type === 'set-param' && params[message.id] && params[message.id].set) {
+      var p = params[message.id], value = num(message.value);
+      if (value === undefined) return;
+      if (num(p.min) !== undefined) value = Math.max(num(p.min), value);
+      if (num(p.max) !== undefined) value = Math.min(num(p.max), value);
+      try { p.set(value); } catch (err) { console.error(err); }
+      paramsChangedSoon();
+    }
+  });
+  if (document.readyState === 'complete') discover(); else window.addEventListener('load', discover);
+})();
+</script>`;
+
+// Scripts that must run before the model's code go straight after <head>,
+// else after <html>, else at the very top of a fragment.
+export const injectHeadScript = (html: string, script: string): string => {
+    const head = html.match(/<head\b[^>]*>/i);
+    if (head) return html.replace(head[0], () => `${head[0]}${script}`);
+    const root = html.match(/<html\b[^>]*>/i);
+    if (root) return html.replace(root[0], () => `${root[0]}<head>${script}</head>`);
+    return `${script}${html}`;
+};
+
+// The document the simulator frames render and Copy Code copies, so a copied
+// simulator's StudySim calls still work on their own. The stored
+// simulatorCode stays as the model wrote it.
+export const withSimulatorBridge = (html: string): string => injectHeadScript(html, BRIDGE_SCRIPT);
+
+// --- HOST SIDE ---
+const finite = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Messages come from model-written code, so only well-formed entries get through.
+const readParams = (raw: unknown): SimulatorParam[] =>
+    (Array.isArray(raw) ? raw : [])
+        .filter(p => p && typeof p.id === 'string' && finite(p.value) !== undefined)
+        .map(p => ({
+            id: p.id,
+            label: typeof p.label === 'string' ? p.label : p.id,
+            value: p.value,
+            min: finite(p.min),
+            max: finite(p.max),
+            step: finite(p.step),
+            unit: typeof p.unit === 'string' ? p.unit : undefined
+        }));
+
+const readOutputs = (raw: unknown): SimulatorOutput[] =>
+    (Array.isArray(raw) ? raw : [])
+        .filter(o => o && typeof o.id === 'string')
+        .map(o => ({ id: o.id, label: typeof o.label === 'string' ? o.label : o.id, unit: typeof o.unit === 'string' ? o.unit : undefined }));
+
+const readValues = (raw: unknown): Record<string, number> => {
+    const values: Record<string, number> = {};
+    if (raw && typeof raw === 'object') {
+        Object.entries(raw).forEach(([key, value]) => { if (finite(value) !== undefined) values[key] = value as number; });
+    }
+    return values;
+};
+
+// Talks to whichever simulator frame `getFrame` returns at the time, so the
+// inline and full-screen frames can share one bridge.
+export const connectSimulatorBridge = (getFrame: () => HTMLIFrameElement | null): SimulatorBridge => {
+    const listeners = new Set<(event: SimulatorBridgeEvent) => void>();
+
+    const post = (message: Record<string, unknown>) =>
+        getFrame()?.contentWindow?.postMessage({ ...message, source: BRIDGE_SOURCE, version: PROTOCOL_VERSION }, '*');
+
+    const onMessage = (event: MessageEvent) => {
+        const frame = getFrame();
+        const message = event.data;
+        if (!frame || event.source !== frame.contentWindow || message?.source !== BRIDGE_SOURCE) return;
+        let parsed: SimulatorBridgeEvent | null = null;
+        if (message.type === 'ready') parsed = { type: 'ready', params: readParams(message.params), outputs: readOutputs(message.outputs) };
+        if (message.type === 'params') parsed = { type: 'params', params: readParams(message.params) };
+        if (message.type === 'telemetry' && finite(message.t) !== undefined) parsed = { type: 'telemetry', t: message.t, values: readValues(message.values) };
+        if (parsed) listeners.forEach(listener => listener(parsed!));
+    };
+    window.addEventListener('message', onMessage);
+
+    return {
+        setParam: (id, value) => post({ type: 'set-param', id, value }),
+        refresh: () => post({ type: 'hello' }),
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        dispose() {
+            listeners.clear();
+            window.removeEventListener('message', onMessage);
+        }
+    };
+};
+
+// Readouts for telemetry and parameter values
+export const formatSimValue = (value: number): string => {
+    const magnitude = Math.abs(value);
+    if (magnitude === 0) return '0';
+    if (magnitude >= 1000) return value.toFixed(0);
+    if (magnitude >= 1) return value.toFixed(2).replace(/\.?0+$/, '');
+    return value.toPrecision(3);
+};
@@ -0,0 +1,94 @@
+// @vitest-environment happy-dom
+
+import { describe, expect, it } from 'vitest';
+import { formatLintLog, lintSimulator, stripComments } from './simulatorLint';
+
+const SIMULATOR = `<!DOCTYPE html>
+<html>
+<head>
+<script src="https://cdn.tailwindcss.com"></script>
+<style>#controls { position: absolute; z-index: 10; }</style>
+</head>
+<body>
+<canvas id="sim"></canvas>
+<div id="controls">
+    <input type="range" id="gravity" min="1" max="20" value="9.8">
+    <span id="gravity-value">9.8</span>
+    <button id="reset-btn">Reset</button>
+</div>
+<script>
+    const canvas = document.getElementById('sim');
+    let g = 9.8;
+    document.getElementById('gravity').addEventListener('input', e => {
+        g = Math.min(20, Math.max(1, Number(e.target.value)));
+        document.getElementById('gravity-value').textContent = g;
+    });
+    window.addEventListener('resize', () => { canvas.width = innerWidth; });
+    const loop = () => requestAnimationFrame(loop);
+    loop();
+</script>
+</body>
+</html>`;
+
+const failed = (html: string) => lintSimulator(html).checks.filter(c => !c.passed).map(c => c.id);
+
+describe('stripComments', () => {
+    it('drops line and block comments but keeps strings', () => {
+        expect(stripComments('a(); // fetch(x)\nb(/* eval( */); c("// kept", \'/* kept */\');'))
+            .toBe('a(); \nb( ); c("// kept", \'/* kept */\');');
+    });
+});
+
+describe('lintSimulator', () => {
+    it('passes a simulator that meets every requirement', () => {
+        const report = lintSimulator(SIMULATOR);
+        expect(failed(SIMULATOR)).toEqual([]);
+        expect(report.score).toBe(100);
+    });
+
+    it('weighs errors three times as much as warnings', () => {
+        // Drops the z-index warning (1 of 24 points)
+        expect(lintSimulator(SIMULATOR.replace('z-index: 10;', '')).score).toBe(96);
+        // Drops the requestAnimationFrame error (3 of 24 points)
+        expect(lintSimulator(SIMULATOR.replace('requestAnimationFrame(loop)', 'setTimeout(loop, 16)')).score).toBe(88);
+    });
+
+    it('does not count requirements that only appear in comments', () => {
+        const html = SIMULATOR.replace("window.addEventListener('resize'", "// window.addEventListener('resize'");
+        expect(failed(html)).toEqual(['resize']);
+    });
+
+    it('flags sandbox-blocked APIs, including in inline handlers', () => {
+        const html = SIMULATOR.replace('<button id="reset-btn">', '<button id="reset-btn" onclick="localStorage.clear(); alert(1)">');
+        const report = lintSimulator(html);
+        expect(failed(html)).toEqual(['forbidden-apis']);
+        expect(report.checks.find(c => c.id === 'forbidden-apis')!.detail).toBe('Uses localStorage, alert/confirm/prompt');
+    });
+
+    it('flags network calls and scripts from hosts outside the allowed CDNs', () => {
+        const html = SIMULATOR
+            .replace('https://cdn.tailwindcss.com', 'https://evil.example/lib.js')
+            .replace('loop();', "loop(); fetch('/data');");
+        expect(lintSimulator(html).checks.find(c => c.id === 'network')!.detail).toBe('Calls fetch(); Loads from evil.example');
+    });
+
+    it('names sliders without bounds', () => {
+        const html = SIMULATOR.replace(' min="1" max="20"', '');
+        expect(lintSimulator(html).checks.find(c => c.id === 'clamped')!.detail).toBe('1 slider has no min/max: #gravity');
+    });
+
+    it('accepts sliders the script builds itself', () => {
+        const html = SIMULATOR
+            .replace('<input type="range" id="gravity" min="1" max="20" value="9.8">', '')
+            .replace('const canvas', `document.getElementById('controls').innerHTML += '<input type="range" id="gravity" min="1" max="20">';\n    const canvas`);
+        expect(failed(html)).toEqual([]);
+    });
+});
+
+describe('formatLintLog', () => {
+    it('lists only the failed checks', () => {
+        const log = formatLintLog(lintSimulator('<html><body><canvas></canvas></body></html>'));
+        expect(log).toContain('- requestAnimationFrame loop: The animation is not driven by requestAnimationFrame');
+        expect(log).not.toContain('Canvas for the visualization');
+    });
+});
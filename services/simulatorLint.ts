@@ -0,0 +1,173 @@
+
+// --- SIMULATOR LINT ---
+// Static checks of a generated simulator against the hard requirements of the
+// simulator system prompt, plus the things a sandboxed frame can't do: the
+// simulator runs without same-origin access, so storage and cookies throw, and
+// it should not reach the network beyond the usual CDNs. Each check carries a
+// weight; the score is the weighted share that passed. Complements the
+// runtime QA in simulatorQa.ts, which only sees what fails while running.
+
+export type SimulatorLintSeverity = 'error' | 'warning';
+
+export interface SimulatorLintCheck {
+    id: string;
+    label: string;
+    severity: SimulatorLintSeverity;
+    passed: boolean;
+    // What was missing or found, for the checklist and the repair prompt
+    detail?: string;
+}
+
+export interface SimulatorLintReport {
+    // 0-100
+    score: number;
+    checks: SimulatorLintCheck[];
+}
+
+const SEVERITY_WEIGHTS: Record<SimulatorLintSeverity, number> = { error: 3, warning: 1 };
+
+// CDNs simulators load Tailwind, fonts and libraries from
+const ALLOWED_HOSTS = /^(cdn\.tailwindcss\.com|cdn\.jsdelivr\.net|unpkg\.com|cdnjs\.cloudflare\.com|fonts\.googleapis\.com|fonts\.gstatic\.com)$/i;
+
+const NETWORK_APIS: { pattern: RegExp; name: string }[] = [
+    { pattern: /\bfetch\s*\(/, name: 'fetch()' },
+    { pattern: /\bXMLHttpRequest\b/, name: 'XMLHttpRequest' },
+    { pattern: /\bnew\s+WebSocket\b/, name: 'WebSocket' },
+    { pattern: /\bEventSource\b/, name: 'EventSource' },
+    { pattern: /\bsendBeacon\b/, name: 'navigator.sendBeacon' },
+    { pattern: /\bimport\s*\(\s*['"`]https?:/, name: 'remote import()' }
+];
+
+const FORBIDDEN_APIS: { pattern: RegExp; name: string }[] = [
+    { pattern: /\blocalStorage\b/, name: 'localStorage' },
+    { pattern: /\bsessionStorage\b/, name: 'sessionStorage' },
+    { pattern: /\bindexedDB\b/, name: 'indexedDB' },
+    { pattern: /\bdocument\.cookie\b/, name: 'document.cookie' },
+    { pattern: /\beval\s*\(/, name: 'eval()' },
+    { pattern: /\bnew\s+Function\s*\(/, name: 'new Function()' },
+    { pattern: /(?<![\w.])(?:window\.)?(?:alert|confirm|prompt)\s*\(/, name: 'alert/confirm/prompt' },
+    { pattern: /\bwindow\.open\s*\(/, name: 'window.open()' },
+    { pattern: /\bdocument\.write(?:ln)?\s*\(/, name: 'document.write()' },
+    { pattern: /\b(?:window\.)?(?:top|parent)\.(?:location|document)\b/, name: 'parent/top page access' }
+];
+
+// Drops // and /* */ comments so commented-out code can't satisfy a rule.
+// Strings and template literals are kept intact; a regex literal holding a
+// quote or "//" can throw it off, which generated simulators rarely contain.
+export const stripComments = (code: string): string => {
+    let out = '';
+    let i = 0;
+    while (i < code.length) {
+        const ch = code[i];
+        const next = code[i + 1];
+        if (ch === '"' || ch === "'" || ch === '`') {
+            let j = i + 1;
+            while (j < code.length && code[j] !== ch) j += code[j] === '\\' ? 2 : 1;
+            out += code.slice(i, j + 1);
+            i = j + 1;
+        } else if (ch === '/' && next === '/') {
+            while (i < code.length && code[i] !== '\n') i++;
+        } else if (ch === '/' && next === '*') {
+            const end = code.indexOf('*/', i + 2);
+            i = end === -1 ? code.length : end + 2;
+            out += ' ';
+        } else {
+            out += ch;
+            i++;
+        }
+    }
+    return out;
+};
+
+const hostOf = (url: string): string | null => {
+    try {
+        const parsed = new URL(url, 'https://simulator.invalid/');
+        return parsed.hostname === 'simulator.invalid' || parsed.protocol === 'data:' || parsed.protocol === 'blob:' ? null : parsed.hostname;
+    } catch {
+        return null;
+    }
+};
+
+const check = (id: string, label: string, severity: SimulatorLintSeverity, passed: boolean, detail?: string): SimulatorLintCheck =>
+    ({ id, label, severity, passed, detail: passed ? undefined : detail });
+
+export const lintSimulator = (html: string): SimulatorLintReport => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const scripts = Array.from(doc.querySelectorAll('script'));
+    // Inline handlers (onclick="reset()") count as script too
+    const handlers = Array.from(doc.querySelectorAll('*')).flatMap(el =>
+        Array.from(el.attributes).filter(a => /^on/i.test(a.name)).map(a => a.value));
+    const code = stripComments([...scripts.filter(s => !s.src).map(s => s.textContent || ''), ...handlers].join('\n'));
+    const styles = [...Array.from(doc.querySelectorAll('style')).map(s => s.textContent || ''), ...Array.from(doc.querySelectorAll('[style]')).map(el => el.getAttribute('style') || '')].join('\n');
+    const ranges = Array.from(doc.querySelectorAll<HTMLInputElement>('input[type="range" i]'));
+    // Sliders built by the script (innerHTML templates or createElement)
+    const hasRanges = ranges.length > 0 || /type\s*=\s*\\?['"]range\\?['"]/.test(code);
+    const buttons = Array.from(doc.querySelectorAll('button, input[type="button" i], input[type="reset" i], [role="button"]'));
+
+    const checks: SimulatorLintCheck[] = [];
+
+    checks.push(check('canvas', 'Canvas for the visualization', 'error',
+        doc.querySelector('canvas') !== null || /createElement\(\s*['"]canvas['"]\s*\)/.test(code),
+        'No <canvas> element is declared or created'));
+
+    checks.push(check('raf-loop', 'requestAnimationFrame loop', 'error',
+        /\brequestAnimationFrame\s*\(/.test(code),
+        'The animation is not driven by requestAnimationFrame'));
+
+    checks.push(check('resize', 'Resize handling', 'error',
+        /addEventListener\(\s*['"]resize['"]/.test(code) || /\bonresize\s*=/.test(code) || /\bResizeObserver\b/.test(code),
+        'Nothing listens for window resizes, so the canvas will not fill the frame'));
+
+    const resetButton = buttons.some(b => /reset|restart/i.test(b.outerHTML))
+        || /getElementById\(\s*['"][\w-]*(?:reset|restart)[\w-]*['"]\s*\)/i.test(code);
+    checks.push(check('reset', 'Reset button', 'error', resetButton, 'No button resets the simulation'));
+
+    checks.push(check('range-inputs', 'Range sliders for parameters', 'error',
+        hasRanges,
+        'No <input type="range"> controls'));
+
+    const listensToInput = /addEventListener\(\s*['"](?:input|change)['"]/.test(code) || /\.on(?:input|change)\s*=/.test(code)
+        || ranges.some(r => r.hasAttribute('oninput') || r.hasAttribute('onchange'));
+    const showsValues = /\.(?:textContent|innerText|innerHTML|value)\s*=/.test(code) || doc.querySelector('output') !== null;
+    checks.push(check('live-values', 'Sliders show live values', 'warning',
+        hasRanges && listensToInput && showsValues,
+        !hasRanges ? 'There are no sliders to show values for'
+            : !listensToInput ? 'Slider changes are not listened to, so they do not update the simulation live'
+            : 'Slider values are never written next to the sliders'));
+
+    const layered = /z-index\s*:\s*[1-9]/i.test(styles) || /\bz-(?:[1-9]0|\[[1-9]\d*\])/.test(html) || /\.zIndex\s*=\s*['"]?[1-9]/.test(code);
+    checks.push(check('z-index', 'Controls layered above the canvas', 'warning',
+        layered,
+        'No positive z-index, so the controls can end up under the canvas'));
+
+    const unbounded = ranges.filter(r => !r.hasAttribute('min') || !r.hasAttribute('max'));
+    const clamps = /\bMath\.(?:min|max)\s*\(/.test(code) || /\bclamp\w*\s*\(/i.test(code);
+    checks.push(check('clamped', 'Physics variables clamped', 'warning',
+        unbounded.length === 0 && clamps,
+        unbounded.length > 0
+            ? `${unbounded.length} slider${unbounded.length === 1 ? ' has' : 's have'} no min/max: ${unbounded.map(r => `#${r.id || r.name || '?'}`).join(', ')}`
+            : 'No Math.min/Math.max or clamp() guards the physics variables'));
+
+    const externalHosts = new Set<string>();
+    doc.querySelectorAll('[src], link[href]').forEach(el => {
+        const host = hostOf(el.getAttribute('src') || el.getAttribute('href') || '');
+        if (host && !ALLOWED_HOSTS.test(host)) externalHosts.add(host);
+    });
+    const networkCalls = NETWORK_APIS.filter(api => api.pattern.test(code)).map(api => api.name);
+    checks.push(check('network', 'No external network calls', 'error',
+        externalHosts.size === 0 && networkCalls.length === 0,
+        [networkCalls.length > 0 && `Calls ${networkCalls.join(', ')}`, externalHosts.size > 0 && `Loads from ${Array.from(externalHosts).join(', ')}`].filter(Boolean).join('; ')));
+
+    const forbidden = FORBIDDEN_APIS.filter(api => api.pattern.test(code)).map(api => api.name);
+    checks.push(check('forbidden-apis', 'No APIs the sandbox blocks', 'error',
+        forbidden.length === 0,
+        `Uses ${forbidden.join(', ')}`));
+
+    const total = checks.reduce((sum, c) => sum + SEVERITY_WEIGHTS[c.severity], 0);
+    const earned = checks.reduce((sum, c) => sum + (c.passed ? SEVERITY_WEIGHTS[c.severity] : 0), 0);
+    return { score: Math.round((earned / total) * 100), checks };
+};
+
+// The failed checks, as the log the repair prompt receives
+export const formatLintLog = (report: SimulatorLintReport): string =>
+    report.checks.filter(c => !c.passed).map(c => `- ${c.label}: ${c.detail}`).join('\n');
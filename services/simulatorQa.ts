@@ -0,0 +1,214 @@
+
+import { SimulatorQaAttempt, SimulatorQaIssue, SimulatorQaIssueKind, SimulatorQaReport } from '../types';
+import { createAbortError, isAbortError, throwIfAborted } from './cancellation';
+import { injectHeadScript, withSimulatorBridge } from './simulatorBridge';
+
+// --- SIMULATOR QA HARNESS ---
+// A generated simulator is loaded in a hidden, sandboxed frame before the
+// student sees it. A probe script injected ahead of the model's code reports
+// console errors, uncaught exceptions and unhandled rejections, and samples
+// every canvas a few times a second to see whether anything is drawn. A run
+// that fails goes back to the model with its log (see repairStudySimulator in
+// geminiService.ts), up to MAX_SIMULATOR_REPAIRS times.
+
+export const MAX_SIMULATOR_REPAIRS = 2;
+const QA_RUN_MS = 4000;
+const SAMPLE_INTERVAL_MS = 400;
+// Canvases are scaled down to at most this many pixels a side before sampling
+const SAMPLE_SIZE = 256;
+const MAX_ISSUES = 20;
+const MAX_MESSAGE_CHARS = 400;
+const QA_MESSAGE_SOURCE = 'studysim-qa';
+
+interface QaMessage {
+    source: typeof QA_MESSAGE_SOURCE;
+    token: string;
+    type: 'issue' | 'sample';
+    issue?: SimulatorQaIssue;
+    canvases?: number;
+    drawn?: boolean;
+}
+
+// Plain ES5 so it runs before, and independently of, whatever the model wrote.
+// WebGL contexts are forced to keep their drawing buffer, or every sample of
+// a WebGL canvas would read as blank.
+const buildProbeScript = (token: string) => `<script>
+(function () {
+  var post = function (message) {
+    message.source = ${JSON.stringify(QA_MESSAGE_SOURCE)};
+    message.token = ${JSON.stringify(token)};
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  };
+  var describe = function (value) {
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    try { return typeof value === 'object' ? JSON.stringify(value) : String(value); } catch (e) { return String(value); }
+  };
+  var issue = function (kind, message) { post({ type: 'issue', issue: { kind: kind, message: message } }); };
+
+  var consoleError = console.error;
+  console.error = function () {
+    issue('console-error', Array.prototype.map.call(arguments, describe).join(' '));
+    return consoleError.apply(console, arguments);
+  };
+  window.addEventListener('error', function (e) {
+    issue('exception', (e.error ? describe(e.error) : (e.message || 'Script error')) + (e.lineno ? ' (line ' + e.lineno + ')' : ''));
+  });
+  window.addEventListener('unhandledrejection', function (e) {
+    issue('rejection', 'Unhandled promise rejection: ' + describe(e.reason));
+  });
+
+  var getContext = HTMLCanvasElement.prototype.getContext;
+  HTMLCanvasElement.prototype.getContext = function (type, attributes) {
+    if (/webgl/i.test(String(type))) attributes = Object.assign({}, attributes, { preserveDrawingBuffer: true });
+    return getContext.call(this, type, attributes);
+  };
+
+  var probe = document.createElement('canvas');
+  var hasDrawing = function (canvas) {
+    if (!canvas.width || !canvas.height) return false;
+    var scale = Math.min(1, ${SAMPLE_SIZE} / Math.max(canvas.width, canvas.height));
+    probe.width = Math.max(1, Math.round(canvas.width * scale));
+    probe.height = Math.max(1, Math.round(canvas.height * scale));
+    var ctx = getContext.call(probe, '2d', { willReadFrequently: true });
+    try {
+      ctx.drawImage(canvas, 0, 0, probe.width, probe.height);
+      var data = ctx.getImageData(0, 0, probe.width, probe.height).data;
+      for (var i = 4; i < data.length; i += 4) {
+        if (data[i] !== data[0] || data[i + 1] !== data[1] || data[i + 2] !== data[2] || data[i + 3] !== data[3]) return true;
+      }
+    } catch (e) {
+      // A tainted canvas can't be read; it did draw something
+      return true;
+    }
+    return false;
+  };
+  setInterval(function () {
+    var canvases = Array.prototype.slice.call(document.querySelectorAll('canvas'));
+    post({ type: 'sample', canvases: canvases.length, drawn: canvases.some(hasDrawing) });
+  }, ${SAMPLE_INTERVAL_MS});
+})();
+</script>`;
+
+// The probe has to run before the model's code
+export const instrumentSimulator = (html: string, token: string): string => injectHeadScript(html, buildProbeScript(token));
+
+// Runs the simulator once in a hidden frame. The frame stays inside the
+// viewport (transparent and behind everything) because browsers pause
+// animation frames in off-screen cross-origin frames.
+export const runSimulatorQa = (html: string, signal?: AbortSignal): Promise<Omit<SimulatorQaAttempt, 'attempt'>> =>
+    new Promise((resolve, reject) => {
+        throwIfAborted(signal);
+        const token = Math.random().toString(36).slice(2);
+        const started = Date.now();
+        const issues: SimulatorQaIssue[] = [];
+        let framesSampled = 0;
+        let framesDrawn = 0;
+        let canvasesSeen = 0;
+
+        const frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', 'allow-scripts');
+        frame.setAttribute('aria-hidden', 'true');
+        frame.tabIndex = -1;
+        frame.style.cssText = 'position:fixed;top:0;left:0;width:1024px;height:640px;border:0;opacity:0;pointer-events:none;z-index:-1;';
+
+        const onMessage = (event: MessageEvent) => {
+            const message = event.data as QaMessage;
+            if (event.source !== frame.contentWindow || message?.source !== QA_MESSAGE_SOURCE || message.token !== token) return;
+            if (message.type === 'issue' && message.issue) {
+                const text = String(message.issue.message).slice(0, MAX_MESSAGE_CHARS);
+                // Errors inside the draw loop repeat every frame
+                if (issues.length < MAX_ISSUES && !issues.some(i => i.kind === message.issue!.kind && i.message === text)) {
+                    issues.push({ kind: message.issue.kind, message: text });
+                }
+            } else if (message.type === 'sample') {
+                framesSampled++;
+                if (message.drawn) framesDrawn++;
+                canvasesSeen = Math.max(canvasesSeen, message.canvases || 0);
+            }
+        };
+
+        const cleanup = () => {
+            clearTimeout(timer);
+            window.removeEventListener('message', onMessage);
+            signal?.removeEventListener('abort', onAbort);
+            frame.remove();
+        };
+        const onAbort = () => {
+            cleanup();
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            cleanup();
+            if (framesSampled === 0) {
+                issues.push({ kind: 'no-response', message: `The simulator did not respond within ${QA_RUN_MS / 1000}s (it may be stuck in a loop or failed before any script ran)` });
+            } else if (canvasesSeen === 0) {
+                issues.push({ kind: 'no-canvas', message: 'No <canvas> element was found in the document' });
+            } else if (framesDrawn === 0) {
+                issues.push({ kind: 'blank-canvas', message: `The canvas stayed blank for all ${framesSampled} samples over ${QA_RUN_MS / 1000}s` });
+            }
+            resolve({ passed: issues.length === 0, issues, framesSampled, framesDrawn, durationMs: Date.now() - started });
+        }, QA_RUN_MS);
+
+        window.addEventListener('message', onMessage);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        // With the bridge, as the simulator tab renders it
+        frame.srcdoc = instrumentSimulator(withSimulatorBridge(html), token);
+        document.body.appendChild(frame);
+    });
+
+// The log the repair prompt receives
+const ISSUE_PREFIXES: Partial<Record<SimulatorQaIssueKind, string>> = {
+    'console-error': 'console.error: ',
+    exception: 'Uncaught exception: '
+};
+
+export const formatQaLog = (attempt: Pick<SimulatorQaAttempt, 'issues' | 'framesSampled' | 'framesDrawn'>): string => {
+    const lines = attempt.issues.map(issue => `- ${ISSUE_PREFIXES[issue.kind] || ''}${issue.message}`);
+    lines.push(`- Canvas samples with something drawn: ${attempt.framesDrawn} of ${attempt.framesSampled}`);
+    return lines.join('\n');
+};
+
+// Runs QA and repairs until a version passes or the repairs run out. Without
+// a passing version, the one with the fewest issues is kept (the original on
+// a tie), so a repair never makes things worse. A failed repair call (network,
+// budget, bad output) ends the repairs and is noted in the report; the
+// simulator already generated is still returned.
+export const qaSimulator = async (
+    code: string,
+    repair: (code: string, errorLog: string) => Promise<string>,
+    options: { maxRepairs?: number; signal?: AbortSignal; onAttempt?: (attempt: number) => void } = {}
+): Promise<{ code: string; report: SimulatorQaReport }> => {
+    const maxRepairs = options.maxRepairs ?? MAX_SIMULATOR_REPAIRS;
+    const attempts: SimulatorQaAttempt[] = [];
+    let current = code;
+    let best = { code, issues: Infinity, index: 0 };
+    let repairError: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+        options.onAttempt?.(attempt);
+        const result = { attempt, ...await runSimulatorQa(current, options.signal) };
+        attempts.push(result);
+        if (result.issues.length < best.issues) best = { code: current, issues: result.issues.length, index: attempts.length - 1 };
+        if (result.passed || attempt > maxRepairs) break;
+        throwIfAborted(options.signal);
+        try {
+            current = await repair(current, formatQaLog(result));
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn("Simulator repair failed", e);
+            repairError = (e as Error)?.message || String(e);
+            break;
+        }
+    }
+
+    return {
+        code: best.code,
+        report: {
+            checkedAt: Date.now(),
+            passed: attempts[best.index].passed,
+            repaired: best.code !== code,
+            attempts,
+            ...(repairError ? { repairError } : {})
+        }
+    };
+};
@@ -0,0 +1,103 @@
+
+import { Type } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import {
+    QUIZ_SPEC,
+    StructuredOutputError,
+    TOPIC_FACTS_SPEC,
+    TRANSCRIPT_SPEC,
+    generateStructured,
+    parseStructured,
+    stripJsonFences,
+    validateAgainstSchema
+} from './structuredOutput';
+
+const question = (id: number, correctAnswer: number = 0) => ({
+    id, question: 'Which?', options: ['A', 'B'], correctAnswer, explanation: 'Because.'
+});
+
+describe('validateAgainstSchema', () => {
+    it('reports missing fields and wrong types with their path', () => {
+        expect(validateAgainstSchema({ questions: [{ id: '1', options: 'A', correctAnswer: 1.5 }] }, QUIZ_SPEC.schema)).toEqual([
+            '$.questions[0].question is missing',
+            '$.questions[0].explanation is missing',
+            '$.questions[0].id should be a number',
+            '$.questions[0].options should be an array',
+            '$.questions[0].correctAnswer should be an integer'
+        ]);
+    });
+
+    it('enforces minItems', () => {
+        expect(validateAgainstSchema({ facts: [], searchContext: 'x' }, TOPIC_FACTS_SPEC.schema)).toEqual(['$.facts needs at least 1 item(s)']);
+    });
+
+    it('rejects arrays and null where an object is expected', () => {
+        const schema = { type: Type.OBJECT, properties: {} };
+        expect(validateAgainstSchema([], schema)).toEqual(['$ should be an object']);
+        expect(validateAgainstSchema(null, schema)).toEqual(['$ should be an object']);
+    });
+
+    it('treats NaN as not a number', () => {
+        expect(validateAgainstSchema(NaN, { type: Type.NUMBER })).toEqual(['$ should be a number']);
+    });
+});
+
+describe('stripJsonFences', () => {
+    it('unwraps fenced JSON and leaves bare JSON alone', () => {
+        expect(stripJsonFences('Here:\n```json\n{"a":1}\n```').trim()).toBe('{"a":1}');
+        expect(stripJsonFences('{"a":1}')).toBe('{"a":1}');
+    });
+});
+
+describe('parseStructured', () => {
+    it('returns the value when schema and checks pass', () => {
+        const parsed = parseStructured('{"facts":["Light bends"],"searchContext":"Optics"}', TOPIC_FACTS_SPEC);
+        expect(parsed).toEqual({ value: { facts: ['Light bends'], searchContext: 'Optics' }, issues: [] });
+    });
+
+    it('reports invalid JSON', () => {
+        const parsed = parseStructured('{"facts":', TOPIC_FACTS_SPEC);
+        expect(parsed.value).toBeUndefined();
+        expect(parsed.issues[0]).toMatch(/^not valid JSON/);
+    });
+
+    it('runs the semantic checks only once the schema passes', () => {
+        expect(parseStructured(JSON.stringify({ questions: [question(1, 2), question(1)] }), QUIZ_SPEC).issues).toEqual([
+            'questions[0].correctAnswer 2 is not a valid index into 2 options',
+            'questions[1].id 1 is duplicated'
+        ]);
+        expect(parseStructured('{"facts":["x"],"searchContext":"  "}', TOPIC_FACTS_SPEC).issues).toEqual(['searchContext is empty']);
+    });
+
+    it('flags transcript lines that go back in time', () => {
+        const transcript = { segments: [{ title: 'Intro', startSec: 0, lines: [{ startSec: 5, text: 'a' }, { startSec: 3, text: 'b' }] }] };
+        expect(parseStructured(JSON.stringify(transcript), TRANSCRIPT_SPEC).issues).toEqual([
+            'segments[0].lines[1].startSec 3 goes back in time (previous 5)'
+        ]);
+    });
+});
+
+describe('generateStructured', () => {
+    it('returns the first response when it is valid', async () => {
+        const generate = vi.fn(async () => JSON.stringify({ questions: [question(1)] }));
+        await expect(generateStructured(QUIZ_SPEC, generate)).resolves.toEqual({ questions: [question(1)] });
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks once for a repair that lists the issues', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const generate = vi.fn(async (repairPrompt?: string) =>
+            repairPrompt ? JSON.stringify({ questions: [question(1)] }) : JSON.stringify({ questions: [question(1, 5)] }));
+        await expect(generateStructured(QUIZ_SPEC, generate)).resolves.toEqual({ questions: [question(1)] });
+        expect(generate).toHaveBeenCalledTimes(2);
+        expect(generate.mock.calls[1][0]).toContain('- questions[0].correctAnswer 5 is not a valid index into 2 options');
+    });
+
+    it('throws a StructuredOutputError when the repair is still invalid', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const error = await generateStructured(QUIZ_SPEC, async () => '{"questions":[]}').catch(e => e);
+        expect(error).toBeInstanceOf(StructuredOutputError);
+        expect(error.issues).toEqual(['$.questions needs at least 1 item(s)']);
+        expect(error.raw).toBe('{"questions":[]}');
+    });
+});
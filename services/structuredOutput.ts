@@ -0,0 +1,269 @@
+
+import { Type } from "@google/genai";
+import { TopicFacts, QuizQuestion, TranscriptSegment, FactCheckClaim } from '../types';
+
+// --- STRUCTURED OUTPUTS ---
+// Every stage that returns JSON declares a schema here. Gemini receives it as
+// `responseSchema` where the call allows it; every provider's output is then
+// checked by `validateAgainstSchema` plus the spec's own semantic checks.
+// One repair round is attempted before a StructuredOutputError is thrown.
+
+// Gemini's schema dialect (OpenAPI subset); also used to describe the
+// expected shape in prompts for providers without schema support.
+export interface OutputSchema {
+    type: Type;
+    description?: string;
+    properties?: Record<string, OutputSchema>;
+    required?: string[];
+    items?: OutputSchema;
+    minItems?: number;
+}
+
+export interface StructuredOutputSpec<T> {
+    name: string;
+    schema: OutputSchema;
+    // Semantic checks the schema can't express; return one message per problem
+    check?: (value: T) => string[];
+}
+
+export class StructuredOutputError extends Error {
+    constructor(
+        public readonly spec: string,
+        public readonly issues: string[],
+        public readonly raw: string
+    ) {
+        super(`The model returned an invalid ${spec} (${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; …' : ''})`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+// --- SCHEMAS ---
+export const TOPIC_FACTS_SPEC: StructuredOutputSpec<TopicFacts> = {
+    name: 'research summary',
+    schema: {
+        type: Type.OBJECT,
+        properties: {
+            facts: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: 1 },
+            searchContext: { type: Type.STRING }
+        },
+        required: ['facts', 'searchContext']
+    },
+    check: (value) => value.searchContext.trim() ? [] : ['searchContext is empty']
+};
+
+// Wrapped in an object because OpenAI-style JSON mode requires a top-level object.
+export const QUIZ_SPEC: StructuredOutputSpec<{ questions: QuizQuestion[] }> = {
+    name: 'quiz',
+    schema: {
+        type: Type.OBJECT,
+        properties: {
+            questions: {
+                type: Type.ARRAY,
+                minItems: 1,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        id: { type: Type.NUMBER },
+                        question: { type: Type.STRING },
+                        options: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: 2 },
+                        correctAnswer: { type: Type.INTEGER },
+                        explanation: { type: Type.STRING }
+                    },
+                    required: ['id', 'question', 'options', 'correctAnswer', 'explanation']
+                }
+            }
+        },
+        required: ['questions']
+    },
+    check: ({ questions }) => {
+        const issues: string[] = [];
+        const ids = new Set<number>();
+        questions.forEach((q, i) => {
+            if (q.correctAnswer < 0 || q.correctAnswer >= q.options.length) {
+                issues.push(`questions[${i}].correctAnswer ${q.correctAnswer} is not a valid index into ${q.options.length} options`);
+            }
+            if (ids.has(q.id)) issues.push(`questions[${i}].id ${q.id} is duplicated`);
+            ids.add(q.id);
+        });
+        return issues;
+    }
+};
+
+export const TRANSCRIPT_SPEC: StructuredOutputSpec<{ segments: TranscriptSegment[] }> = {
+    name: 'transcript',
+    schema: {
+        type: Type.OBJECT,
+        properties: {
+            segments: {
+                type: Type.ARRAY,
+                minItems: 1,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING },
+                        startSec: { type: Type.NUMBER },
+                        lines: {
+                            type: Type.ARRAY,
+                            minItems: 1,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    startSec: { type: Type.NUMBER },
+                                    text: { type: Type.STRING }
+                                },
+                                required: ['startSec', 'text']
+                            }
+                        }
+                    },
+                    required: ['title', 'startSec', 'lines']
+                }
+            }
+        },
+        required: ['segments']
+    },
+    check: ({ segments }) => {
+        const issues: string[] = [];
+        let previous = 0;
+        segments.forEach((segment, i) => segment.lines.forEach((line, j) => {
+            if (line.startSec < 0) issues.push(`segments[${i}].lines[${j}].startSec is negative`);
+            else if (line.startSec < previous) issues.push(`segments[${i}].lines[${j}].startSec ${line.startSec} goes back in time (previous ${previous})`);
+            previous = Math.max(previous, line.startSec);
+        }));
+        return issues;
+    }
+};
+
+const FACT_CHECK_VERDICTS = ['supported', 'disputed', 'unverifiable'];
+
+export const FACT_CHECK_SPEC: StructuredOutputSpec<{ claims: FactCheckClaim[] }> = {
+    name: 'fact check',
+    schema: {
+        type: Type.OBJECT,
+        properties: {
+            claims: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        quote: { type: Type.STRING },
+                        kind: { type: Type.STRING },
+                        verdict: { type: Type.STRING },
+                        evidence: { type: Type.STRING },
+                        correction: { type: Type.STRING },
+                        source: { type: Type.STRING }
+                    },
+                    required: ['quote', 'kind', 'verdict', 'evidence']
+                }
+            }
+        },
+        required: ['claims']
+    },
+    check: ({ claims }) => {
+        const issues: string[] = [];
+        claims.forEach((claim, i) => {
+            if (!claim.quote.trim()) issues.push(`claims[${i}].quote is empty`);
+            if (!['claim', 'formula'].includes(claim.kind)) issues.push(`claims[${i}].kind should be "claim" or "formula"`);
+            if (!FACT_CHECK_VERDICTS.includes(claim.verdict)) issues.push(`claims[${i}].verdict should be one of ${FACT_CHECK_VERDICTS.join(', ')}`);
+            if (claim.verdict === 'disputed' && !claim.correction?.trim()) issues.push(`claims[${i}] is disputed but has no correction`);
+        });
+        return issues;
+    }
+};
+
+// --- PARSING & VALIDATION ---
+// Models often wrap JSON in code fences even when told not to.
+export const stripJsonFences = (text: string) => {
+    const match = text.match(/```json([\s\S]*?)```/) || text.match(/```([\s\S]*?)```/);
+    return match ? match[1] : text;
+};
+
+export const validateAgainstSchema = (value: any, schema: OutputSchema, path: string = '$'): string[] => {
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+            const missing = (schema.required || []).filter(key => value[key] === undefined || value[key] === null);
+            const issues = missing.map(key => `${path}.${key} is missing`);
+            Object.entries(schema.properties || {}).forEach(([key, child]) => {
+                if (value[key] !== undefined && value[key] !== null) issues.push(...validateAgainstSchema(value[key], child, `${path}.${key}`));
+            });
+            return issues;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) return [`${path} should be an array`];
+            const issues: string[] = [];
+            if (schema.minItems && value.length < schema.minItems) issues.push(`${path} needs at least ${schema.minItems} item(s)`);
+            if (schema.items) value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+            return issues;
+        }
+        case Type.STRING:
+            return typeof value === 'string' ? [] : [`${path} should be a string`];
+        case Type.INTEGER:
+            return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+        case Type.NUMBER:
+            return typeof value === 'number' && !Number.isNaN(value) ? [] : [`${path} should be a number`];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+        default:
+            return [];
+    }
+};
+
+// `issues` is empty when `value` is valid.
+interface ParseResult<T> {
+    value?: T;
+    issues: string[];
+}
+
+export const parseStructured = <T>(text: string, spec: StructuredOutputSpec<T>): ParseResult<T> => {
+    let value: any;
+    try {
+        value = JSON.parse(stripJsonFences(text).trim());
+    } catch (e: any) {
+        return { issues: [`not valid JSON: ${e?.message || e}`] };
+    }
+    const issues = validateAgainstSchema(value, spec.schema);
+    if (issues.length === 0 && spec.check) issues.push(...spec.check(value));
+    return issues.length === 0 ? { value, issues } : { issues };
+};
+
+// --- PROMPTS ---
+export const describeSchema = (schema: OutputSchema): any => {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) => [key, describeSchema(child)]));
+        case Type.ARRAY:
+            return [describeSchema(schema.items || { type: Type.STRING })];
+        default:
+            return schema.type.toLowerCase();
+    }
+};
+
+export const buildRepairPrompt = <T>(spec: StructuredOutputSpec<T>, raw: string, issues: string[]) => `
+    Your previous response was supposed to be a ${spec.name} in JSON, but it failed validation:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+
+    Expected shape:
+    ${JSON.stringify(describeSchema(spec.schema))}
+
+    Previous response:
+    ${raw.slice(0, 20000)}
+
+    Return ONLY the corrected JSON, keeping the original content wherever it was valid. No markdown fences.
+    `;
+
+// Runs `generate`, validates the result and, on failure, asks once for a
+// repair. `generate` receives the repair prompt on the second call.
+export const generateStructured = async <T>(
+    spec: StructuredOutputSpec<T>,
+    generate: (repairPrompt?: string) => Promise<string>
+): Promise<T> => {
+    const raw = await generate();
+    const first = parseStructured(raw, spec);
+    if (first.issues.length === 0) return first.value as T;
+
+    console.warn(`Invalid ${spec.name}, attempting repair`, first.issues);
+    const repaired = await generate(buildRepairPrompt(spec, raw, first.issues));
+    const second = parseStructured(repaired, spec);
+    if (second.issues.length === 0) return second.value as T;
+    throw new StructuredOutputError(spec.name, second.issues, repaired);
+};
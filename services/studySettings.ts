@@ -0,0 +1,98 @@
+
+import { StudySettings, StudyLevel, StudyLength, StudyEmphasis } from '../types';
+import { PromptVars } from './promptRegistry';
+
+// --- STUDY SETTINGS ---
+// Audience options chosen on the input card. They are saved on the session so
+// regenerating the simulator or quiz keeps the same pitch.
+
+export const DEFAULT_STUDY_SETTINGS: StudySettings = {
+    level: 'undergraduate',
+    length: 'standard',
+    emphasis: 'conceptual',
+    language: 'en',
+    englishGlosses: false
+};
+
+// Sessions saved before a setting existed fall back to its default.
+export const withStudySettingDefaults = (settings?: Partial<StudySettings>): StudySettings => ({
+    ...DEFAULT_STUDY_SETTINGS,
+    ...settings
+});
+
+interface SettingOption<T> {
+    id: T;
+    label: string;
+    // How the option is described to the model
+    prompt: string;
+}
+
+export const STUDY_LEVELS: SettingOption<StudyLevel>[] = [
+    { id: 'intro', label: 'Intro', prompt: 'Introductory (assume no prior knowledge, define every term)' },
+    { id: 'high-school', label: 'High School', prompt: 'High school' },
+    { id: 'undergraduate', label: 'Undergraduate', prompt: 'Undergraduate' },
+    { id: 'graduate', label: 'Graduate', prompt: 'Graduate (assume a strong background, be rigorous)' }
+];
+
+export const STUDY_LENGTHS: SettingOption<StudyLength>[] = [
+    { id: 'brief', label: 'Brief', prompt: 'Brief (roughly 800-1200 words, essentials only)' },
+    { id: 'standard', label: 'Standard', prompt: 'Standard (roughly 2000-3000 words)' },
+    { id: 'in-depth', label: 'In-Depth', prompt: 'In-depth (4000+ words, exhaustive coverage)' }
+];
+
+export const STUDY_EMPHASES: SettingOption<StudyEmphasis>[] = [
+    { id: 'conceptual', label: 'Conceptual', prompt: 'Conceptual understanding and intuition' },
+    { id: 'exam-prep', label: 'Exam Prep', prompt: 'Exam preparation: worked examples, common mistakes and exam-style problems' },
+    { id: 'derivations', label: 'Derivations', prompt: 'Mathematical derivations, worked step by step' }
+];
+
+// --- LANGUAGES ---
+export interface StudyLanguage {
+    id: string;
+    // Native name, shown in the selector
+    label: string;
+    englishName: string;
+    rtl: boolean;
+}
+
+export const STUDY_LANGUAGES: StudyLanguage[] = [
+    { id: 'en', label: 'English', englishName: 'English', rtl: false },
+    { id: 'hi', label: 'हिन्दी', englishName: 'Hindi', rtl: false },
+    { id: 'bn', label: 'বাংলা', englishName: 'Bengali', rtl: false },
+    { id: 'ur', label: 'اردو', englishName: 'Urdu', rtl: true },
+    { id: 'ar', label: 'العربية', englishName: 'Arabic', rtl: true },
+    { id: 'fa', label: 'فارسی', englishName: 'Persian', rtl: true },
+    { id: 'he', label: 'עברית', englishName: 'Hebrew', rtl: true },
+    { id: 'es', label: 'Español', englishName: 'Spanish', rtl: false },
+    { id: 'fr', label: 'Français', englishName: 'French', rtl: false },
+    { id: 'de', label: 'Deutsch', englishName: 'German', rtl: false },
+    { id: 'pt', label: 'Português', englishName: 'Portuguese', rtl: false },
+    { id: 'ru', label: 'Русский', englishName: 'Russian', rtl: false },
+    { id: 'zh', label: '中文', englishName: 'Chinese (Simplified)', rtl: false },
+    { id: 'ja', label: '日本語', englishName: 'Japanese', rtl: false }
+];
+
+export const getStudyLanguage = (id?: string): StudyLanguage =>
+    STUDY_LANGUAGES.find(l => l.id === id) || STUDY_LANGUAGES[0];
+
+// Value for a `dir` attribute on content written in `language`
+export const languageDirection = (language?: string): 'rtl' | 'ltr' =>
+    getStudyLanguage(language).rtl ? 'rtl' : 'ltr';
+
+const promptFor = <T>(options: SettingOption<T>[], id: T) => (options.find(o => o.id === id) || options[0]).prompt;
+
+// Template variables shared by every prompt that honours the settings.
+// Glosses only apply when writing in a language other than English.
+export const studySettingsVars = (settings?: Partial<StudySettings>): PromptVars => {
+    const resolved = withStudySettingDefaults(settings);
+    const language = getStudyLanguage(resolved.language);
+    const nonEnglish = language.id !== 'en';
+    return {
+        level: promptFor(STUDY_LEVELS, resolved.level),
+        length: promptFor(STUDY_LENGTHS, resolved.length),
+        emphasis: promptFor(STUDY_EMPHASES, resolved.emphasis),
+        language: nonEnglish ? `${language.englishName} (${language.label})` : language.englishName,
+        nonEnglish,
+        englishGlosses: nonEnglish && resolved.englishGlosses
+    };
+};
@@ -0,0 +1,49 @@
+
+import { ExtractedDocument, Transcript } from '../types';
+import { idbGet, idbPut, idbDelete } from './idb';
+
+// --- TRANSCRIPTS ---
+// Recordings are transcribed by the active provider (TRANSCRIBE stage) into
+// timestamped lines grouped by topic. The transcript then travels through
+// the pipeline like any extracted document, one section per topic, so notes
+// can cite "[voice_note.webm 12:34]".
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export const formatTimestamp = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const transcriptToDocument = (transcript: Transcript): ExtractedDocument => ({
+    name: transcript.name,
+    kind: 'audio',
+    sections: transcript.segments.map(segment => ({
+        anchor: formatTimestamp(segment.startSec),
+        text: `${segment.title}\n${segment.lines.map(line => `[${formatTimestamp(line.startSec)}] ${line.text}`).join('\n')}`
+    }))
+});
+
+// --- SESSION STORAGE ---
+// The original audio is kept per session in IndexedDB so the transcript
+// view can play it back from any timestamp.
+export interface SessionAudioClip {
+    name: string;
+    mimeType: string;
+    blob: Blob;
+}
+
+interface SessionAudio {
+    sessionId: string;
+    clips: SessionAudioClip[];
+}
+
+export const saveSessionAudio = (sessionId: string, clips: SessionAudioClip[]) =>
+    idbPut<SessionAudio>('sessionAudio', { sessionId, clips });
+
+export const loadSessionAudio = async (sessionId: string): Promise<SessionAudioClip[]> =>
+    (await idbGet<SessionAudio>('sessionAudio', sessionId))?.clips || [];
+
+export const deleteSessionAudio = (sessionId: string) => idbDelete('sessionAudio', sessionId);
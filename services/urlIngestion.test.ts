@@ -0,0 +1,41 @@
+
+import { describe, expect, it } from 'vitest';
+import { detectLinks, stripLinks } from './urlIngestion';
+
+describe('detectLinks', () => {
+    it('keeps a closing parenthesis the URL opened', () => {
+        expect(detectLinks('Read https://en.wikipedia.org/wiki/Mercury_(planet) first')).toEqual(['https://en.wikipedia.org/wiki/Mercury_(planet)']);
+    });
+
+    it('drops a closing parenthesis the sentence opened', () => {
+        expect(detectLinks('Orbits (see https://x.org/page) are ellipses')).toEqual(['https://x.org/page']);
+        expect(detectLinks('(see https://en.wikipedia.org/wiki/Mercury_(planet))')).toEqual(['https://en.wikipedia.org/wiki/Mercury_(planet)']);
+    });
+
+    it('drops trailing punctuation', () => {
+        expect(detectLinks('Start at https://x.org/a. Then https://x.org/b, and https://x.org/c?!')).toEqual([
+            'https://x.org/a',
+            'https://x.org/b',
+            'https://x.org/c'
+        ]);
+    });
+
+    it('keeps punctuation inside the URL', () => {
+        expect(detectLinks('https://x.org/search?q=a,b&page=2.')).toEqual(['https://x.org/search?q=a,b&page=2']);
+    });
+
+    it('removes duplicates and keeps the first five links in order', () => {
+        const text = ['a', 'b', 'a', 'c', 'd', 'e', 'f'].map(path => `https://x.org/${path}`).join(' ');
+        expect(detectLinks(text)).toEqual(['a', 'b', 'c', 'd', 'e'].map(path => `https://x.org/${path}`));
+    });
+
+    it('ignores text without links', () => {
+        expect(detectLinks('Kepler\'s laws, no sources')).toEqual([]);
+    });
+});
+
+describe('stripLinks', () => {
+    it('leaves the topic once the links are taken out', () => {
+        expect(stripLinks('https://x.org/page Orbital mechanics')).toBe('Orbital mechanics');
+    });
+});
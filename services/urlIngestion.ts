@@ -0,0 +1,231 @@
+
+import { DocumentSection, ExtractedDocument, StudyAttachment } from '../types';
+import { createAbortError, isAbortError, throwIfAborted } from './cancellation';
+import { extractDocument, headingAnchor, normalizeText } from './documentExtraction';
+import { API_BASE_URL } from './apiClient';
+
+// --- LINK INGESTION ---
+// Links pasted into the topic box are fetched through a proxy (browsers can't
+// read other sites directly because of CORS), by default the API server's
+// /fetch route, cleaned into readable article text and passed on as web-page
+// attachments, so they reach the Architect, Research and Notes stages like
+// any extracted document. The proxy receives the target URL, URL-encoded,
+// appended to FETCH_PROXY_URL and should answer with the page body and its
+// original Content-Type and status.
+
+const SERVER_FETCH_PROXY = '/fetch?url=';
+export const FETCH_PROXY_URL = process.env.FETCH_PROXY_URL || SERVER_FETCH_PROXY;
+
+// At most this many links per study run, in the order they appear
+const MAX_LINKS = 5;
+const FETCH_TIMEOUT_MS = 20000;
+
+export class LinkFetchError extends Error {
+    constructor(public readonly url: string, message: string) {
+        super(message);
+        this.name = 'LinkFetchError';
+    }
+}
+
+const OPENING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+const occurrences = (text: string, char: string) => text.split(char).length - 1;
+
+// Trailing punctuation usually belongs to the sentence, not the URL. A
+// closing bracket only does when the URL never opened it, so
+// ".../Mercury_(planet)" keeps its parenthesis and "(see .../page)" drops it.
+const trimLink = (link: string): string => {
+    while (link) {
+        const last = link[link.length - 1];
+        const opening = OPENING_BRACKETS[last];
+        const unbalanced = opening !== undefined && occurrences(link, opening) < occurrences(link, last);
+        if (!/[.,;:!?]/.test(last) && !unbalanced) break;
+        link = link.slice(0, -1);
+    }
+    return link;
+};
+
+export const detectLinks = (text: string): string[] => {
+    const matches = text.match(/https?:\/\/[^\s<>"'`]+/gi) || [];
+    const links = matches
+        .map(trimLink)
+        .filter(m => { try { return !!new URL(m).hostname; } catch { return false; } });
+    return Array.from(new Set(links)).slice(0, MAX_LINKS);
+};
+
+// What's left of the topic once the links are taken out
+export const stripLinks = (text: string) => text.replace(/https?:\/\/[^\s<>"'`]+/gi, '').trim();
+
+const hostnameOf = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+// --- READABILITY ---
+const NOISE_SELECTOR = 'script, style, noscript, template, iframe, svg, canvas, nav, header, footer, aside, form, button, '
+    + '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [aria-hidden="true"], [hidden]';
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, p, li, blockquote, pre, figcaption, td';
+
+const metaContent = (doc: Document, ...names: string[]) => {
+    for (const name of names) {
+        const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim();
+        if (content) return content;
+    }
+    return undefined;
+};
+
+const findAuthor = (doc: Document): string | undefined => {
+    const meta = metaContent(doc, 'author', 'article:author', 'parsely-author', 'sailthru.author', 'dc.creator');
+    // article:author is often a profile URL rather than a name
+    if (meta && !/^https?:/i.test(meta)) return meta;
+    const byline = doc.querySelector('[rel="author"], [itemprop="author"], .author, .byline, [class*="byline"]')?.textContent;
+    const cleaned = byline?.replace(/\s+/g, ' ').replace(/^by\s+/i, '').trim();
+    return cleaned && cleaned.length <= 80 ? cleaned : undefined;
+};
+
+// The element holding most of the paragraph text: <article> or <main> when
+// present, otherwise the parent with the most paragraph characters.
+const findContentRoot = (body: HTMLElement): HTMLElement => {
+    const textLength = (el: Element) => Array.from(el.querySelectorAll('p')).reduce((sum, p) => sum + (p.textContent?.trim().length || 0), 0);
+    const landmarks = Array.from(body.querySelectorAll<HTMLElement>('article, main, [role="main"]'));
+    const bestLandmark = landmarks.sort((a, b) => textLength(b) - textLength(a))[0];
+    if (bestLandmark && textLength(bestLandmark) > 500) return bestLandmark;
+
+    const scores = new Map<HTMLElement, number>();
+    body.querySelectorAll('p').forEach(p => {
+        const parent = p.parentElement;
+        if (parent) scores.set(parent, (scores.get(parent) || 0) + (p.textContent?.trim().length || 0));
+    });
+    let best: HTMLElement = body;
+    let bestScore = 0;
+    scores.forEach((score, el) => {
+        if (score > bestScore) { best = el; bestScore = score; }
+    });
+    return bestScore > 200 ? best : body;
+};
+
+interface Article {
+    title: string;
+    author?: string;
+    siteName: string;
+    sections: DocumentSection[];
+}
+
+// Headings start new sections; everything else is appended as paragraphs.
+const parseArticle = (html: string, url: string): Article => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const title = (metaContent(doc, 'og:title', 'twitter:title') || doc.title || doc.querySelector('h1')?.textContent || hostnameOf(url)).replace(/\s+/g, ' ').trim();
+    const author = findAuthor(doc);
+    const siteName = metaContent(doc, 'og:site_name', 'application-name') || hostnameOf(url);
+
+    doc.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+    const root = findContentRoot(doc.body);
+
+    const sections: DocumentSection[] = [];
+    let current: DocumentSection = { anchor: '§ Start', text: '' };
+    root.querySelectorAll(BLOCK_SELECTOR).forEach(el => {
+        // Nested blocks (a <p> inside an <li>) are read with their container.
+        const container = el.parentElement?.closest(BLOCK_SELECTOR);
+        if (container && root.contains(container)) return;
+        const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+        if (!text) return;
+        if (/^H[1-4]$/.test(el.tagName)) {
+            if (current.text.trim()) sections.push({ ...current, text: normalizeText(current.text) });
+            current = { anchor: headingAnchor(text), text: `${text}\n` };
+        } else {
+            current.text += `${el.tagName === 'LI' ? '- ' : ''}${text}\n`;
+        }
+    });
+    if (current.text.trim()) sections.push({ ...current, text: normalizeText(current.text) });
+    return { title, author, siteName, sections };
+};
+
+// --- FETCHING ---
+// Aborts on the caller's signal or after FETCH_TIMEOUT_MS, whichever is first.
+const fetchThroughProxy = async (url: string, signal?: AbortSignal): Promise<Response> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, FETCH_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        return await fetch(`${FETCH_PROXY_URL}${encodeURIComponent(url)}`, { signal: controller.signal });
+    } catch (e) {
+        if (signal?.aborted) throw createAbortError();
+        if (timedOut) throw new LinkFetchError(url, `No response after ${FETCH_TIMEOUT_MS / 1000} s`);
+        throw new LinkFetchError(url, `The fetch proxy isn't reachable at ${new URL(FETCH_PROXY_URL, window.location.href).origin} (set FETCH_PROXY_URL)`);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+// The default proxy only exists while the API server runs. Without it the
+// links are skipped with one clear note rather than a proxy error each.
+const fetchProxyAvailable = async (signal?: AbortSignal): Promise<boolean> => {
+    if (FETCH_PROXY_URL !== SERVER_FETCH_PROXY) return true;
+    try {
+        return (await fetch(`${API_BASE_URL}/health`, { signal })).ok;
+    } catch {
+        if (signal?.aborted) throw createAbortError();
+        return false;
+    }
+};
+
+// One readable web page as an attachment. PDFs and plain text behind a link
+// go through the regular document extractors.
+export const fetchLinkedPage = async (url: string, signal?: AbortSignal): Promise<StudyAttachment> => {
+    const response = await fetchThroughProxy(url, signal);
+    if (!response.ok) throw new LinkFetchError(url, `The page returned HTTP ${response.status}`);
+    const mimeType = (response.headers.get('content-type') || 'text/html').split(';')[0].trim().toLowerCase();
+    const blob = await response.blob();
+    throwIfAborted(signal);
+
+    let document: ExtractedDocument;
+    let author: string | undefined;
+    if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+        const article = parseArticle(await blob.text(), url);
+        author = article.author;
+        const byline = [author && `By ${author}`, article.siteName].filter(Boolean).join(' · ');
+        const [first, ...rest] = article.sections;
+        // The byline rides along in the first section so the model can attribute the page.
+        const sections = first ? [{ ...first, text: `${article.title}\n${byline}\n${url}\n\n${first.text}` }, ...rest] : [];
+        document = { name: article.title, kind: 'web', sections };
+    } else if (mimeType === 'application/pdf' || mimeType.startsWith('text/')) {
+        const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || hostnameOf(url);
+        const file = new File([blob], fileName, { type: mimeType });
+        document = { ...await extractDocument(file, mimeType, mimeType === 'application/pdf' ? 'pdf' : 'text', signal), kind: 'web' };
+    } else {
+        throw new LinkFetchError(url, `Unsupported content type ${mimeType}`);
+    }
+    if (document.sections.length === 0) throw new LinkFetchError(url, 'No readable text found on the page');
+
+    const count = document.sections.length;
+    return {
+        name: document.name,
+        mimeType,
+        sizeBytes: blob.size,
+        kind: 'web',
+        status: 'text',
+        url,
+        document,
+        note: `${author ? `By ${author} · ` : ''}${count} section${count === 1 ? '' : 's'}`
+    };
+};
+
+// Links that can't be fetched come back as 'failed' attachments whose note
+// says why, so one dead link doesn't sink the run.
+const failedLink = (url: string, note: string): StudyAttachment =>
+    ({ name: hostnameOf(url), mimeType: 'text/html', sizeBytes: 0, kind: 'web', status: 'failed', url, note });
+
+export const ingestLinks = async (urls: string[], signal?: AbortSignal): Promise<StudyAttachment[]> => {
+    if (urls.length === 0) return [];
+    if (!await fetchProxyAvailable(signal)) {
+        return urls.map(url => failedLink(url, 'Links are only read while the API server runs (npm run server)'));
+    }
+    return Promise.all(urls.map(async url => {
+        try {
+            return await fetchLinkedPage(url, signal);
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn(`Could not fetch ${url}`, e);
+            return failedLink(url, (e as Error)?.message || 'Could not be fetched');
+        }
+    }));
+};
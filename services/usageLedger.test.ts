@@ -0,0 +1,133 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageRecord } from '../types';
+import {
+    applyBudgetToChain,
+    checkBudget,
+    estimateImageCost,
+    estimateTokenCost,
+    getSpend,
+    getUsageLedger,
+    recordUsage,
+    reportUsage,
+    saveBudgetConfig
+} from './usageLedger';
+
+// Mid-month, mid-day in local time, so the day and month windows are easy to straddle
+const NOW = new Date(2026, 9, 15, 12, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+const spent = (costUsd: number, timestamp: number): UsageRecord =>
+    ({ stage: 'NOTES', model: 'gemini-2.5-flash', promptTokens: 0, thinkingTokens: 0, outputTokens: 0, costUsd, timestamp });
+
+beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); }
+    });
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('estimateTokenCost', () => {
+    it('prices by model prefix, with thinking tokens at the output rate', () => {
+        // 1M prompt tokens at $2 plus 0.5M thinking and 0.5M output tokens at $12
+        expect(estimateTokenCost('gemini-3-pro-preview', 1_000_000, 500_000, 500_000)).toBeCloseTo(14);
+    });
+
+    it('matches flash-lite before flash', () => {
+        expect(estimateTokenCost('gemini-2.5-flash-lite', 0, 0, 1_000_000)).toBeCloseTo(0.40);
+        expect(estimateTokenCost('gemini-2.5-flash', 0, 0, 1_000_000)).toBeCloseTo(2.50);
+    });
+
+    it('treats local and unknown models as free', () => {
+        expect(estimateTokenCost('llama3.1', 1_000_000, 0, 1_000_000)).toBe(0);
+    });
+});
+
+describe('estimateImageCost', () => {
+    it('falls back to the 1K price for sizes a model has no price for', () => {
+        expect(estimateImageCost('gemini-3-pro-image-preview', '4K')).toBe(0.24);
+        expect(estimateImageCost('gemini-2.5-flash-image', '2K')).toBe(0.039);
+    });
+});
+
+describe('reportUsage', () => {
+    it('prices the call, appends it to the ledger and emits a usage event', () => {
+        const onEvent = vi.fn();
+        const record = reportUsage('NOTES', 'gemini-2.5-flash', { promptTokens: 1_000_000 }, { onEvent });
+        expect(record.costUsd).toBeCloseTo(0.30);
+        expect(getUsageLedger()).toEqual([record]);
+        expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'usage', record }));
+    });
+
+    it('drops records older than the retention window', () => {
+        recordUsage(spent(1, NOW.getTime() - 90 * 24 * HOUR));
+        recordUsage(spent(2, NOW.getTime()));
+        expect(getUsageLedger().map(r => r.costUsd)).toEqual([2]);
+    });
+});
+
+describe('getSpend', () => {
+    it('counts today and this month in local time', () => {
+        // An hour ago, a minute before midnight yesterday, and last month
+        const ledger = [
+            spent(1, NOW.getTime() - HOUR),
+            spent(2, new Date(2026, 9, 14, 23, 59).getTime()),
+            spent(4, new Date(2026, 8, 30, 12).getTime())
+        ];
+        expect(getSpend('day', ledger)).toBe(1);
+        expect(getSpend('month', ledger)).toBe(3);
+    });
+});
+
+describe('checkBudget', () => {
+    it('is not exceeded without limits', () => {
+        recordUsage(spent(100, NOW.getTime()));
+        expect(checkBudget()).toEqual({ exceeded: false, mode: 'downgrade' });
+    });
+
+    it('reports the daily limit once it is reached', () => {
+        recordUsage(spent(5, NOW.getTime()));
+        expect(checkBudget({ dailyUsd: 5, onExceeded: 'block' })).toEqual({
+            exceeded: true,
+            mode: 'block',
+            reason: 'Daily budget of $5.00 reached ($5.00 spent)'
+        });
+    });
+
+    it('reports the monthly limit from earlier days', () => {
+        recordUsage(spent(8, new Date(2026, 9, 2).getTime()));
+        const status = checkBudget({ dailyUsd: 5, monthlyUsd: 8, onExceeded: 'downgrade' });
+        expect(status.exceeded).toBe(true);
+        expect(status.reason).toMatch(/^Monthly budget/);
+    });
+});
+
+describe('applyBudgetToChain', () => {
+    const chain = ['gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+
+    it('leaves the chain alone within budget', () => {
+        saveBudgetConfig({ dailyUsd: 5, onExceeded: 'downgrade' });
+        expect(applyBudgetToChain(chain)).toEqual(chain);
+    });
+
+    it('drops Pro models over budget', () => {
+        saveBudgetConfig({ dailyUsd: 5, onExceeded: 'downgrade' });
+        recordUsage(spent(5, NOW.getTime()));
+        expect(applyBudgetToChain(chain)).toEqual(['gemini-2.5-flash', 'gemini-2.5-flash-lite']);
+    });
+
+    it('keeps the last model when every model is Pro', () => {
+        saveBudgetConfig({ dailyUsd: 5, onExceeded: 'block' });
+        recordUsage(spent(5, NOW.getTime()));
+        expect(applyBudgetToChain(['gemini-3-pro-preview', 'gemini-2.5-pro'])).toEqual(['gemini-2.5-pro']);
+    });
+});
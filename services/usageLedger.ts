@@ -0,0 +1,166 @@
+
+import { PipelineStage, UsageRecord } from '../types';
+import { StageOptions, emitPipelineEvent } from './pipelineEvents';
+
+// --- USAGE & COST LEDGER ---
+// Every billable call is priced and appended to a browser-wide ledger (the
+// team shares one key, so budgets apply across sessions). Stage calls also
+// emit a `usage` event so the active session can keep its own breakdown.
+
+// USD per 1M tokens. Thinking tokens are billed at the output rate.
+interface TokenPrice { input: number; output: number }
+
+const TOKEN_PRICES: [prefix: string, price: TokenPrice][] = [
+    ['gemini-3-pro', { input: 2.00, output: 12.00 }],
+    ['gemini-2.5-pro', { input: 1.25, output: 10.00 }],
+    ['gemini-2.5-flash-lite', { input: 0.10, output: 0.40 }],
+    ['gemini-2.5-flash', { input: 0.30, output: 2.50 }]
+];
+
+// USD per generated image / per second of video
+const IMAGE_PRICES: Record<string, Partial<Record<'1K' | '2K' | '4K', number>>> = {
+    'gemini-3-pro-image-preview': { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+    'gemini-2.5-flash-image': { '1K': 0.039 }
+};
+const VIDEO_PRICE_PER_SECOND: Record<string, number> = {
+    'veo-3.1-fast-generate-preview': 0.15
+};
+// Veo renders 8-second clips by default
+export const VEO_CLIP_SECONDS = 8;
+
+export const estimateTokenCost = (model: string, promptTokens: number, thinkingTokens: number, outputTokens: number) => {
+    const price = TOKEN_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1];
+    if (!price) return 0; // local / unknown models are free as far as we know
+    return (promptTokens * price.input + (thinkingTokens + outputTokens) * price.output) / 1_000_000;
+};
+
+export const estimateImageCost = (model: string, size: '1K' | '2K' | '4K') => {
+    const prices = IMAGE_PRICES[model] || {};
+    return prices[size] ?? prices['1K'] ?? 0;
+};
+
+export const estimateVideoCost = (model: string, seconds: number = VEO_CLIP_SECONDS) =>
+    (VIDEO_PRICE_PER_SECOND[model] || 0) * seconds;
+
+// --- LEDGER ---
+const LEDGER_KEY = 'studysim_usage_ledger';
+// Only the current and previous month matter for budgets and reporting
+const LEDGER_RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+export const getUsageLedger = (): UsageRecord[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+    } catch (e) {
+        return [];
+    }
+};
+
+export const clearUsageLedger = () => localStorage.removeItem(LEDGER_KEY);
+
+export const recordUsage = (record: UsageRecord) => {
+    const cutoff = Date.now() - LEDGER_RETENTION_MS;
+    const ledger = getUsageLedger().filter(r => r.timestamp >= cutoff);
+    ledger.push(record);
+    try {
+        localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+    } catch (e) {
+        console.warn("Usage ledger write failed", e);
+    }
+};
+
+// Prices a finished model call, records it and tells the session about it.
+export const reportUsage = (
+    stage: PipelineStage,
+    model: string,
+    tokens: { promptTokens?: number; thinkingTokens?: number; outputTokens?: number; costUsd?: number },
+    options?: StageOptions
+): UsageRecord => {
+    const promptTokens = tokens.promptTokens || 0;
+    const thinkingTokens = tokens.thinkingTokens || 0;
+    const outputTokens = tokens.outputTokens || 0;
+    const record: UsageRecord = {
+        stage,
+        model,
+        promptTokens,
+        thinkingTokens,
+        outputTokens,
+        costUsd: tokens.costUsd ?? estimateTokenCost(model, promptTokens, thinkingTokens, outputTokens),
+        timestamp: Date.now()
+    };
+    recordUsage(record);
+    emitPipelineEvent(options, { type: 'usage', stage, at: record.timestamp, record });
+    return record;
+};
+
+// --- SPEND REPORTING ---
+const startOfDay = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+const startOfMonth = (now: Date) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const sumCost = (records: UsageRecord[]) => records.reduce((sum, r) => sum + r.costUsd, 0);
+
+export const getSpend = (period: 'day' | 'month', ledger: UsageRecord[] = getUsageLedger()) => {
+    const now = new Date();
+    const since = period === 'day' ? startOfDay(now) : startOfMonth(now);
+    return sumCost(ledger.filter(r => r.timestamp >= since));
+};
+
+export const formatUsd = (amount: number) =>
+    amount > 0 && amount < 0.01 ? `<$0.01` : `$${amount.toFixed(2)}`;
+
+// --- BUDGETS ---
+// When a limit is reached, expensive calls (2K/4K images, Veo) are either
+// blocked or downgraded to the cheap image model. Text stages always
+// downgrade: Pro models are skipped and their Flash fallbacks answer.
+export interface BudgetConfig {
+    dailyUsd?: number;
+    monthlyUsd?: number;
+    onExceeded: 'block' | 'downgrade';
+}
+
+const BUDGET_KEY = 'studysim_budget';
+
+export const getBudgetConfig = (): BudgetConfig => {
+    try {
+        return { onExceeded: 'downgrade', ...JSON.parse(localStorage.getItem(BUDGET_KEY) || '{}') };
+    } catch (e) {
+        return { onExceeded: 'downgrade' };
+    }
+};
+
+export const saveBudgetConfig = (config: BudgetConfig) => {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(config));
+};
+
+export interface BudgetStatus {
+    exceeded: boolean;
+    reason?: string;
+    mode: BudgetConfig['onExceeded'];
+}
+
+export const checkBudget = (config: BudgetConfig = getBudgetConfig()): BudgetStatus => {
+    const ledger = getUsageLedger();
+    const daily = getSpend('day', ledger);
+    const monthly = getSpend('month', ledger);
+    if (config.dailyUsd && daily >= config.dailyUsd) {
+        return { exceeded: true, mode: config.onExceeded, reason: `Daily budget of ${formatUsd(config.dailyUsd)} reached (${formatUsd(daily)} spent)` };
+    }
+    if (config.monthlyUsd && monthly >= config.monthlyUsd) {
+        return { exceeded: true, mode: config.onExceeded, reason: `Monthly budget of ${formatUsd(config.monthlyUsd)} reached (${formatUsd(monthly)} spent)` };
+    }
+    return { exceeded: false, mode: config.onExceeded };
+};
+
+export class BudgetExceededError extends Error {
+    constructor(reason: string) {
+        super(`${reason}. Raise the limit in Settings → Usage to continue.`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+// Over budget, Pro text models are dropped from a fallback chain (the last
+// model is always kept so the stage can still run).
+export const applyBudgetToChain = (chain: string[]): string[] => {
+    if (!checkBudget().exceeded) return chain;
+    const cheaper = chain.filter(model => !model.includes('-pro'));
+    return cheaper.length > 0 ? cheaper : chain.slice(-1);
+};
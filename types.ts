@@ -14,14 +14,243 @@ export enum LoadingState {
   ERROR = 'ERROR'
 }
 
+export type PipelineStage = 'TRANSCRIBE' | 'RESEARCH' | 'ARCHITECT' | 'NOTES' | 'VERIFY' | 'SIMULATOR' | 'QUIZ' | 'DEEP_DIVE' | 'IMAGE' | 'VIDEO';
+
+// Which model actually produced a stage's output, and what it fell back from.
+export interface ModelFallback {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface StageModelRecord {
+  stage: PipelineStage;
+  model: string;
+  fallbacks: ModelFallback[];
+  timestamp: number;
+}
+
+// One billable model call, priced at the time it was made.
+export interface UsageRecord {
+  stage: PipelineStage;
+  model: string;
+  promptTokens: number;
+  thinkingTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  timestamp: number;
+}
+
+// Who the study package is for and what it should stress.
+export type StudyLevel = 'intro' | 'high-school' | 'undergraduate' | 'graduate';
+export type StudyLength = 'brief' | 'standard' | 'in-depth';
+export type StudyEmphasis = 'conceptual' | 'exam-prep' | 'derivations';
+
+export interface StudySettings {
+  level: StudyLevel;
+  length: StudyLength;
+  emphasis: StudyEmphasis;
+  // BCP-47 code of the language notes, quiz and tutor answers are written in
+  language: string;
+  // Follow technical terms with their English name when writing in another language
+  englishGlosses: boolean;
+}
+
+// --- ATTACHMENTS ---
+// 'web' is a page fetched from a link in the topic (see urlIngestion.ts)
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'pdf' | 'document' | 'text' | 'web' | 'other';
+
+// inline: sent to the model as a file; text: read into the prompt;
+// skipped / failed: not used, `note` says why
+export type AttachmentStatus = 'inline' | 'text' | 'skipped' | 'failed';
+
+export interface AttachmentSummary {
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  kind: AttachmentKind;
+  status: AttachmentStatus;
+  note?: string;
+  // Web pages: the link that was fetched
+  url?: string;
+}
+
+// A page (PDF) or section (DOCX, TXT) of extracted text. Notes cite it as
+// "<file> <anchor>", e.g. "Lecture3.pdf p.12".
+export interface DocumentSection {
+  anchor: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  name: string;
+  kind: AttachmentKind;
+  sections: DocumentSection[];
+}
+
+// --- TRANSCRIPTS ---
+export interface TranscriptLine {
+  // Seconds from the start of the recording
+  startSec: number;
+  text: string;
+}
+
+// Consecutive lines about one topic
+export interface TranscriptSegment {
+  title: string;
+  startSec: number;
+  lines: TranscriptLine[];
+}
+
+export interface Transcript {
+  // File name of the recording it came from
+  name: string;
+  mimeType: string;
+  segments: TranscriptSegment[];
+}
+
+// An attachment ready to send to a provider
+export interface StudyAttachment extends AttachmentSummary {
+  // Base64 file contents when status is 'inline'
+  data?: string;
+  // Recordings too large to send inline; providers upload them instead
+  blob?: Blob;
+  // Extracted text when status is 'text'
+  document?: ExtractedDocument;
+  // Set for transcribed audio; `document` then holds the same text by segment
+  transcript?: Transcript;
+}
+
 export interface StudyPlan {
   markdownPlan: string;
   sources: { title: string; uri: string }[];
+  // Files the plan was built from (older sessions have none recorded)
+  attachments?: AttachmentSummary[];
+  // The Architect's plan as written, when the student edited it at review
+  originalMarkdownPlan?: string;
+}
+
+export interface TopicFacts {
+  facts: string[];
+  searchContext: string;
+}
+
+// A numbered source the notes cite as "[id]" or "[id, p.12]"
+export interface StudyReference {
+  id: number;
+  kind: 'web' | 'document';
+  title: string;
+  // Web sources only; documents are cited by file name
+  uri?: string;
 }
 
 export interface StudyResult {
   markdown: string;
   simulatorCode: string;
+  // Sources the notes cite (older sessions have none)
+  references?: StudyReference[];
+  // Set once the notes have been fact-checked
+  factCheck?: FactCheckReport;
+  // Set once the simulator has been run by the QA harness
+  simulatorQa?: SimulatorQaReport;
+}
+
+// --- FACT CHECK ---
+export type FactCheckVerdict = 'supported' | 'disputed' | 'unverifiable';
+
+// A checkable statement or formula from the notes, judged against the research
+export interface FactCheckClaim {
+  // Verbatim from the notes, markdown and LaTeX included
+  quote: string;
+  kind: 'claim' | 'formula';
+  verdict: FactCheckVerdict;
+  evidence: string;
+  // Replacement for `quote`; disputed claims only
+  correction?: string;
+  // Where the evidence comes from, e.g. "[2]" or "Research summary"
+  source?: string;
+}
+
+export interface FactCheckFlag extends FactCheckClaim {
+  id: string;
+  status: 'open' | 'accepted' | 'dismissed';
+}
+
+export interface FactCheckReport {
+  checkedAt: number;
+  claimsChecked: number;
+  supported: number;
+  unverifiable: number;
+  // Disputed claims only
+  flags: FactCheckFlag[];
+}
+
+// --- SIMULATOR QA ---
+export type SimulatorQaIssueKind = 'console-error' | 'exception' | 'rejection' | 'no-canvas' | 'blank-canvas' | 'no-response';
+
+export interface SimulatorQaIssue {
+  kind: SimulatorQaIssueKind;
+  message: string;
+}
+
+// One run of the simulator in the hidden frame
+export interface SimulatorQaAttempt {
+  attempt: number;
+  passed: boolean;
+  issues: SimulatorQaIssue[];
+  // Canvas samples taken during the run, and how many had something drawn
+  framesSampled: number;
+  framesDrawn: number;
+  durationMs: number;
+}
+
+export interface SimulatorQaReport {
+  checkedAt: number;
+  // The version that was kept passed
+  passed: boolean;
+  // True when a repaired simulator replaced the generated one
+  repaired: boolean;
+  attempts: SimulatorQaAttempt[];
+  // Set when a repair call failed and the remaining repairs were skipped
+  repairError?: string;
+}
+
+// --- SIMULATOR BRIDGE ---
+// What a running simulator exposes to the host (see simulatorBridge.ts)
+export interface SimulatorParam {
+  id: string;
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+}
+
+export interface SimulatorOutput {
+  id: string;
+  label: string;
+  unit?: string;
+}
+
+// --- EXPERIMENTS ---
+// One reading while recording: seconds since the run started, the parameter
+// settings at that moment and the simulator's output values
+export interface ExperimentSample {
+  t: number;
+  params: Record<string, number>;
+  values: Record<string, number>;
+}
+
+// A recorded simulator run, kept with the session for comparison and export
+export interface ExperimentRun {
+  id: string;
+  name: string;
+  recordedAt: number;
+  // Parameter and output descriptions when the run started
+  params: SimulatorParam[];
+  outputs: SimulatorOutput[];
+  samples: ExperimentSample[];
 }
 
 export interface GeneratedImage {
@@ -62,4 +291,15 @@ export interface SavedSession {
   result: StudyResult;
   quizQuestions: QuizQuestion[];
   chatHistory: DeepDiveMessage[];
+  modelHistory?: StageModelRecord[];
+  usage?: UsageRecord[];
+  // Prompt template id -> version used (e.g. "architect": "1+fork.2")
+  promptVersions?: Record<string, string>;
+  settings?: StudySettings;
+  // Transcribed recordings; the audio itself is kept in IndexedDB
+  transcripts?: Transcript[];
+  // Stage 1 research summary, the evidence a fact check is run against
+  searchContext?: string;
+  // Simulator runs recorded in the Lab panel; the runs live in IndexedDB
+  experimentRunIds?: string[];
 }
@@ -4,15 +4,30 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API server (npm run server) holds the Gemini key. The proxy adds the
+    // shared token, so it never reaches the browser.
+    const apiServer = {
+      target: env.API_SERVER_URL || 'http://127.0.0.1:8787',
+      headers: { 'X-StudySim-Token': env.STUDYSIM_API_TOKEN || '' },
+    };
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Loopback only: anyone who can reach the proxy can spend the key.
+        // `npm run dev -- --host` exposes it on purpose.
+        host: '127.0.0.1',
+        proxy: {
+          '/api': apiServer,
+          '/fetch': apiServer,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.LOCAL_MODEL_NAME': JSON.stringify(env.LOCAL_MODEL_NAME),
+        'process.env.LOCAL_MODEL_FALLBACKS': JSON.stringify(env.LOCAL_MODEL_FALLBACKS),
+        'process.env.FETCH_PROXY_URL': JSON.stringify(env.FETCH_PROXY_URL)
       },
       resolve: {
         alias: {